@@ -1,7 +1,7 @@
 import axios from 'axios';
 import { fetchEventSource } from '@microsoft/fetch-event-source';
 import { UserConfig } from './app/context/ConfigContext';
-import { getProxiedUrl, getApiHeaders, API_CONFIG } from './lib/api-config';
+import { getProxiedUrl, getApiHeaders, createCorrelationId, API_CONFIG } from './lib/api-config';
 import { 
   AgentChatFeedbackRequestBody, 
   ChatEventHandlers, 
@@ -9,8 +9,21 @@ import {
   ChatThreadResponse, 
   chatThreadResponseV2, 
   AllChatsResponseV2, 
-  ChatThreadAgentResponsesV2
+  ChatThreadAgentResponsesV2,
+  ChatThreadsPage
 } from './model';
+import {
+  createEjentoApiError,
+  EjentoNetworkError,
+  isEjentoApiError,
+  parseRetryAfter,
+  toEjentoApiError,
+} from './lib/api-errors';
+import { getRetryPolicy, RetryPolicy, withRetry } from './lib/retry';
+import { logEvent } from './lib/logger';
+
+/** Threads requested per page by getChatThreadsPage */
+export const CHAT_THREADS_PAGE_SIZE = 50;
 
 /**
  * Unified API Service class that handles all API calls
@@ -24,87 +37,124 @@ import {
  * - Store responses locally in IndexedDB (not on server)
  * - Support browser-only chat sessions with data isolation
  * 
+ * ERRORS:
+ * Every method resolves with typed data or throws an EjentoApiError subclass
+ * (auth, not-found, rate-limited, validation, network, upstream-5xx).
+ * 
+ * RETRIES:
+ * Non-streaming calls are retried on 429/5xx/network errors according to the
+ * RetryPolicy. GET/PUT/DELETE are retried by default; POSTs only on 429 unless
+ * the policy sets retryNonIdempotent.
+ * 
+ * TRACING:
+ * Every call gets a correlation id, sent as X-Correlation-Id (retries reuse
+ * it) and logged by the proxy. Errors carry it in `correlationId`.
+ * 
  * @see ConfigContext for credential management
+ * @see EjentoApiError for the error hierarchy
  * @see PublicAgentSessionContext for IndexedDB storage
  */
 export class ApiService {
-  constructor(private config: UserConfig) {}
+  private retryPolicy: RetryPolicy;
 
-  private getHeaders(baseUrl?: string): Record<string, string> {
+  constructor(private config: UserConfig, retryPolicy?: Partial<RetryPolicy>) {
+    this.retryPolicy = getRetryPolicy(retryPolicy);
+  }
+
+  private getHeaders(baseUrl?: string, correlationId?: string): Record<string, string> {
     // For environment-driven config, credentials may not be in client config
     // They are retrieved server-side via proxy. Use empty strings as fallback.
     return getApiHeaders(
       baseUrl || this.config.baseUrl,
       this.config.ejentoAccessToken || '',
-      this.config.apiKey || ''
+      this.config.apiKey || '',
+      correlationId
     );
   }
 
-  async getCurrentUser(): Promise<any> {
+  /**
+   * Performs a non-streaming request through the proxy, retrying transient failures
+   * and normalizing errors into EjentoApiError subclasses
+   */
+  private async request<T>(
+    method: 'get' | 'post' | 'put' | 'delete',
+    url: string,
+    fallbackMessage: string,
+    data?: unknown
+  ): Promise<T> {
+    const correlationId = createCorrelationId();
     try {
-      const url = getProxiedUrl(
-        `${this.config.baseUrl}/api/v2/users/me`,
-        this.config.baseUrl
-      );
-      const response = await axios.get(url, {
-        headers: this.getHeaders(),
+      return await withRetry(async () => {
+        try {
+          const response = await axios.request<T>({
+            method,
+            url,
+            data,
+            headers: this.getHeaders(undefined, correlationId),
+          });
+          return response.data;
+        } catch (error) {
+          throw toEjentoApiError(error, url, fallbackMessage, correlationId);
+        }
+      }, this.retryPolicy, method !== 'post');
+    } catch (error) {
+      logEvent('error', 'api.request_failed', {
+        correlationId,
+        method: method.toUpperCase(),
+        path: url.split('?')[0],
+        status: isEjentoApiError(error) ? error.status : undefined,
+        error,
       });
-      return response.data;
-    } catch (error: any) {
-      if (error.response) {
-        return error.response.status;
-      }
       throw error;
     }
   }
 
+  async getCurrentUser(): Promise<any> {
+    const url = getProxiedUrl(
+      `${this.config.baseUrl}/api/v2/users/me`,
+      this.config.baseUrl
+    );
+    return this.request<any>('get', url, 'Failed to retrieve current user');
+  }
+
   async getAgent(agentId: string): Promise<{success: boolean, message: string, data: any}> {
-    try {
-      const url = getProxiedUrl(
-        `${this.config.baseUrl}/api/v2/agents/${agentId}`,
-        this.config.baseUrl
-      );
-      const response = await axios.get(url, {
-        headers: this.getHeaders(),
-      });
-      return response.data;
-    } catch (error: any) {
-      if (error.response) {
-        // Return error response in the expected format
-        return {
-          success: false,
-          message: error.response.data?.message || 'Failed to retrieve agent',
-          data: null
-        };
-      }
-      throw error;
+    const url = getProxiedUrl(
+      `${this.config.baseUrl}/api/v2/agents/${agentId}`,
+      this.config.baseUrl
+    );
+    const response = await this.request<{success: boolean, message: string, data: any}>(
+      'get',
+      url,
+      'Failed to retrieve agent'
+    );
+    if (!response?.success || !response.data) {
+      throw createEjentoApiError(404, url, response?.message, 'Failed to retrieve agent');
     }
+    return response;
   }
 
-  
-
   async getCorpus(): Promise<any> {
-    try {
-      // Construct URL path - when baseUrl is empty, just use the path directly
-      const urlPath = this.config.baseUrl 
-        ? `${this.config.baseUrl}/api/v2/agents/${this.config.agentId}/corpora?verbosity=medium&is_enabled=true`
-        : `/api/v2/agents/${this.config.agentId}/corpora?verbosity=medium&is_enabled=true`;
-      const url = getProxiedUrl(urlPath, this.config.baseUrl);
-      const response = await axios.get(url, {
-        headers: this.getHeaders(),
-      });
-      // console.log(response.data);
-      return response.data;
-    } catch (error: any) {
-      if (error.response) {
-        return error.response.status;
-      }
-      throw error;
-    }
+    // Construct URL path - when baseUrl is empty, just use the path directly
+    const urlPath = this.config.baseUrl 
+      ? `${this.config.baseUrl}/api/v2/agents/${this.config.agentId}/corpora?verbosity=medium&is_enabled=true`
+      : `/api/v2/agents/${this.config.agentId}/corpora?verbosity=medium&is_enabled=true`;
+    const url = getProxiedUrl(urlPath, this.config.baseUrl);
+    return this.request<any>('get', url, 'Failed to retrieve corpus');
   }
 
   // ==================== CHAT METHODS ====================
 
+  /**
+   * Streams an agent response over SSE
+   *
+   * The stream is never reconnected: the endpoint has no resume contract (no response id
+   * or Last-Event-ID to continue from), so re-POSTing would start a second agent response.
+   * A dropped connection (network error, 429/5xx on open, or the server closing before
+   * the terminal step reported by `handlers.isComplete`) calls `handlers.onerror` exactly
+   * once, and the caller keeps whatever was already streamed. The server usually finishes
+   * the response anyway; useChat then recovers it from the thread's agent responses
+   * (see findRecoveredResponse).
+   */
   async streamChatRequest(
     options: any,
     handlers: ChatEventHandlers
@@ -114,13 +164,15 @@ export class ApiService {
   
     const controller = new AbortController();
     const signal = handlers.signal || controller.signal;
+    const correlationId = createCorrelationId();
   
+    const url = getProxiedUrl(
+      `${this.config.baseUrl}/response-service/api/v2/agents/${agentId}/responses/stream`,
+      this.config.baseUrl
+    );
+
     try {
-      const url = getProxiedUrl(
-        `${this.config.baseUrl}/response-service/api/v2/agents/${agentId}/responses/stream`,
-        this.config.baseUrl
-      );
-      const headers = this.getHeaders();
+      const headers = this.getHeaders(undefined, correlationId);
       
       await fetchEventSource(url, {
         method: "POST",
@@ -134,246 +186,158 @@ export class ApiService {
         openWhenHidden: true,
         body: JSON.stringify(requestBody),
         onopen: async (res) => {
+          if (!res.ok) {
+            const body = await res.json().catch(() => null);
+            throw createEjentoApiError(
+              res.status,
+              url,
+              body?.message || body?.error,
+              'Failed to open response stream',
+              { retryAfterMs: parseRetryAfter(res.headers.get('Retry-After')), correlationId }
+            );
+          }
           await handlers.onopen?.(res);
         },
         onmessage: (event) => {
           handlers.onmessage?.(event);
         },
         onclose: () => {
+          if (handlers.isComplete && !handlers.isComplete()) {
+            // The server hung up before sending the terminal step: treat as a dropped connection
+            throw new EjentoNetworkError('Stream closed before the response completed', { path: url, correlationId });
+          }
           handlers.onclose?.();
         },
-        onerror: handlers.onerror || ((err) => {
-          console.error("Stream connection error:", err);
-        })
+        onerror: (err) => {
+          // Throwing stops fetchEventSource from retrying; the catch below reports the failure once
+          throw toEjentoApiError(err, url, 'Stream connection error', correlationId);
+        }
       });
     } catch (error) {
-      console.error("Failed to establish stream connection:", error);
-      handlers.onerror?.(error instanceof Error ? error : new Error(String(error)));
+      const apiError = toEjentoApiError(error, url, 'Stream connection error', correlationId);
+      logEvent('error', 'api.stream_failed', {
+        correlationId,
+        path: url,
+        status: apiError.status,
+        error: apiError,
+      });
+      handlers.onerror?.(apiError);
     }
   
     return () => controller.abort();
   }
 
   async sendChat(data: any): Promise<any> {
-    try {
-      const { agent_id, ...rest } = data;
-      const url = getProxiedUrl(
-        `${this.config.baseUrl}/response-service/api/v2/agents/${this.config.agentId}/responses`,
-        this.config.baseUrl
-      );
-      const response = await axios.post<any>(url, data, {
-        headers: this.getHeaders(),
-      });
-      // console.log("sendChat response", response.data);
-      return response.data;
-    } catch (error: any) {
-      if (error.response) {
-        const statusCode = error.response.status;
-        const serverMessage = error.response.data?.message || "Unknown error occurred";
-        console.error(`Error ${statusCode}: ${serverMessage}`);
-        return {
-          success: false,
-          status: statusCode,
-          message: serverMessage,
-        };
-      }
-
-      console.error("An unexpected error occurred:", error.message);
-      return {
-        success: false,
-        status: 500,
-        message: "An unexpected error occurred.",
-      };
-    }
+    const url = getProxiedUrl(
+      `${this.config.baseUrl}/response-service/api/v2/agents/${this.config.agentId}/responses`,
+      this.config.baseUrl
+    );
+    return this.request<any>('post', url, 'An unexpected error occurred.', data);
   }
 
   async getChatlogs(threadID: number): Promise<ChatThreadAgentResponsesV2> {
-    try {
-      const url = getProxiedUrl(
-        `${this.config.baseUrl}/api/v2/chat-threads/${threadID}/agent-responses?include_steps=true`,
-        this.config.baseUrl
-      );
-      const response = await axios.get<ChatThreadAgentResponsesV2>(url, {
-        headers: this.getHeaders(),
-      });
-      // console.log(response.data);
-      return response.data;
-    } catch (error: any) {
-      if (error.response) {
-        throw new Error(error.response.data.message || "Failed to get chat thread.");
-      }
-      throw new Error("An unexpected error occurred.");
-    }
+    const url = getProxiedUrl(
+      `${this.config.baseUrl}/api/v2/chat-threads/${threadID}/agent-responses?include_steps=true`,
+      this.config.baseUrl
+    );
+    return this.request<ChatThreadAgentResponsesV2>('get', url, 'Failed to get chat thread.');
   }
 
   async handleUpvote(data: AgentChatFeedbackRequestBody, chatId: number): Promise<any> {
-
     const body = {
       vote_type: data?.vote_type,
     };
-
-    try {
-      const url = getProxiedUrl(
-        `${this.config.baseUrl}/api/v2/agent-responses/${chatId}/feedbacks`,
-        this.config.baseUrl
-      );
-      const response = await axios.post(url, body, {
-        headers: this.getHeaders(),
-      });
-
-      return response.data;
-    } catch (error) {
-      if (axios.isAxiosError(error) && error.response) {
-        const errorData = error.response.data;
-        throw new Error(errorData.message || 'Failed to record feedback.');
-      }
-      throw new Error('An error occurred while making the request.');
-    }
+    const url = getProxiedUrl(
+      `${this.config.baseUrl}/api/v2/agent-responses/${chatId}/feedbacks`,
+      this.config.baseUrl
+    );
+    return this.request<any>('post', url, 'Failed to record feedback.', body);
   }
 
   async handleDownvote(data: AgentChatFeedbackRequestBody, chatId: number): Promise<any> {
-
     const body = {
       vote_type: data?.vote_type,
     };
-
-    try {
-      const url = getProxiedUrl(
-        `${this.config.baseUrl}/api/v2/agent-responses/${chatId}/feedbacks`,
-        this.config.baseUrl
-      );
-      const response = await axios.post(url, body, {
-        headers: this.getHeaders(),
-      });
-
-      return response.data;
-    } catch (error) {
-      if (axios.isAxiosError(error) && error.response) {
-        const errorData = error.response.data;
-        throw new Error(errorData.message || 'Failed to record feedback.');
-      }
-      throw new Error('An error occurred while making the request.');
-    }
+    const url = getProxiedUrl(
+      `${this.config.baseUrl}/api/v2/agent-responses/${chatId}/feedbacks`,
+      this.config.baseUrl
+    );
+    return this.request<any>('post', url, 'Failed to record feedback.', body);
   }
 
   async handleComment(data: any): Promise<chatThreadResponse> {
-    try {
-
-      const body = {
-        comment: data?.comment,
-        created_by: data?.created_by
-      }
-      const url = getProxiedUrl(
-        `${this.config.baseUrl}/api/v2/agent-responses/${data?.chat_id}/comments`,
-        this.config.baseUrl
-      );
-      const response = await axios.post(url, body, {
-        headers: this.getHeaders(),
-      });
-
-      return response.data as chatThreadResponse;
-    } catch (error) {
-      if (axios.isAxiosError(error) && error.response) {
-        const errorData = error.response.data;
-        throw new Error(errorData.message || 'Failed to record feedback.');
-      }
-      throw new Error('An error occurred while making the request.');
+    const body = {
+      comment: data?.comment,
+      created_by: data?.created_by
     }
+    const url = getProxiedUrl(
+      `${this.config.baseUrl}/api/v2/agent-responses/${data?.chat_id}/comments`,
+      this.config.baseUrl
+    );
+    return this.request<chatThreadResponse>('post', url, 'Failed to record feedback.', body);
   }
 
   async createChatThread(agentId: number, created_by: string): Promise<ChatThreadResponse[]> {
+    const url = getProxiedUrl(
+      `${this.config.baseUrl}/api/v2/agents/${agentId}/chat-threads`,
+      this.config.baseUrl
+    );
 
     if (!agentId || !created_by) {
-      throw new Error("All parameters (agentId, created_by) are required.");
-    }
-
-    try {
-      const body = {
-        agent: agentId,
-        created_by: created_by,
-      };
-
-      const url = getProxiedUrl(
-        `${this.config.baseUrl}/api/v2/agents/${agentId}/chat-threads`,
-        this.config.baseUrl
+      throw createEjentoApiError(
+        400,
+        url,
+        undefined,
+        "All parameters (agentId, created_by) are required."
       );
-      const response = await axios.post<ChatThreadResponse[]>(url, body, {
-        headers: this.getHeaders(),
-      });
-
-      return response.data;
-    } catch (error: any) {
-      if (axios.isAxiosError(error) && error.response) {
-        throw new Error(error.response.data?.message || "Failed to create chat thread.");
-      }
-      throw new Error("An unexpected error occurred while creating the chat thread.");
     }
+
+    const body = {
+      agent: agentId,
+      created_by: created_by,
+    };
+    return this.request<ChatThreadResponse[]>('post', url, "Failed to create chat thread.", body);
   }
 
-  async getChatThreads(): Promise<AllChatsResponseV2> {
+  async getChatThreads(page?: number, pageSize: number = CHAT_THREADS_PAGE_SIZE): Promise<AllChatsResponseV2> {
+    const pagination = page ? `&page=${page}&page_size=${pageSize}` : '';
+    const url = getProxiedUrl(
+      `${this.config.baseUrl}/api/v2/agents/${this.config.agentId}/chat-threads?query_source=app-ejento${pagination}`,
+      this.config.baseUrl
+    );
+    return this.request<AllChatsResponseV2>('get', url, "Failed to get chat threads.");
+  }
 
-    try {
-      const url = getProxiedUrl(
-        `${this.config.baseUrl}/api/v2/agents/${this.config.agentId}/chat-threads?query_source=app-ejento`,
-        this.config.baseUrl
-      );
-      const response = await axios.get<AllChatsResponseV2>(url, {
-        headers: this.getHeaders(),
-      });
-      // console.log(response.data);
-      return response.data;
-    } catch (error: any) {
-      if (error.response) {
-        throw new Error(error.response.data.message || "Failed to get chat threads.");
-      }
-      throw new Error("An unexpected error occurred.");
-    }
+  /**
+   * Gets one page of chat threads (most recent first)
+   * The response carries no pagination fields, so only a full page means there may be
+   * more. A server that ignores `page`/`page_size` returns everything (or the same page)
+   * every time; callers stop once a page adds no threads they have not seen.
+   */
+  async getChatThreadsPage(page: number, pageSize: number = CHAT_THREADS_PAGE_SIZE): Promise<ChatThreadsPage> {
+    const response = await this.getChatThreads(page, pageSize);
+    const threads = response?.data?.chat_threads || [];
+    return { threads, page, hasMore: threads.length === pageSize };
   }
 
   async deleteChatThread(deleteId: number): Promise<any> {
-
-    try {
-      const url = getProxiedUrl(
-        `${this.config.baseUrl}/api/v2/chat-threads/${deleteId}`,
-        this.config.baseUrl
-      );
-      const response = await axios.delete<any>(url, {
-        headers: this.getHeaders(),
-      });
-
-      return response.data;
-    } catch (error: any) {
-      if (error.response) {
-        throw new Error(error.response.data.message || "Failed to delete chat thread.");
-      }
-      throw new Error("An unexpected error occurred.");
-    }
+    const url = getProxiedUrl(
+      `${this.config.baseUrl}/api/v2/chat-threads/${deleteId}`,
+      this.config.baseUrl
+    );
+    return this.request<any>('delete', url, "Failed to delete chat thread.");
   }
 
   async updateChatThreadTitle(chatId: number, newTitle: string, modifiedBy?: string): Promise<AllChatsResponseV2> {
-
-    const created_by = modifiedBy || this.config.userInfo?.email || 'user'
-    try {
-      const url = getProxiedUrl(
-        `${this.config.baseUrl}/api/v2/chat-threads/${chatId}`,
-        this.config.baseUrl
-      );
-      const response = await axios.put<AllChatsResponseV2>(
-        url,
-        {
-          title: newTitle, 
-        },
-        {
-          headers: this.getHeaders(),
-        }
-      );
-
-      return response.data;
-    } catch (error: any) {
-      if (error.response) {
-        throw new Error(error.response.data.message || "Failed to update chat thread title.");
-      }
-      throw new Error("An unexpected error occurred while updating the chat thread title.");
-    }
+    const url = getProxiedUrl(
+      `${this.config.baseUrl}/api/v2/chat-threads/${chatId}`,
+      this.config.baseUrl
+    );
+    return this.request<AllChatsResponseV2>(
+      'put',
+      url,
+      "Failed to update chat thread title.",
+      { title: newTitle }
+    );
   }
 }
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { API_CONFIG, createCorrelationId } from '@/lib/api-config';
+import { decodeCitationRef, parseCitationPathPrefixes, resolveCitationUrl } from '@/lib/citations';
+import { logEvent } from '@/lib/logger';
+import { consumeRateLimit, getBudgetLimit, getClientIp } from '@/lib/rate-limit';
+import { getServerSideCredentials, isPublicAgentEnabled } from '@/lib/server-credentials';
+
+/** Same-origin redirects followed with the credentials before giving up */
+const MAX_REDIRECTS = 3;
+
+/** Upstream headers passed on to the browser */
+const FORWARDED_HEADERS = ['content-type', 'content-length', 'content-disposition', 'last-modified', 'etag'];
+
+/**
+ * Opens a document cited in an agent response
+ *
+ * The reference is fetched from Ejento with the server-side credentials and streamed to
+ * the browser. When Ejento redirects to another host (e.g. a signed storage URL), the
+ * browser is redirected there instead, so the credentials never leave for another host.
+ *
+ * SECURITY: Only references on the Ejento host under the document path prefixes in
+ * EJENTO_CITATION_PATH_PREFIXES are fetched (see resolveCitationUrl); without that
+ * setting the route serves no documents. Documents are served sandboxed so an HTML
+ * document cannot run scripts on this origin.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ ref: string }> }) {
+  const { ref } = await params;
+  const correlationId = createCorrelationId();
+  const startedAt = Date.now();
+
+  const respond = <T extends Response>(response: T, fields: Record<string, unknown> = {}): T => {
+    response.headers.set(API_CONFIG.CORRELATION_ID_HEADER, correlationId);
+    logEvent(response.status >= 500 ? 'error' : response.status >= 400 ? 'warn' : 'info', 'citation.request', {
+      correlationId,
+      status: response.status,
+      latencyMs: Date.now() - startedAt,
+      ...fields,
+    });
+    return response;
+  };
+
+  try {
+    const credentials = await getServerSideCredentials({ dropInvalidCookie: true });
+    if (!credentials) {
+      return respond(NextResponse.json({ error: 'API credentials not configured.' }, { status: 401 }));
+    }
+
+    const allowedPrefixes = parseCitationPathPrefixes(process.env.EJENTO_CITATION_PATH_PREFIXES);
+    if (allowedPrefixes.length === 0) {
+      return respond(NextResponse.json({ error: 'Document citations are not enabled.' }, { status: 404 }), {
+        reason: 'no_document_prefixes',
+      });
+    }
+
+    const referenceUrl = decodeCitationRef(ref);
+    let target = referenceUrl ? resolveCitationUrl(referenceUrl, credentials.baseUrl, allowedPrefixes) : null;
+    if (!target) {
+      return respond(NextResponse.json({ error: 'Invalid citation reference.' }, { status: 400 }), {
+        reason: 'invalid_reference',
+      });
+    }
+
+    if (isPublicAgentEnabled()) {
+      const result = await consumeRateLimit([`ip:${getClientIp(request.headers)}:citation`], getBudgetLimit('standard'));
+      if (!result.allowed) {
+        const retryAfterSeconds = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+        return respond(
+          NextResponse.json(
+            { error: 'Too many requests', retryAfter: retryAfterSeconds },
+            { status: 429, headers: { 'Retry-After': retryAfterSeconds.toString() } }
+          ),
+          { reason: 'rate_limited' }
+        );
+      }
+    }
+
+    for (let redirects = 0; ; redirects++) {
+      const upstream = await fetch(target, {
+        headers: {
+          'Authorization': credentials.authorization,
+          'Ocp-Apim-Subscription-Key': credentials.apiKey,
+          [API_CONFIG.CORRELATION_ID_HEADER]: correlationId,
+        },
+        redirect: 'manual',
+        cache: 'no-store',
+      });
+
+      const location = upstream.headers.get('location');
+      if (upstream.status >= 300 && upstream.status < 400 && location) {
+        const next = new URL(location, target);
+        if (next.origin !== target.origin) {
+          return respond(NextResponse.redirect(next, 302), { outcome: 'redirected' });
+        }
+        if (redirects >= MAX_REDIRECTS) {
+          return respond(NextResponse.json({ error: 'Too many redirects.' }, { status: 502 }));
+        }
+        const sameHost = resolveCitationUrl(next.toString(), credentials.baseUrl, allowedPrefixes);
+        if (!sameHost) {
+          return respond(NextResponse.json({ error: 'Invalid citation reference.' }, { status: 502 }), {
+            reason: 'invalid_redirect',
+          });
+        }
+        target = sameHost;
+        continue;
+      }
+
+      if (!upstream.ok) {
+        const status = upstream.status === 403 || upstream.status === 404 ? upstream.status : 502;
+        return respond(
+          NextResponse.json({ error: status === 502 ? 'Could not open the document.' : 'Document not found.' }, { status }),
+          { upstreamStatus: upstream.status }
+        );
+      }
+
+      const headers = new Headers({
+        'Cache-Control': 'private, no-store',
+        'Content-Security-Policy': 'sandbox',
+        'X-Content-Type-Options': 'nosniff',
+        'Referrer-Policy': 'no-referrer',
+      });
+      FORWARDED_HEADERS.forEach((name) => {
+        const value = upstream.headers.get(name);
+        if (value) headers.set(name, value);
+      });
+
+      return respond(new NextResponse(upstream.body, { status: 200, headers }));
+    }
+  } catch (error) {
+    return respond(NextResponse.json({ error: 'Could not open the document.' }, { status: 502 }), { error });
+  }
+}
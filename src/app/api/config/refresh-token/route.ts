@@ -1,69 +1,30 @@
 import { NextResponse } from 'next/server';
-import { UserConfig } from '@/app/context/ConfigContext';
+import { getAccessTokenStatus, refreshAccessToken } from '@/lib/access-token';
+import { isPublicAgentEnabled } from '@/lib/server-credentials';
 
 /**
- * API endpoint to refresh the Ejento access token
- * This endpoint runs on the server and refreshes the token using the author's credentials
- * 
- * NOTE: This is a placeholder for the actual Ejento token refresh API endpoint.
- * The app currently does not use refresh token functionality. It uses the environment variable token.
+ * API endpoint to refresh the author's Ejento access token
+ * This endpoint runs on the server and renews the token with EJENTO_REFRESH_TOKEN
+ * when it is close to expiry.
+ *
+ * SECURITY: The renewed token stays in server memory for the proxy. Responses only
+ * describe the token (expiry, whether it can be refreshed) and never include it.
  */
 export async function POST() {
   try {
-    // Check if PUBLIC_AGENT mode is enabled
-    // Check both NEXT_PUBLIC_AGENT (client-accessible) and PUBLIC_AGENT (server-only)
-    const publicAgent = 
-      process.env.NEXT_PUBLIC_AGENT === 'true' || 
-      process.env.NEXT_PUBLIC_AGENT === '1' ||
-      process.env.PUBLIC_AGENT === 'true' || 
-      process.env.PUBLIC_AGENT === '1';
-    
-    if (!publicAgent) {
-      return NextResponse.json(
-        { success: false, message: 'PUBLIC_AGENT mode is not enabled. Set NEXT_PUBLIC_AGENT=true in .env.local' },
-        { status: 403 }
-      );
+    const notAvailable = checkAvailability();
+    if (notAvailable) {
+      return notAvailable;
     }
 
-    // Get current credentials from environment
-    const baseUrl = process.env.EJENTO_BASE_URL;
-    const apiKey = process.env.EJENTO_API_KEY;
-    const ejentoAccessToken = process.env.EJENTO_ACCESS_TOKEN;
-    const agentId = process.env.EJENTO_AGENT_ID;
+    const refreshed = await refreshAccessToken();
+    const status = getAccessTokenStatus();
 
-    if (!baseUrl || !apiKey || !ejentoAccessToken || !agentId) {
-      return NextResponse.json(
-        { success: false, message: 'Required environment variables are missing' },
-        { status: 500 }
-      );
-    }
-
-    // TODO: Replace this with the refresh token
-    // Example structure:
-    // const response = await fetch(`${baseUrl}/api/v2/auth/refresh-token`, {
-    //   method: 'POST',
-    //   headers: {
-    //     'Authorization': ejentoAccessToken,
-    //     'Ocp-Apim-Subscription-Key': apiKey,
-    //     'Content-Type': 'application/json',
-    //   },
-    //   body: JSON.stringify({ refreshToken: currentRefreshToken }),
-    // });
-    // 
-    // if (!response.ok) {
-    //   throw new Error('Token refresh failed');
-    // }
-    // 
-    // const data = await response.json();
-    // const newAccessToken = data.access_token;
-
-    const newAccessToken = ejentoAccessToken;
-
-    // Return the new token (client will update ConfigContext)
     return NextResponse.json({
       success: true,
-      accessToken: newAccessToken,
-      message: 'Token refreshed successfully',
+      refreshed,
+      ...status,
+      message: refreshed ? 'Token refreshed successfully' : 'Token is still valid',
     });
   } catch (error: any) {
     console.error('Error refreshing token:', error);
@@ -77,3 +38,38 @@ export async function POST() {
   }
 }
 
+/**
+ * Reports when the current access token expires, without refreshing it
+ */
+export async function GET() {
+  const notAvailable = checkAvailability();
+  if (notAvailable) {
+    return notAvailable;
+  }
+
+  return NextResponse.json({
+    success: true,
+    ...getAccessTokenStatus(),
+  });
+}
+
+/**
+ * The author's token is only managed server-side in PUBLIC_AGENT mode with env credentials
+ */
+function checkAvailability(): NextResponse | null {
+  if (!isPublicAgentEnabled()) {
+    return NextResponse.json(
+      { success: false, message: 'PUBLIC_AGENT mode is not enabled. Set NEXT_PUBLIC_AGENT=true in .env.local' },
+      { status: 403 }
+    );
+  }
+
+  if (!process.env.EJENTO_BASE_URL || !process.env.EJENTO_API_KEY || !process.env.EJENTO_ACCESS_TOKEN) {
+    return NextResponse.json(
+      { success: false, message: 'Required environment variables are missing' },
+      { status: 500 }
+    );
+  }
+
+  return null;
+}
@@ -1,5 +1,17 @@
 import { NextResponse } from 'next/server';
 import { UserConfig } from '@/app/context/ConfigContext';
+import { cookies } from 'next/headers';
+import { CREDENTIALS_COOKIE_NAME, openCredentials } from '@/lib/credential-cookie';
+
+/**
+ * Whether the browser holds a credentials cookie the proxy can open
+ * Lets a manually configured client re-validate (and re-seal) its config when the cookie
+ * expired, was sealed with a retired key, or predates cookie encryption
+ */
+async function hasValidCredentialsCookie(): Promise<boolean> {
+  const cookieStore = await cookies();
+  return openCredentials(cookieStore.get(CREDENTIALS_COOKIE_NAME)?.value) !== null;
+}
 
 /**
  * API endpoint to securely provide configuration from server-side environment variables
@@ -15,6 +27,7 @@ export async function GET() {
       config: null,
       source: 'manual' as const,
       envDrivenEnabled: false,
+      hasCredentials: await hasValidCredentialsCookie(),
     });
   }
 
@@ -72,6 +85,7 @@ export async function GET() {
     config: null,
     source: 'manual' as const,
     envDrivenEnabled: false,
+    hasCredentials: await hasValidCredentialsCookie(),
   });
 }
 
@@ -82,11 +96,10 @@ export async function GET() {
  * Environment-based credentials (ENV_DRIVEN=true) cannot be cleared via this endpoint
  */
 export async function DELETE() {
-  const { cookies } = await import('next/headers');
   const cookieStore = await cookies();
   
   // Clear the credentials cookie
-  cookieStore.delete('ejento_api_credentials');
+  cookieStore.delete(CREDENTIALS_COOKIE_NAME);
   
   return NextResponse.json({
     success: true,
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { UserConfig } from '@/app/context/ConfigContext';
+import { CredentialCookieConfigError, sealCredentials } from '@/lib/credential-cookie';
+
+/**
+ * Seals a saved profile's credentials without activating them
+ *
+ * Used once per profile to migrate profiles saved before credentials were sealed: the
+ * browser trades the plaintext API key and token for an opaque value only this server can
+ * open. Nothing is validated or stored here; /api/config/validate checks the credentials
+ * when the profile is next used.
+ */
+export async function POST(request: Request) {
+  const envDriven = process.env.ENV_DRIVEN === 'true' || process.env.ENV_DRIVEN === '1';
+  if (envDriven) {
+    return NextResponse.json(
+      { success: false, message: 'Profiles are not available with environment-driven configuration.' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const config: UserConfig = body.config;
+    const baseUrl = config?.baseUrl?.trim() || '';
+    const apiKey = config?.apiKey?.trim() || '';
+    const ejentoAccessToken = config?.ejentoAccessToken?.trim() || '';
+    const agentId = config?.agentId?.trim() || '';
+
+    if (!baseUrl || !apiKey || !ejentoAccessToken || !agentId) {
+      return NextResponse.json(
+        { success: false, message: 'Missing required configuration values.' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      sealedCredentials: sealCredentials({ baseUrl, apiKey, ejentoAccessToken, agentId }, 'profile'),
+    });
+  } catch (error) {
+    if (error instanceof CredentialCookieConfigError) {
+      console.error('Cannot seal profile credentials:', error.message);
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'The server is not configured to store credentials securely. Please contact the administrator.',
+        },
+        { status: 500 }
+      );
+    }
+    console.error('Profile sealing error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred while saving the profile' },
+      { status: 500 }
+    );
+  }
+}
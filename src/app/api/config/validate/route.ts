@@ -2,6 +2,14 @@ import { NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { UserConfig } from '@/app/context/ConfigContext';
 import axios from 'axios';
+import {
+  CREDENTIALS_COOKIE_NAME,
+  CredentialCookieConfigError,
+  getCredentialsCookieOptions,
+  openCredentials,
+  sealCredentials,
+} from '@/lib/credential-cookie';
+import { getAccessToken } from '@/lib/access-token';
 
 /**
  * Server-side validation endpoint for environment-based configuration
@@ -9,12 +17,19 @@ import axios from 'axios';
  * This ensures env-based config is validated before the app uses it
  * 
  * SECURITY: When ENV_DRIVEN=false, stores validated credentials in secure httpOnly cookies
- * so they are not vulnerable to being exposed in the browser network tab
+ * so they are not vulnerable to being exposed in the browser network tab. The cookie value
+ * is encrypted and authenticated (see sealCredentials), never plain JSON.
+ *
+ * Saved profiles keep sealed credentials instead of the plain ones (see lib/profiles.ts):
+ * every successful validation returns them freshly sealed as `sealedCredentials`, and a
+ * request may send them back in place of the config to activate that profile again.
  */
 export async function POST(request: Request) {
   try {
     const body = await request.json();
     const config: UserConfig = body.config;
+    const sealedCredentials: string | undefined =
+      typeof body.sealedCredentials === 'string' ? body.sealedCredentials : undefined;
 
     // Check if this is environment-driven config (credentials are server-side only)
     const envDriven = process.env.ENV_DRIVEN === 'true' || process.env.ENV_DRIVEN === '1';
@@ -29,8 +44,22 @@ export async function POST(request: Request) {
       // Client config may have empty values (for security), but we use server-side values
       baseUrl = process.env.EJENTO_BASE_URL?.trim() || '';
       apiKey = process.env.EJENTO_API_KEY?.trim() || '';
-      ejentoAccessToken = process.env.EJENTO_ACCESS_TOKEN?.trim() || '';
+      ejentoAccessToken = (await getAccessToken())?.trim() || '';
       agentId = process.env.EJENTO_AGENT_ID?.trim() || '';
+    } else if (sealedCredentials) {
+      // A saved profile: only this server can open its credentials
+      const saved = openCredentials(sealedCredentials, 'profile');
+      if (!saved) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: 'The saved credentials for this profile have expired. Please enter them again.',
+            userData: null,
+          },
+          { status: 401 }
+        );
+      }
+      ({ baseUrl, apiKey, ejentoAccessToken, agentId } = saved);
     } else {
       // For manual config, use values from request body
       baseUrl = config?.baseUrl?.trim() || '';
@@ -180,23 +209,31 @@ export async function POST(request: Request) {
     // Both validations passed
     // If ENV_DRIVEN=false, store credentials securely in httpOnly cookies
     // This prevents credentials from being visible in browser network tab
+    let sealed: string | undefined;
+    let profileCredentials: string | undefined;
     if (!envDriven) {
       const cookieStore = await cookies();
       
-      // Store credentials in secure httpOnly cookies
+      // Store credentials in secure httpOnly cookies, encrypted with the server secret
       // These cookies are only accessible server-side and never exposed to JavaScript
-      cookieStore.set('ejento_api_credentials', JSON.stringify({
-        baseUrl: baseUrl,
-        apiKey: apiKey,
-        ejentoAccessToken: ejentoAccessToken,
-        agentId: agentId,
-      }), {
-        httpOnly: true, // Prevents JavaScript access
-        secure: process.env.NODE_ENV === 'production', // HTTPS only in production
-        sameSite: 'lax',
-        path: '/',
-        maxAge: 60 * 60 * 24 * 7, // 7 days
-      });
+      try {
+        sealed = sealCredentials({ baseUrl, apiKey, ejentoAccessToken, agentId });
+        profileCredentials = sealCredentials({ baseUrl, apiKey, ejentoAccessToken, agentId }, 'profile');
+      } catch (error) {
+        if (error instanceof CredentialCookieConfigError) {
+          console.error('Cannot store credentials:', error.message);
+          return NextResponse.json(
+            {
+              success: false,
+              message: 'The server is not configured to store credentials securely. Please contact the administrator.',
+              userData: null,
+            },
+            { status: 500 }
+          );
+        }
+        throw error;
+      }
+      cookieStore.set(CREDENTIALS_COOKIE_NAME, sealed, getCredentialsCookieOptions());
     }
 
     // Return user data for storage
@@ -206,6 +243,8 @@ export async function POST(request: Request) {
       success: true,
       message: 'Configuration validated successfully',
       userData: userData || null, // Return full userData object from API
+      // Opaque to the browser: kept by saved profiles instead of the credentials
+      sealedCredentials: profileCredentials,
     });
     // console.log('response', response);
 
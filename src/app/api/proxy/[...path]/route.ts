@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
+import { API_CONFIG, createCorrelationId } from '@/lib/api-config';
+import { consumeRateLimit, getBudgetForPath, getBudgetLimit, getClientIp } from '@/lib/rate-limit';
+import { checkProxyRequest } from '@/lib/proxy-policy';
+import { logEvent } from '@/lib/logger';
+import { getServerSideCredentials, isPublicAgentEnabled } from '@/lib/server-credentials';
 
 export async function GET(
   request: NextRequest,
@@ -42,54 +46,51 @@ export async function PATCH(
 }
 
 /**
- * Retrieves API credentials from server-side sources
- * SECURITY: Credentials are never sent from client, only retrieved server-side
- * - ENV_DRIVEN=true: Reads from environment variables
- * - ENV_DRIVEN=false: Reads from secure httpOnly cookies (set after validation)
+ * Applies the PUBLIC_AGENT rate limit to an anonymous request
+ * Returns a 429 response when the client's IP or session budget is exhausted, null otherwise
  */
-async function getServerSideCredentials(): Promise<{
-  baseUrl: string;
-  authorization: string;
-  apiKey: string;
-} | null> {
-  // Check if ENV_DRIVEN mode is enabled
-  const envDriven = process.env.ENV_DRIVEN === 'true' || process.env.ENV_DRIVEN === '1';
-  
-  if (envDriven) {
-    // ENV_DRIVEN=true: Get credentials from environment variables
-    const baseUrl = process.env.EJENTO_BASE_URL;
-    const apiKey = process.env.EJENTO_API_KEY;
-    const ejentoAccessToken = process.env.EJENTO_ACCESS_TOKEN;
-    
-    if (baseUrl && apiKey && ejentoAccessToken) {
-      return {
-        baseUrl: baseUrl.trim(),
-        authorization: ejentoAccessToken.trim(),
-        apiKey: apiKey.trim(),
-      };
-    }
-  } else {
-    // ENV_DRIVEN=false: Get credentials from secure httpOnly cookies
-    const cookieStore = await cookies();
-    const credentialsCookie = cookieStore.get('ejento_api_credentials');
-    
-    if (credentialsCookie?.value) {
-      try {
-        const credentials = JSON.parse(credentialsCookie.value);
-        if (credentials.baseUrl && credentials.apiKey && credentials.ejentoAccessToken) {
-          return {
-            baseUrl: credentials.baseUrl,
-            authorization: credentials.ejentoAccessToken,
-            apiKey: credentials.apiKey,
-          };
-        }
-      } catch (error) {
-        console.error('Failed to parse credentials cookie:', error);
-      }
-    }
+async function enforceRateLimit(request: NextRequest, path: string): Promise<NextResponse | null> {
+  if (!isPublicAgentEnabled()) {
+    return null;
+  }
+
+  const budget = getBudgetForPath(path);
+  const keys = [`ip:${getClientIp(request.headers)}:${budget}`];
+  const sessionId = request.headers.get(API_CONFIG.SESSION_ID_HEADER);
+  if (sessionId) {
+    // Session ids are client-chosen, so they only ever narrow the per-IP budget
+    keys.push(`session:${sessionId.slice(0, 100)}:${budget}`);
+  }
+
+  const result = await consumeRateLimit(keys, getBudgetLimit(budget));
+  if (result.allowed) {
+    return null;
   }
-  
-  return null;
+
+  const retryAfterSeconds = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+  return NextResponse.json(
+    {
+      error: 'Too many requests',
+      message: 'You are sending messages too quickly. Please wait a moment and try again.',
+      retryAfter: retryAfterSeconds,
+    },
+    {
+      status: 429,
+      headers: {
+        'Retry-After': retryAfterSeconds.toString(),
+        'X-RateLimit-Limit': result.limit.toString(),
+        'X-RateLimit-Remaining': result.remaining.toString(),
+      },
+    }
+  );
+}
+
+/**
+ * Uses the client's correlation id when it looks like one we generate, otherwise creates one
+ */
+function getCorrelationId(request: NextRequest): string {
+  const incoming = request.headers.get(API_CONFIG.CORRELATION_ID_HEADER);
+  return incoming && /^[A-Za-z0-9-]{8,64}$/.test(incoming) ? incoming : createCorrelationId();
 }
 
 async function proxyRequest(
@@ -97,23 +98,68 @@ async function proxyRequest(
   pathArray: string[],
   method: string
 ) {
+  const correlationId = getCorrelationId(request);
+  const startedAt = Date.now();
+  // Route template (e.g. api/v2/chat-threads/:threadId) so logs never contain ids or query strings
+  let route = 'unmatched';
+
+  const respond = <T extends Response>(response: T, fields: Record<string, unknown> = {}): T => {
+    response.headers.set(API_CONFIG.CORRELATION_ID_HEADER, correlationId);
+    logEvent(response.status >= 500 ? 'error' : response.status >= 400 ? 'warn' : 'info', 'proxy.request', {
+      correlationId,
+      method,
+      route,
+      status: response.status,
+      latencyMs: Date.now() - startedAt,
+      ...fields,
+    });
+    return response;
+  };
+
   try {
     // SECURITY: Get credentials from server-side sources only
     // Client should NOT send Authorization or Ocp-Apim-Subscription-Key headers
-    const credentials = await getServerSideCredentials();
+    const credentials = await getServerSideCredentials({ dropInvalidCookie: true });
     
     if (!credentials) {
-      return NextResponse.json(
+      return respond(NextResponse.json(
         { error: 'API credentials not configured. Please configure your credentials in settings or environment variables.' },
         { status: 401 }
-      );
+      ));
     }
 
     const { baseUrl, authorization, apiKey } = credentials;
     const contentType = request.headers.get('content-type');
 
+    // SECURITY: Only forward allowlisted endpoints/methods so the injected credentials
+    // cannot be used against arbitrary Ejento APIs
+    const publicAgent = isPublicAgentEnabled();
+    const policy = checkProxyRequest(pathArray, method, {
+      publicAgent,
+      // Anonymous visitors may only talk to the agent this deployment is configured for
+      agentId: publicAgent ? credentials.agentId : undefined,
+    });
+    if (!policy.allowed) {
+      return respond(
+        NextResponse.json(
+          { error: 'Request not allowed', message: policy.reason },
+          {
+            status: policy.status,
+            ...(policy.allow && { headers: { 'Allow': policy.allow.join(', ') } }),
+          }
+        ),
+        { reason: policy.reason }
+      );
+    }
+    route = policy.route.pattern;
+
     // Construct the full path
     const path = pathArray.join('/');
+
+    const rateLimited = await enforceRateLimit(request, path);
+    if (rateLimited) {
+      return respond(rateLimited, { reason: 'rate_limited' });
+    }
     const targetUrl = `${baseUrl}/${path}`;
 
     // Preserve query parameters
@@ -126,6 +172,7 @@ async function proxyRequest(
       'Content-Type': contentType || 'application/json',
       'Authorization': authorization,
       'Ocp-Apim-Subscription-Key': apiKey,
+      [API_CONFIG.CORRELATION_ID_HEADER]: correlationId,
     };
 
     // Prepare the fetch options
@@ -147,7 +194,9 @@ async function proxyRequest(
     }
 
     // Make the proxied request
+    const upstreamStartedAt = Date.now();
     const response = await fetch(fullUrl, fetchOptions);
+    const upstreamLatencyMs = Date.now() - upstreamStartedAt;
 
     // Check if this is a streaming response
     const contentTypeHeader = response.headers.get('content-type');
@@ -156,12 +205,31 @@ async function proxyRequest(
                        response.headers.get('cache-control')?.includes('no-cache');
 
     if (isStreaming) {
+      let bytes = 0;
+      let ended = false;
+      const logStreamEnd = (outcome: 'completed' | 'cancelled' | 'failed', error?: unknown) => {
+        // A cancel also ends the pending read, so only the first outcome is logged
+        if (ended) return;
+        ended = true;
+        logEvent(outcome === 'failed' ? 'error' : 'info', 'proxy.stream', {
+          correlationId,
+          method,
+          route,
+          status: response.status,
+          outcome,
+          bytes,
+          streamDurationMs: Date.now() - upstreamStartedAt - upstreamLatencyMs,
+          ...(error !== undefined && { error }),
+        });
+      };
+
       // Create a readable stream for Server-Sent Events
+      const reader = response.body?.getReader();
       const stream = new ReadableStream({
         start(controller) {
-          const reader = response.body?.getReader();
           if (!reader) {
             controller.close();
+            logStreamEnd('completed');
             return;
           }
 
@@ -169,21 +237,28 @@ async function proxyRequest(
             return reader!.read().then(({ done, value }) => {
               if (done) {
                 controller.close();
+                logStreamEnd('completed');
                 return;
               }
+              bytes += value.byteLength;
               controller.enqueue(value);
               return pump();
             }).catch((error) => {
-              console.error('Stream pump error:', error);
+              logStreamEnd('failed', error);
               controller.error(error);
             });
           }
 
           return pump();
+        },
+        cancel() {
+          // The browser went away (tab closed, stream aborted) before the response finished
+          logStreamEnd('cancelled');
+          return reader?.cancel();
         }
       });
 
-      return new Response(stream, {
+      return respond(new Response(stream, {
         status: response.status,
         headers: {
           'Content-Type': contentTypeHeader || 'text/event-stream',
@@ -193,7 +268,7 @@ async function proxyRequest(
           'Access-Control-Allow-Methods': 'GET,PUT,POST,DELETE,PATCH,OPTIONS',
           'Access-Control-Allow-Headers': 'Content-Type',
         },
-      });
+      }), { upstreamLatencyMs });
     }
 
     // Handle non-streaming responses
@@ -206,18 +281,20 @@ async function proxyRequest(
 
 
     // Return the response with the same status code
-    return NextResponse.json(data, {
+    // Retry-After is forwarded so the client can honor upstream throttling
+    const retryAfter = response.headers.get('retry-after');
+    return respond(NextResponse.json(data, {
       status: response.status,
       headers: {
         'Content-Type': contentTypeHeader || 'application/json',
+        ...(retryAfter && { 'Retry-After': retryAfter }),
       },
-    });
+    }), { upstreamLatencyMs });
   } catch (error) {
-    console.error('Proxy error:', error);
-    return NextResponse.json(
+    return respond(NextResponse.json(
       { error: 'Proxy request failed', details: error instanceof Error ? error.message : 'Unknown error' },
       { status: 500 }
-    );
+    ), { error });
   }
 }
 
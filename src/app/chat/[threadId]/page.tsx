@@ -0,0 +1,27 @@
+import { notFound } from 'next/navigation';
+import Chat from '@/components/chat/chat';
+import { DEFAULT_MODEL_NAME } from '@/lib/ai/models';
+import { ConfigGuard } from '@/components/config-guard';
+import { checkThreadAccess } from '@/lib/thread-access';
+
+export default async function Page({ params }: { params: Promise<{ threadId: string }> }) {
+  const { threadId } = await params;
+  const { access, chatlog } = await checkThreadAccess(threadId);
+  if (access === 'not-found') {
+    notFound();
+  }
+
+  const selectedModelId = DEFAULT_MODEL_NAME;
+
+  return (
+    <ConfigGuard requireConfig={true}>
+      <Chat
+        initialMessages={[]}
+        initialChatlog={chatlog && { threadId, chatlog }}
+        selectedModelId={selectedModelId}
+        selectedVisibilityType="private"
+        isReadonly={false}
+      />
+    </ConfigGuard>
+  );
+}
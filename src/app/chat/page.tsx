@@ -1,8 +1,20 @@
+import { redirect } from 'next/navigation';
 import Chat from '@/components/chat/chat';
 import { DEFAULT_MODEL_NAME } from '@/lib/ai/models';
 import { ConfigGuard } from '@/components/config-guard';
+import { decryptLegacyThreadId } from '@/lib/thread-access';
 
-export default async function Page() {
+export default async function Page({
+  searchParams,
+}: {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}) {
+  // Old links carried the thread encrypted in ?id=&title=
+  const { id: legacyId } = await searchParams;
+  if (typeof legacyId === 'string') {
+    const threadId = decryptLegacyThreadId(legacyId);
+    redirect(threadId ? `/chat/${threadId}` : '/chat');
+  }
 
   const selectedModelId = DEFAULT_MODEL_NAME;
 
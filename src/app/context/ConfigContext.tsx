@@ -3,6 +3,20 @@
 import { useApiService } from '@/hooks/useApiService';
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { setUserToStorage } from '@/cookie';
+import {
+  AgentProfile,
+  captureProfileSessionState,
+  clearProfileStore,
+  createProfileId,
+  loadProfileStore,
+  ProfileChange,
+  publishProfileChange,
+  restoreProfileSessionState,
+  saveProfileStore,
+  sealLegacyProfiles,
+  subscribeToProfileChanges,
+  withoutSecrets,
+} from '@/lib/profiles';
 
 export interface UserConfig {
   
@@ -29,6 +43,60 @@ export interface UserConfig {
 
 type ConfigSource = 'environment' | 'localStorage' | null;
 
+export interface ConfigValidationResult {
+  success: boolean;
+  message?: string;
+  userInfo?: UserConfig['userInfo'];
+  /** The validated credentials sealed for a saved profile (manual configuration only) */
+  sealedCredentials?: string;
+}
+
+/**
+ * Validates a config via /api/config/validate and stores the returned user for the sidebar
+ * In manual mode the endpoint also puts the credentials in the httpOnly cookie the proxy reads,
+ * so a successful validation is what makes a config the active one server-side.
+ * A saved profile passes its sealed credentials, which the server uses instead of the config's.
+ */
+async function validateConfigOnServer(
+  configToValidate: Partial<UserConfig>,
+  sealedCredentials?: string
+): Promise<ConfigValidationResult> {
+  const response = await fetch('/api/config/validate', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ config: configToValidate, sealedCredentials }),
+  });
+
+  const result = await response.json();
+
+  if (!result.success || !result.userData) {
+    return { success: false, message: result.message || 'Configuration validation failed' };
+  }
+
+  const user = result.userData.data ? result.userData.data : result.userData;
+
+  const filteredUser = {
+    first_name: user.first_name || '',
+    last_name: user.last_name || '',
+    name: user.full_name || '' + ' ' + user.last_name || '',
+    email: user.email || '',
+    is_staff: user.is_staff || false,
+    is_superuser: user.is_superuser || false,
+  };
+
+  // The sidebar expects the user data in a specific format with a 'data' property
+  // Always use filteredUser to ensure only required fields are stored
+  setUserToStorage({
+    success: true,
+    message: 'User data loaded',
+    data: filteredUser,
+  });
+
+  return { success: true, userInfo: filteredUser, sealedCredentials: result.sealedCredentials };
+}
+
 interface ConfigContextType {
   config: UserConfig | null;
   configSource: ConfigSource;
@@ -41,6 +109,15 @@ interface ConfigContextType {
   isLoading: boolean;
   isValidating: boolean;
   validationError: string | null;
+
+  // Saved agent profiles (manual configuration only)
+  profiles: AgentProfile[];
+  activeProfileId: string | null;
+  /** Validates a config and saves it as the active profile (or as a new one) */
+  saveProfile: (name: string, config: UserConfig, options?: { asNew?: boolean }) => Promise<ConfigValidationResult>;
+  /** Validates a saved profile and makes it the active config */
+  switchProfile: (profileId: string) => Promise<ConfigValidationResult>;
+  deleteProfile: (profileId: string) => void;
 }
 
 const ConfigContext = createContext<ConfigContextType | undefined>(undefined);
@@ -59,6 +136,8 @@ export function ConfigProvider({ children }: { children: ReactNode }) {
   const [isLoading, setIsLoading] = useState(true);
   const [isValidating, setIsValidating] = useState(false);
   const [validationError, setValidationError] = useState<string | null>(null);
+  const [profiles, setProfiles] = useState<AgentProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
 
   const updateConfig = (newConfig: Partial<UserConfig>) => {
     setConfig(prev => prev ? { ...prev, ...newConfig } : newConfig as UserConfig);
@@ -73,10 +152,13 @@ export function ConfigProvider({ children }: { children: ReactNode }) {
     setConfig(null);
     setConfigSource(null);
     
-    // Clear localStorage config
+    // Clear localStorage config, including saved profiles (they hold credentials too)
     if (typeof window !== 'undefined') {
       localStorage.removeItem('app-config');
+      clearProfileStore();
     }
+    setProfiles([]);
+    setActiveProfileId(null);
     
     // SECURITY: Clear server-side credentials cookie (for ENV_DRIVEN=false scenario)
     // This ensures credentials are removed from secure storage when user logs out
@@ -107,39 +189,9 @@ export function ConfigProvider({ children }: { children: ReactNode }) {
     setValidationError(null);
 
     try {
-      const response = await fetch('/api/config/validate', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ config: configToValidate }),
-      });
+      const result = await validateConfigOnServer(configToValidate);
 
-      const result = await response.json();
-
-      if (result.success && result.userData) {
-
-        const user = result.userData.data ? result.userData.data : result.userData;
-  
-        const filteredUser = {
-          first_name: user.first_name || '',
-          last_name: user.last_name || '',
-          name: user.full_name || '' + ' ' + user.last_name || '',
-          email: user.email || '',
-          is_staff: user.is_staff || false,
-          is_superuser: user.is_superuser || false,
-        };
-
-        // Validation successful - store filtered user info
-        // The sidebar expects the user data in a specific format with a 'data' property
-        // Always use filteredUser to ensure only required fields are stored
-        const userInfoToStore = { 
-          success: true, 
-          message: 'User data loaded', 
-          data: filteredUser
-        };
-        setUserToStorage(userInfoToStore);
-        
+      if (result.success) {
         // Update config with user info
         // Ensure config is updated synchronously so isConfigured calculation works
         setConfig(prev => {
@@ -149,7 +201,7 @@ export function ConfigProvider({ children }: { children: ReactNode }) {
           }
           return {
             ...prev,
-            userInfo: filteredUser
+            userInfo: result.userInfo
           };
         });
         
@@ -173,12 +225,124 @@ export function ConfigProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const persistProfiles = (
+    nextProfiles: AgentProfile[],
+    nextActiveId: string | null,
+    change: ProfileChange = { type: 'profiles-updated' }
+  ) => {
+    setProfiles(nextProfiles);
+    setActiveProfileId(nextActiveId);
+    saveProfileStore({ activeProfileId: nextActiveId, profiles: nextProfiles });
+    publishProfileChange(change);
+  };
+
+  const saveProfile = async (
+    name: string,
+    profileConfig: UserConfig,
+    options: { asNew?: boolean } = {}
+  ): Promise<ConfigValidationResult> => {
+    if (configSource === 'environment') {
+      return { success: false, message: 'Profiles are not available with environment-driven configuration.' };
+    }
+
+    const result = await validateConfigOnServer(profileConfig);
+    if (!result.success) {
+      return result;
+    }
+
+    // The credentials now live in the cookie and, sealed, in the profile: keep no plaintext copy
+    const validatedConfig = withoutSecrets({ ...profileConfig, userInfo: result.userInfo || profileConfig.userInfo });
+    const { sealedCredentials } = result;
+    const now = Date.now();
+    const existing = options.asNew ? undefined : profiles.find((profile) => profile.id === activeProfileId);
+    let nextProfiles: AgentProfile[];
+    let nextActiveId: string;
+
+    if (existing) {
+      nextActiveId = existing.id;
+      nextProfiles = profiles.map((profile) =>
+        profile.id === existing.id
+          ? { ...profile, name: name.trim() || profile.name, config: validatedConfig, sealedCredentials, updatedAt: now }
+          : profile
+      );
+    } else {
+      // Leaving the current profile: keep its thread/corpus selection for when the user comes back
+      const sessionState = captureProfileSessionState();
+      restoreProfileSessionState();
+      const created: AgentProfile = {
+        id: createProfileId(),
+        name: name.trim() || `Agent ${validatedConfig.agentId}`,
+        config: validatedConfig,
+        sealedCredentials,
+        createdAt: now,
+        updatedAt: now,
+      };
+      nextActiveId = created.id;
+      nextProfiles = [
+        ...profiles.map((profile) =>
+          profile.id === activeProfileId ? { ...profile, sessionState } : profile
+        ),
+        created,
+      ];
+    }
+
+    persistProfiles(nextProfiles, nextActiveId, { type: 'profile-activated', profileId: nextActiveId });
+    setConfig(validatedConfig);
+    setConfigSource('localStorage');
+    setValidationError(null);
+    return result;
+  };
+
+  const switchProfile = async (profileId: string): Promise<ConfigValidationResult> => {
+    const target = profiles.find((profile) => profile.id === profileId);
+    if (!target) {
+      return { success: false, message: 'Profile not found' };
+    }
+    if (profileId === activeProfileId) {
+      return { success: true, userInfo: target.config.userInfo };
+    }
+
+    // Re-validating also swaps the server-side credentials cookie to this profile
+    const result = await validateConfigOnServer(target.config, target.sealedCredentials);
+    if (!result.success) {
+      return result;
+    }
+
+    const sessionState = captureProfileSessionState();
+    restoreProfileSessionState(target.sessionState);
+
+    const validatedConfig = withoutSecrets({ ...target.config, userInfo: result.userInfo || target.config.userInfo });
+    const sealedCredentials = result.sealedCredentials || target.sealedCredentials;
+    const nextProfiles = profiles.map((profile) => {
+      if (profile.id === activeProfileId) return { ...profile, sessionState };
+      if (profile.id === profileId) {
+        return { ...profile, config: validatedConfig, sealedCredentials, sessionState: undefined };
+      }
+      return profile;
+    });
+
+    persistProfiles(nextProfiles, profileId, { type: 'profile-activated', profileId });
+    setConfig(validatedConfig);
+    setConfigSource('localStorage');
+    setValidationError(null);
+    return result;
+  };
+
+  const deleteProfile = (profileId: string) => {
+    // The active profile backs the current config; use "Destroy Session" to remove it
+    if (profileId === activeProfileId) return;
+    persistProfiles(profiles.filter((profile) => profile.id !== profileId), activeProfileId);
+  };
+
   const loadConfig = async () => {
     if (typeof window === 'undefined') {
       setIsLoading(false);
       return;
     }
 
+    // Whether the server holds a usable credentials cookie (reported in manual mode only)
+    let hasCredentials: boolean | undefined;
+
     try {
       // Step 1: Check for environment-based configuration first
       // The API endpoint will respect ENV_DRIVEN flag and return appropriate response
@@ -186,6 +350,7 @@ export function ConfigProvider({ children }: { children: ReactNode }) {
         const envConfigResponse = await fetch('/api/config');
         if (envConfigResponse.ok) {
           const envConfigData = await envConfigResponse.json();
+          hasCredentials = envConfigData.hasCredentials;
           
           // If ENV_DRIVEN is explicitly false, API returns envDrivenEnabled: false
           // In this case, skip env config and go straight to localStorage
@@ -233,8 +398,36 @@ export function ConfigProvider({ children }: { children: ReactNode }) {
         const saved = localStorage.getItem('app-config');
         if (saved) {
           const parsedConfig = JSON.parse(saved);
-          setConfig(parsedConfig);
+          const store = await sealLegacyProfiles(loadProfileStore());
+          const activeProfile = store.profiles.find((profile) => profile.id === store.activeProfileId);
+
+          // The active config mirrors its profile: once that is sealed, drop the plaintext copy
+          setConfig(activeProfile?.sealedCredentials ? withoutSecrets(parsedConfig) : parsedConfig);
           setConfigSource('localStorage');
+          setProfiles(store.profiles);
+          setActiveProfileId(store.activeProfileId);
+
+          // The credentials cookie is missing or could not be opened (expired, rotated key,
+          // legacy format): re-validate the saved config so the server issues a fresh one
+          if (hasCredentials === false) {
+            setIsValidating(true);
+            try {
+              const result = await validateConfigOnServer(parsedConfig, activeProfile?.sealedCredentials);
+              if (!result.success) {
+                setValidationError(result.message || 'Configuration validation failed');
+              } else if (activeProfile && result.sealedCredentials) {
+                const nextProfiles = store.profiles.map((profile) =>
+                  profile.id === activeProfile.id
+                    ? { ...profile, sealedCredentials: result.sealedCredentials }
+                    : profile
+                );
+                setProfiles(nextProfiles);
+                saveProfileStore({ activeProfileId: store.activeProfileId, profiles: nextProfiles });
+              }
+            } finally {
+              setIsValidating(false);
+            }
+          }
         }
       } catch (error) {
         console.error('Failed to load config from localStorage:', error);
@@ -250,23 +443,56 @@ export function ConfigProvider({ children }: { children: ReactNode }) {
     loadConfig();
   }, []);
 
+  // Another tab changed the saved profiles, or activated one (which replaced the credentials
+  // cookie this tab uses too): follow it
+  useEffect(() => {
+    return subscribeToProfileChanges((change) => {
+      if (change.type === 'profile-activated') {
+        window.location.assign('/chat');
+        return;
+      }
+      const store = loadProfileStore();
+      setProfiles(store.profiles);
+      setActiveProfileId(store.activeProfileId);
+    });
+  }, []);
+
   // Auto-save when config changes (only for localStorage-based config)
   useEffect(() => {
     if (config && configSource === 'localStorage') {
       saveConfig();
+
+      // Keep the active profile in step with edits made through updateConfig
+      setProfiles(prev => {
+        const active = prev.find(profile => profile.id === activeProfileId);
+        // A sealed profile never takes the plaintext credentials back
+        const profileConfig = active?.sealedCredentials ? withoutSecrets(config) : config;
+        if (!active || JSON.stringify(active.config) === JSON.stringify(profileConfig)) {
+          return prev;
+        }
+        const next = prev.map(profile =>
+          profile.id === activeProfileId ? { ...profile, config: profileConfig, updatedAt: Date.now() } : profile
+        );
+        saveProfileStore({ activeProfileId, profiles: next });
+        return next;
+      });
     }
-  }, [config, configSource]);
+  }, [config, configSource, activeProfileId]);
 
   // Only mark as configured if:
   // 1. Config exists with all required fields
   // 2. If env config, validation must have passed (no validation error)
   // For environment-driven config, sensitive credentials (baseUrl, apiKey, ejentoAccessToken) are server-side only
   // agentId is not sensitive and is required for both modes
+  const activeProfileSealed = Boolean(
+    profiles.find(profile => profile.id === activeProfileId)?.sealedCredentials
+  );
   const isConfigured = Boolean(
     config?.agentId &&
-    // For localStorage config, require baseUrl and credentials (they're stored client-side)
+    // For localStorage config, require baseUrl and credentials (stored client-side, or sealed in the active profile)
     // For environment config, baseUrl and credentials are server-side only (validation confirms they exist)
-    (configSource === 'environment' || (config?.baseUrl && config?.apiKey && config?.ejentoAccessToken)) &&
+    (configSource === 'environment' ||
+      (config?.baseUrl && ((config?.apiKey && config?.ejentoAccessToken) || activeProfileSealed))) &&
     // For env config, ensure validation passed (no error)
     (configSource !== 'environment' || !validationError)
   );
@@ -285,7 +511,12 @@ export function ConfigProvider({ children }: { children: ReactNode }) {
       loadConfig,
       isLoading,
       isValidating,
-      validationError
+      validationError,
+      profiles,
+      activeProfileId,
+      saveProfile,
+      switchProfile,
+      deleteProfile
     }}>
       {children}
     </ConfigContext.Provider>
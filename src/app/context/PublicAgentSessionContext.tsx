@@ -7,7 +7,7 @@
  * Provides session state, thread management, and IndexedDB integration.
  */
 
-import React, { createContext, useContext, useEffect, useState, ReactNode, useCallback } from 'react';
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode, useCallback } from 'react';
 import {
   getSessionMetadata,
   createOrUpdateSessionMetadata,
@@ -20,14 +20,26 @@ import {
   createMessage,
   isPublicAgentMode,
   migrateThread,
+  StorageQuotaExceededError,
+  touchThread,
 } from '@/lib/storage/indexeddb';
+import { applyRetentionPolicy, RetentionResult } from '@/lib/storage/retention';
+import { isEncryptionLocked } from '@/lib/storage/encryption';
+import { resetEncryptedChats, unlockAutomatically, unlockWithPassphrase } from '@/lib/storage/encryption-keys';
+import { toast } from 'sonner';
+import { getActiveThreadId } from '@/lib/utils';
+import { useConfig } from '@/app/context/ConfigContext';
+import {
+  importTranscriptBundle,
+  TranscriptBundle,
+} from '@/lib/storage/transcripts';
+import type { ImportConversationsResult } from '@/lib/storage/indexeddb';
+import { StorageChange, subscribeToStorageChanges } from '@/lib/storage/change-feed';
 import type {
   SessionMetadata,
   StoredThread,
   StoredMessage,
 } from '@/lib/storage/types';
-import { useApiService } from '@/hooks/useApiService';
-import { useConfig } from '@/app/context/ConfigContext';
 
 interface PublicAgentSessionContextType {
   // Session state
@@ -57,11 +69,57 @@ interface PublicAgentSessionContextType {
   
   // Metadata operations
   refreshMetadata: () => Promise<void>;
+
+  // Transcript import (merges by id, then reloads threads)
+  importTranscript: (bundle: TranscriptBundle) => Promise<ImportConversationsResult>;
+
+  // Retention: deletes least recently used threads beyond the configured limits
+  enforceRetention: (keepThreadIds?: string[]) => Promise<RetentionResult>;
+
+  // Local encryption with a passphrase: chats stay locked until it is entered
+  isLocked: boolean;
+  unlock: (passphrase: string) => Promise<boolean>;
+  resetLockedChats: () => Promise<void>;
+
+  // Latest change written by another tab (threads are reloaded automatically;
+  // open chats use this to reload their messages)
+  remoteChange: RemoteStorageChange | null;
   
   // Mode check
   isPublicAgentMode: boolean;
 }
 
+export interface RemoteStorageChange {
+  change: StorageChange;
+  receivedAt: number;
+}
+
+// Another tab often writes several records in a row (message, then thread), so
+// reloads wait for the burst to settle
+const REMOTE_RELOAD_DELAY_MS = 150;
+
+/**
+ * Drops threads beyond the configured retention limits (the thread restored in this tab
+ * is kept), and tells the user what was removed
+ *
+ * @returns Number of threads deleted
+ */
+async function applyRetentionOnLoad(): Promise<number> {
+  const restoredThreadId = getActiveThreadId();
+  try {
+    const result = await applyRetentionPolicy(undefined, { keepThreadIds: restoredThreadId ? [restoredThreadId] : [] });
+    if (result.threadsDeleted > 0) {
+      toast.info(
+        `${result.threadsDeleted} older chat${result.threadsDeleted === 1 ? ' was' : 's were'} removed to stay within this site's storage limits`
+      );
+    }
+    return result.threadsDeleted;
+  } catch (error) {
+    console.error('Error applying retention policy:', error);
+    return 0;
+  }
+}
+
 const PublicAgentSessionContext = createContext<PublicAgentSessionContextType | undefined>(undefined);
 
 export function usePublicAgentSession() {
@@ -78,7 +136,6 @@ interface PublicAgentSessionProviderProps {
 
 export function PublicAgentSessionProvider({ children }: PublicAgentSessionProviderProps) {
   const [isPublicAgent] = useState(() => isPublicAgentMode());
-  const apiService = useApiService();
   const { config } = useConfig();
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [metadata, setMetadata] = useState<SessionMetadata | null>(null);
@@ -86,9 +143,9 @@ export function PublicAgentSessionProvider({ children }: PublicAgentSessionProvi
   const [activeThreadId, setActiveThreadIdState] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isInitialized, setIsInitialized] = useState(false);
-  
-  // Get email from config for API calls
-  const userEmail = config?.userInfo?.email || 'user';
+  const [remoteChange, setRemoteChange] = useState<RemoteStorageChange | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
+  const remoteReloadTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Initialize session on mount
   useEffect(() => {
@@ -116,13 +173,19 @@ export function PublicAgentSessionProvider({ children }: PublicAgentSessionProvi
         setSessionId(sessionMeta.sessionId);
         setMetadata(sessionMeta);
 
+        // Encrypted chats need their key first; with a passphrase, threads load on unlock
+        if (isEncryptionLocked() && !(await unlockAutomatically())) {
+          setIsLocked(true);
+          return;
+        }
+
         // Load all threads
         const allThreads = await getAllThreads();
         setThreads(allThreads);
 
         // Set active thread to most recent if available
-        if (allThreads.length > 0 && !activeThreadId) {
-          setActiveThreadIdState(allThreads[0].threadId);
+        if (allThreads.length > 0) {
+          setActiveThreadIdState((current) => current ?? allThreads[0].threadId);
         }
       } catch (error) {
         console.error('Error initializing public agent session:', error);
@@ -133,7 +196,7 @@ export function PublicAgentSessionProvider({ children }: PublicAgentSessionProvi
     };
 
     initializeSession();
-  }, [isPublicAgent, activeThreadId]);
+  }, [isPublicAgent]);
 
   // Refresh metadata
   const refreshMetadata = useCallback(async () => {
@@ -149,6 +212,99 @@ export function PublicAgentSessionProvider({ children }: PublicAgentSessionProvi
     }
   }, [isPublicAgent]);
 
+  // Retention runs once per page load, as soon as the chats are readable: on mount, or on
+  // unlock when a passphrase protects them
+  const retentionAppliedRef = useRef(false);
+  useEffect(() => {
+    if (!isPublicAgent || !isInitialized || isLocked || retentionAppliedRef.current) return;
+    retentionAppliedRef.current = true;
+
+    applyRetentionOnLoad().then(async (threadsDeleted) => {
+      if (threadsDeleted === 0) return;
+      try {
+        setThreads(await getAllThreads());
+        await refreshMetadata();
+      } catch (error) {
+        console.error('Error reloading threads after applying retention:', error);
+      }
+    });
+  }, [isPublicAgent, isInitialized, isLocked, refreshMetadata]);
+
+  // Keep threads in sync with writes made by other open tabs
+  useEffect(() => {
+    if (!isPublicAgent) return;
+
+    const unsubscribe = subscribeToStorageChanges((change) => {
+      if (change.type === 'setting-updated') return;
+
+      if (remoteReloadTimerRef.current) {
+        clearTimeout(remoteReloadTimerRef.current);
+      }
+      remoteReloadTimerRef.current = setTimeout(async () => {
+        remoteReloadTimerRef.current = null;
+        try {
+          setThreads(await getAllThreads());
+          await refreshMetadata();
+        } catch (error) {
+          console.error('Error reloading threads after a change in another tab:', error);
+        }
+      }, REMOTE_RELOAD_DELAY_MS);
+
+      setRemoteChange({ change, receivedAt: Date.now() });
+    });
+
+    return () => {
+      unsubscribe();
+      if (remoteReloadTimerRef.current) {
+        clearTimeout(remoteReloadTimerRef.current);
+      }
+    };
+  }, [isPublicAgent, refreshMetadata]);
+
+  // Import an exported transcript
+  const importTranscript = useCallback(async (bundle: TranscriptBundle): Promise<ImportConversationsResult> => {
+    if (!isPublicAgent) {
+      throw new Error('Transcripts can only be imported in PUBLIC_AGENT mode');
+    }
+
+    const result = await importTranscriptBundle(bundle);
+    setThreads(await getAllThreads());
+    await refreshMetadata();
+    return result;
+  }, [isPublicAgent, refreshMetadata]);
+
+  // Apply the retention policy and reload what it changed
+  const enforceRetention = useCallback(async (keepThreadIds: string[] = []): Promise<RetentionResult> => {
+    if (!isPublicAgent) {
+      return { threadsDeleted: 0, bytesFreed: 0 };
+    }
+
+    const result = await applyRetentionPolicy(undefined, { keepThreadIds });
+    if (result.threadsDeleted > 0) {
+      setThreads(await getAllThreads());
+      await refreshMetadata();
+    }
+    return result;
+  }, [isPublicAgent, refreshMetadata]);
+
+  // Unlock passphrase-encrypted chats
+  const unlock = useCallback(async (passphrase: string): Promise<boolean> => {
+    if (!(await unlockWithPassphrase(passphrase))) {
+      return false;
+    }
+
+    setIsLocked(false);
+    setThreads(await getAllThreads());
+    return true;
+  }, []);
+
+  // Forgotten passphrase: delete the chats it protects so a new one can be chosen
+  const resetLockedChats = useCallback(async () => {
+    await resetEncryptedChats();
+    setThreads([]);
+    await refreshMetadata();
+  }, [refreshMetadata]);
+
   // Create new thread
   const createNewThread = useCallback(async (title: string = 'New Chat'): Promise<StoredThread> => {
     if (!isPublicAgent) {
@@ -162,6 +318,7 @@ export function PublicAgentSessionProvider({ children }: PublicAgentSessionProvi
     
     // Store thread in IndexedDB with local ID only (server ID will be added when first response arrives)
     const thread = await createThread(threadId, title, {
+      agentId: config?.agentId,
       localThreadId: parseInt(threadId),
       serverThreadId: null, // Will be set when first response returns thread_id
     });
@@ -173,7 +330,7 @@ export function PublicAgentSessionProvider({ children }: PublicAgentSessionProvi
     await refreshMetadata();
     
     return thread;
-  }, [isPublicAgent, refreshMetadata]);
+  }, [isPublicAgent, refreshMetadata, config?.agentId]);
 
   // Update thread title
   // This is called when:
@@ -203,6 +360,7 @@ export function PublicAgentSessionProvider({ children }: PublicAgentSessionProvi
     if (!thread) {
       const numericId = /^-?\d+$/.test(threadId) ? parseInt(threadId) : null;
       thread = await createThread(threadId, title, {
+        agentId: config?.agentId,
         serverThreadId: serverThreadId || (numericId && numericId > 0 ? numericId : null),
         localThreadId: numericId && numericId < 0 ? numericId : null,
       });
@@ -248,22 +406,11 @@ export function PublicAgentSessionProvider({ children }: PublicAgentSessionProvi
       return; // Migration complete
     }
     
-    // Determine the server thread ID to use for API call
+    // Determine the server thread ID to keep in metadata
+    // Renames stay local: the proxy does not let anonymous visitors modify server-side threads
     const apiThreadId = serverThreadId || thread.metadata?.serverThreadId || 
       (parseInt(actualThreadId) > 0 ? parseInt(actualThreadId) : null);
     
-    // PUBLIC_AGENT mode: Call API to update thread title on server (showcases the API)
-    // Note: This is called when user manually edits title. For first response, the thread was already
-    // created by the response API, so this call updates it if the title changed.
-    if (apiService && apiThreadId && apiThreadId > 0) {
-      try {
-        await apiService.updateChatThreadTitle(apiThreadId, title, userEmail);
-      } catch (error) {
-        console.error('Error updating thread title via API:', error);
-        // Continue with local update even if API call fails
-      }
-    }
-    
     // Update thread title and also update metadata if serverThreadId is provided
     const updates: Partial<Pick<StoredThread, 'title' | 'messageIds' | 'metadata'>> = {
       title,
@@ -289,27 +436,14 @@ export function PublicAgentSessionProvider({ children }: PublicAgentSessionProvi
         t.threadId === actualThreadId ? { ...t, title, updatedAt: Date.now(), metadata: updates.metadata || t.metadata } : t
       )
     );
-  }, [isPublicAgent, apiService, userEmail, activeThreadId]);
+  }, [isPublicAgent, activeThreadId, config?.agentId]);
 
   // Delete thread
   const deleteThreadById = useCallback(async (threadId: string) => {
     if (!isPublicAgent) return;
 
-    // Get thread to find server thread ID before deleting
-    const thread = await getThread(threadId);
-    const serverThreadId = thread?.metadata?.serverThreadId || 
-      (parseInt(threadId) > 0 ? parseInt(threadId) : null);
-    
-    // PUBLIC_AGENT mode: Call API to delete thread on server (showcases the API)
-    if (apiService && serverThreadId && serverThreadId > 0) {
-      try {
-        await apiService.deleteChatThread(serverThreadId);
-      } catch (error) {
-        console.error('Error deleting thread via API:', error);
-        // Continue with local delete even if API call fails
-      }
-    }
-
+    // Only the local copy is deleted: the proxy does not let anonymous visitors
+    // delete server-side threads (they all share the agent author's credentials)
     await deleteThread(threadId);
     
     setThreads((prev) => prev.filter((thread) => thread.threadId !== threadId));
@@ -322,7 +456,7 @@ export function PublicAgentSessionProvider({ children }: PublicAgentSessionProvi
     
     // Refresh metadata
     await refreshMetadata();
-  }, [isPublicAgent, activeThreadId, threads, refreshMetadata, apiService]);
+  }, [isPublicAgent, activeThreadId, threads, refreshMetadata]);
 
   // Set active thread
   const setActiveThread = useCallback((threadId: string | null) => {
@@ -355,6 +489,11 @@ export function PublicAgentSessionProvider({ children }: PublicAgentSessionProvi
           messages = await getMessagesByThreadId(matchingThread.threadId);
         }
       }
+
+      // Opening a thread counts as using it for retention
+      if (messages.length > 0) {
+        touchThread(messages[0].threadId);
+      }
       
       return messages;
     } catch (error) {
@@ -401,6 +540,7 @@ export function PublicAgentSessionProvider({ children }: PublicAgentSessionProvi
       // Store numeric ID in metadata for reference
       const numericId = /^-?\d+$/.test(threadId) ? parseInt(threadId) : null;
       thread = await createThread(threadId, title, {
+        agentId: config?.agentId,
         serverThreadId: numericId && numericId > 0 ? numericId : null,
         localThreadId: numericId && numericId < 0 ? numericId : null,
       });
@@ -412,13 +552,33 @@ export function PublicAgentSessionProvider({ children }: PublicAgentSessionProvi
     const actualThreadId = thread.threadId;
     
     const messageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const message = await createMessage(messageId, actualThreadId, role, content, metadata);
+    let message: StoredMessage;
+    try {
+      message = await createMessage(messageId, actualThreadId, role, content, metadata);
+    } catch (error) {
+      if (!(error instanceof StorageQuotaExceededError)) throw error;
+
+      // Browser storage is full: free a quarter of it, oldest chats first, and retry once
+      const freed = await applyRetentionPolicy(undefined, { keepThreadIds: [actualThreadId], freeRatio: 0.25 });
+      if (freed.threadsDeleted > 0) {
+        setThreads(await getAllThreads());
+        toast.info(`Storage was full, so ${freed.threadsDeleted} older chat${freed.threadsDeleted === 1 ? ' was' : 's were'} removed`);
+      }
+      try {
+        message = await createMessage(messageId, actualThreadId, role, content, metadata);
+      } catch (retryError) {
+        if (retryError instanceof StorageQuotaExceededError) {
+          toast.error('Browser storage is full. This message could not be saved.');
+        }
+        throw retryError;
+      }
+    }
     
     // Update thread's updatedAt timestamp
     await updateThread(actualThreadId, {});
     
     return message;
-  }, [isPublicAgent]);
+  }, [isPublicAgent, config?.agentId]);
 
   const value: PublicAgentSessionContextType = {
     sessionId,
@@ -434,6 +594,12 @@ export function PublicAgentSessionProvider({ children }: PublicAgentSessionProvi
     getThreadMessages,
     saveMessage,
     refreshMetadata,
+    importTranscript,
+    enforceRetention,
+    isLocked,
+    unlock,
+    resetLockedChats,
+    remoteChange,
     isPublicAgentMode: isPublicAgent,
   };
 
@@ -1,11 +1,13 @@
 import type { Metadata } from "next";
 import localFont from "next/font/local";
+import "katex/dist/katex.min.css";
 import "./globals.css";
 import { ThemeProvider } from "@/components/theme-provider";
 import { ConfigProvider } from "./context/ConfigContext";
 import { PublicAgentSessionProvider } from "./context/PublicAgentSessionContext";
 import { Toaster } from "sonner";
-import { TokenRefreshProvider } from "@/components/token-refresh-provider";
+import { TokenExpiryNotice, TokenRefreshProvider } from "@/components/token-refresh-provider";
+import { LocalChatsUnlock } from "@/components/local-chats-unlock";
 
 const geistSans = localFont({
   src: "./fonts/GeistVF.woff",
@@ -46,6 +48,8 @@ export default function RootLayout({
                 forcedTheme="light"
               >
                 <Toaster position="top-center" />
+                <TokenExpiryNotice />
+                <LocalChatsUnlock />
                 <div style={{overflowY:'hidden',maxWidth:'100%'}}>{children}</div>
 
               </ThemeProvider>
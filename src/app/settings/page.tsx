@@ -10,21 +10,34 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { toast } from 'sonner';
 import { Eye, EyeOff, Save, CheckCircle2, XCircle, Loader2 } from 'lucide-react';
-import { setUserToStorage } from '@/cookie';
 import Link from 'next/link';
+import { StorageUsageCard } from '@/components/storage-usage-card';
 
 export default function SettingsPage() {
-  const { config, updateConfig, isEnvConfigured, configSource, isLoading, isValidating, validationError, isConfigured } = useConfig();
+  const { config, isEnvConfigured, configSource, isLoading, isValidating, validationError, isConfigured, profiles, activeProfileId, saveProfile } = useConfig();
   const router = useRouter();
   const isPublicAgent = isPublicAgentMode();
   
   const [formData, setFormData] = useState({
+    profileName: '',
     baseUrl: '',
     apiKey: '',
     ejentoAccessToken: '',
     agentId: '',
   });
 
+  // /settings?profile=new adds another profile instead of editing the active one
+  const [isNewProfile, setIsNewProfile] = useState(false);
+
+  // /settings?section=storage shows local storage usage (PUBLIC_AGENT mode)
+  const [showStorage, setShowStorage] = useState(false);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    setIsNewProfile(params.get('profile') === 'new');
+    setShowStorage(isPublicAgent && params.get('section') === 'storage');
+  }, [isPublicAgent]);
+
   const [showTokens, setShowTokens] = useState({
     apiKey: false,
     ejentoAccessToken: false,
@@ -33,15 +46,16 @@ export default function SettingsPage() {
   const [isSavingConfig, setIsSavingConfig] = useState(false);
 
   useEffect(() => {
-    if (config) {
+    if (config && !isNewProfile) {
       setFormData({
+        profileName: profiles.find((profile) => profile.id === activeProfileId)?.name || '',
         baseUrl: config.baseUrl || '',
         apiKey: config.apiKey || '',
         ejentoAccessToken: config.ejentoAccessToken || '',
         agentId: config.agentId || '',
       });
     }
-  }, [config]);
+  }, [config, isNewProfile, profiles, activeProfileId]);
 
   const handleInputChange = (field: string, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
@@ -68,62 +82,29 @@ export default function SettingsPage() {
         agentId: formData.agentId.trim(),
       };
 
-      // SECURITY FIX: Use the validation endpoint which validates AND stores credentials in secure cookie
-      // This ensures credentials are available for proxy requests
-      const validationResponse = await fetch('/api/config/validate', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ config: newConfig }),
-      });
-
-      const validationResult = await validationResponse.json();
+      // SECURITY FIX: saveProfile uses the validation endpoint which validates AND stores credentials
+      // in a secure cookie. This ensures credentials are available for proxy requests
+      const result = await saveProfile(
+        formData.profileName,
+        { ...newConfig, userInfo: isNewProfile ? undefined : config?.userInfo },
+        { asNew: isNewProfile }
+      );
 
-      if (!validationResult.success) {
-        toast.error(validationResult.message || 'Configuration validation failed. Please check your credentials.');
+      if (!result.success) {
+        toast.error(result.message || 'Configuration validation failed. Please check your credentials.');
         setIsSavingConfig(false);
         return;
       }
 
-      // Validation passed - credentials are now stored in secure cookie
-      // Update config with user info from validation
-      const user = validationResult.userData?.data ? validationResult.userData.data : validationResult.userData;
-      
-      // Filter user data to only include required fields
-      const filteredUser = user ? {
-        first_name: user.first_name || '',
-        last_name: user.last_name || '',
-        name: user.name || '',
-        email: user.email || '',
-        is_staff: user.is_staff || false,
-        is_superuser: user.is_superuser || false,
-      } : undefined;
-      
-      const updatedConfig = {
-        ...newConfig,
-        userInfo: filteredUser || config?.userInfo,
-      };
-
-      // Store filtered user data in localStorage for UI purposes
-      // The sidebar expects the user data in a specific format with a 'data' property
-      if (filteredUser) {
-        // Wrap filtered user in the expected format
-        const userInfoToStore = { 
-          success: true, 
-          message: 'User data loaded', 
-          data: filteredUser 
-        };
-        setUserToStorage(userInfoToStore);
-      }
-
-      // Save configuration to localStorage (for UI state, credentials are in cookie)
-      updateConfig(updatedConfig);
-      
       toast.success('Configuration validated and saved successfully!');
       
       // Redirect to chat page
-      router.push('/chat');
+      // A new profile starts from a full load so no thread state from the previous agent survives
+      if (isNewProfile) {
+        window.location.assign('/chat');
+      } else {
+        router.push('/chat');
+      }
     } catch (error) {
       console.error('Error saving configuration:', error);
       toast.error('Failed to save configuration. Please verify your credentials and try again.');
@@ -139,10 +120,10 @@ export default function SettingsPage() {
   useEffect(() => {
     // If env config is validated and configured, redirect to chat
     // In PUBLIC_AGENT mode, still redirect if config is valid
-    if (!isLoading && !isValidating && configSource === 'environment' && isConfigured && !validationError) {
+    if (!isLoading && !isValidating && configSource === 'environment' && isConfigured && !validationError && !showStorage) {
       router.replace('/chat');
     }
-  }, [router, isLoading, isValidating, configSource, isConfigured, validationError]);
+  }, [router, isLoading, isValidating, configSource, isConfigured, validationError, showStorage]);
 
   // Show loading state while checking config
   if (isLoading || isValidating) {
@@ -158,6 +139,21 @@ export default function SettingsPage() {
     );
   }
 
+  if (showStorage) {
+    return (
+      <div className="container mx-auto p-6 max-w-2xl">
+        <div className="mb-8 text-center">
+          <h1 className="text-3xl font-bold">Storage</h1>
+          <p className="text-gray-600 mt-2">Chats saved in this browser</p>
+        </div>
+        <StorageUsageCard />
+        <Button variant="outline" className="w-full mt-6" onClick={() => router.push('/chat')}>
+          Back to Chat
+        </Button>
+      </div>
+    );
+  }
+
   // If env config is active and valid, show loading while redirecting (shouldn't usually see this)
   if ((isEnvConfigured || configSource === 'environment') && isConfigured && !validationError) {
     return (
@@ -329,8 +325,10 @@ export default function SettingsPage() {
   return (
     <div className="container mx-auto p-6 max-w-2xl">
       <div className="mb-8 text-center">
-        <h1 className="text-3xl font-bold">Configuration</h1>
-        <p className="text-gray-600 mt-2">Enter your API credentials to get started</p>
+        <h1 className="text-3xl font-bold">{isNewProfile ? 'New Agent Profile' : 'Configuration'}</h1>
+        <p className="text-gray-600 mt-2">
+          {isNewProfile ? 'Save another agent to switch to it from the sidebar' : 'Enter your API credentials to get started'}
+        </p>
       </div>
 
       <Card>
@@ -339,6 +337,17 @@ export default function SettingsPage() {
           <CardDescription>Please provide the following information to access the chat application</CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
+          <div>
+            <Label htmlFor="profileName">Profile Name</Label>
+            <Input
+              id="profileName"
+              value={formData.profileName}
+              onChange={(e) => handleInputChange('profileName', e.target.value)}
+              placeholder="e.g. HR bot – prod"
+              className="mt-1"
+            />
+          </div>
+
           <div>
             <Label htmlFor="baseUrl">Base URL *</Label>
             <Input
@@ -0,0 +1,210 @@
+'use client';
+
+import {
+  Children,
+  cloneElement,
+  isValidElement,
+  memo,
+  useMemo,
+  useState,
+  type ComponentProps,
+  type ReactElement,
+  type ReactNode,
+} from 'react';
+import type { Element } from 'hast';
+import { ArrowDown, ArrowUp, ArrowUpDown, ClipboardCopy, Download } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { getTableData, getVisibleRows, toDelimitedText, toXlsxBlob, type TableSort } from '@/lib/answer-tables';
+import { cn, downloadFile } from '@/lib/utils';
+
+type ElementWithChildren = ReactElement<{ children?: ReactNode; className?: string }>;
+
+interface AnswerTableProps extends ComponentProps<'table'> {
+  /** hast node of the table, for reading the cell text */
+  node?: Element;
+}
+
+function elementChildren(element: ElementWithChildren): ElementWithChildren[] {
+  return Children.toArray(element.props.children).filter(isValidElement) as ElementWithChildren[];
+}
+
+function PlainTable({ children, ...props }: ComponentProps<'table'>) {
+  return (
+    <div className="overflow-x-auto min-w-[600px] max-w-[730px]">
+      <table className="w-full table-auto styled-table" {...props}>
+        {children}
+      </table>
+    </div>
+  );
+}
+
+/**
+ * Table of an assistant answer with column sorting, a quick filter, and copy/download of
+ * the visible rows as CSV, TSV or XLSX
+ *
+ * The rendered rows are reordered and filtered as they are, so cells keep their
+ * citations and links. Tables that cannot be read row by row render as before.
+ */
+function PureAnswerTable({ node, children, ...props }: AnswerTableProps) {
+  const data = useMemo(() => getTableData(node), [node]);
+  const [filter, setFilter] = useState('');
+  const [sort, setSort] = useState<TableSort | null>(null);
+
+  const visibleRows = useMemo(() => (data ? getVisibleRows(data, filter, sort) : []), [data, filter, sort]);
+
+  const sections = Children.toArray(children).filter(isValidElement) as ElementWithChildren[];
+  const body = sections.find((section) => section.type === 'tbody');
+  const bodyRows = body ? elementChildren(body) : [];
+  const headerRowInBody = data?.headerInBody ? bodyRows[0] : undefined;
+  const dataRows = data?.headerInBody ? bodyRows.slice(1) : bodyRows;
+
+  // The rendered rows must line up with the rows that were read
+  if (!data || !body || dataRows.length !== data.rows.length) {
+    return <PlainTable {...props}>{children}</PlainTable>;
+  }
+
+  const toggleSort = (column: number) => {
+    setSort((current) =>
+      current?.column !== column
+        ? { column, direction: 'asc' }
+        : current.direction === 'asc'
+          ? { column, direction: 'desc' }
+          : null
+    );
+  };
+
+  const withSortControls = (row: ElementWithChildren) =>
+    cloneElement(
+      row,
+      {},
+      elementChildren(row).map((cell, column) => {
+        const direction = sort?.column === column ? sort.direction : null;
+        const SortIcon = direction === 'asc' ? ArrowUp : direction === 'desc' ? ArrowDown : ArrowUpDown;
+        return cloneElement(
+          cell as ReactElement<Record<string, unknown>>,
+          {
+            className: cn(cell.props.className, 'cursor-pointer select-none'),
+            'aria-sort': direction === 'asc' ? 'ascending' : direction === 'desc' ? 'descending' : 'none',
+            title: 'Sort by this column',
+            onClick: () => toggleSort(column),
+          },
+          cell.props.children,
+          <SortIcon key="sort" className={cn('inline h-3 w-3 ml-1', !direction && 'opacity-40')} />
+        );
+      })
+    );
+
+  const renderedSections = sections.map((section) => {
+    if (section === body) {
+      return cloneElement(
+        body,
+        {},
+        headerRowInBody && withSortControls(headerRowInBody),
+        visibleRows.map((index) => dataRows[index])
+      );
+    }
+    if (section.type === 'thead') {
+      const headRows = elementChildren(section);
+      return cloneElement(
+        section,
+        {},
+        headRows.map((row, index) => (index === headRows.length - 1 ? withSortControls(row) : row))
+      );
+    }
+    return section;
+  });
+
+  const exportRows = () => visibleRows.map((index) => data.rows[index]);
+
+  const copyRows = async (delimiter: ',' | '\t') => {
+    try {
+      await navigator.clipboard.writeText(toDelimitedText(data.headers, exportRows(), delimiter));
+      toast.success(`Copied ${visibleRows.length} row${visibleRows.length === 1 ? '' : 's'} as ${delimiter === ',' ? 'CSV' : 'TSV'}`);
+    } catch (error) {
+      console.error('Error copying table:', error);
+      toast.error('Failed to copy the table');
+    }
+  };
+
+  const downloadRows = async (format: 'csv' | 'xlsx') => {
+    try {
+      if (format === 'csv') {
+        // BOM so Excel reads the file as UTF-8
+        downloadFile('table.csv', `\uFEFF${toDelimitedText(data.headers, exportRows(), ',')}`, 'text/csv');
+      } else {
+        const workbook = await toXlsxBlob(data.headers, exportRows());
+        downloadFile('table.xlsx', workbook, workbook.type);
+      }
+    } catch (error) {
+      console.error('Error downloading table:', error);
+      toast.error('Failed to download the table');
+    }
+  };
+
+  return (
+    <div className="my-2 min-w-[600px] max-w-[730px]">
+      <div className="flex items-center gap-2 mb-1">
+        <Input
+          value={filter}
+          onChange={(event) => setFilter(event.target.value)}
+          placeholder="Filter rows..."
+          aria-label="Filter rows"
+          className="h-8 max-w-[220px] text-sm"
+        />
+        {filter.trim() && (
+          <span className="text-xs text-muted-foreground">
+            {visibleRows.length} of {data.rows.length} rows
+          </span>
+        )}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button
+              type="button"
+              className="ml-auto inline-flex items-center gap-1 rounded-md border px-2 py-1 text-xs text-muted-foreground hover:text-foreground"
+            >
+              <Download className="h-3.5 w-3.5" />
+              Export
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem className="cursor-pointer" onSelect={() => copyRows(',')}>
+              <ClipboardCopy className="h-4 w-4" />
+              Copy as CSV
+            </DropdownMenuItem>
+            <DropdownMenuItem className="cursor-pointer" onSelect={() => copyRows('\t')}>
+              <ClipboardCopy className="h-4 w-4" />
+              Copy as TSV (spreadsheets)
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem className="cursor-pointer" onSelect={() => downloadRows('csv')}>
+              <Download className="h-4 w-4" />
+              Download CSV
+            </DropdownMenuItem>
+            <DropdownMenuItem className="cursor-pointer" onSelect={() => downloadRows('xlsx')}>
+              <Download className="h-4 w-4" />
+              Download XLSX
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full table-auto styled-table" {...props}>
+          {renderedSections}
+        </table>
+      </div>
+      {visibleRows.length === 0 && (
+        <p className="px-2 py-1 text-sm text-muted-foreground">No rows match the filter.</p>
+      )}
+    </div>
+  );
+}
+
+export const AnswerTable = memo(PureAnswerTable);
@@ -25,6 +25,10 @@ import { isToday, isYesterday, subMonths, subWeeks } from 'date-fns';
 import { PlusIcon } from '@/components/icons';
 import { SidebarHistory } from '@/components/sidebar-history';
 import { SidebarUserNav } from '@/components/sidebar-user-nav';
+import { ProfileSwitcher } from '@/components/profile-switcher';
+import { TranscriptMenu } from '@/components/transcript-menu';
+import { LocalChatsImport } from '@/components/local-chats-import';
+import { SidebarSearch } from '@/components/sidebar-search';
 import Image from 'next/image';
 import ejentoLogo from '../../public/ejentologo.png'
 import { Button } from '@/components/ui/button';
@@ -44,10 +48,12 @@ import { ChatThreadResponse } from '@/model';
 import { toast } from 'sonner';
 import { isPublicAgentMode } from '@/lib/storage/indexeddb';
 import { usePublicAgentSession } from '@/hooks/usePublicAgentSession';
-import { handleSetQueryParams } from '@/lib/utils';
-import { useSearchParams } from 'next/navigation';
+import { setActiveThreadId, showChatThread } from '@/lib/utils';
+import { useChatThreadId } from '@/hooks/useChatThreadId';
 import { useWindowSize } from 'usehooks-ts';
 import { useConfig } from '@/app/context/ConfigContext';
+import { useSidebarOrganization } from '@/hooks/useSidebarOrganization';
+import { EjentoAuthError, EjentoRateLimitError, isEjentoApiError } from '@/lib/api-errors';
 
 /**
  * Interface for grouping chat threads by date ranges
@@ -106,8 +112,11 @@ export function AppSidebar() {
   const { setOpenMobile } = useSidebar();
   const [threads, setThreads] = useState<ChatThreadResponse[]>([]); // All chat threads
   const [isLoading, setIsLoading] = useState(true); // Loading state for initial fetch
-  const searchParams = useSearchParams();
-  const id = searchParams.get('id'); // Current chat ID from URL
+  // Server thread pagination (configured mode; PUBLIC_AGENT threads are all local)
+  const [nextPage, setNextPage] = useState<number | null>(null); // Next page to load, null when all loaded
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [loadMoreFailed, setLoadMoreFailed] = useState(false); // Stops infinite scroll until retried
+  const id = useChatThreadId(); // Current chat ID from the route
   const { width: windowWidth, height: windowHeight } = useWindowSize();
   const isMobile = windowWidth ? windowWidth < 768 : false;
   
@@ -120,6 +129,9 @@ export function AppSidebar() {
     older: [],
   });
 
+  // Pinned threads and folders (kept in the browser, per agent)
+  const sidebarOrganization = useSidebarOrganization(isPublicAgent, config?.agentId);
+
   const user_info = getUserFromStorage(); // Current user information
   // Get email from config first (set in ENV_DRIVEN mode), then fall back to user storage
   // Always provide a fallback to ensure created_by is never undefined
@@ -145,6 +157,7 @@ export function AppSidebar() {
       }
     } catch (error) {
       console.error('Error updating chat title:', error);
+      toast.error(isEjentoApiError(error) ? error.message : 'Failed to update chat title');
     }
   };
 
@@ -157,6 +170,7 @@ export function AppSidebar() {
    * @param serverTitle - The thread title from server
    */
   const updateLocalThreadWithServerId = (localThreadId: number, serverThreadId: number, serverTitle: string) => {
+    sidebarOrganization.replaceThreadId(localThreadId.toString(), serverThreadId.toString());
     setThreads(prevThreads => {
       const updatedThreads = prevThreads.map(thread => {
         if (thread.id === localThreadId) {
@@ -271,8 +285,8 @@ export function AppSidebar() {
           
           if (isThreadEmpty(latestThread)) {
             // Route to existing empty thread instead of creating new one
-            handleSetQueryParams(latestThread.id.toString(), latestThread.title);
-            localStorage.setItem('active_thread_id', latestThread.id.toString());
+            showChatThread(latestThread.id.toString());
+            setActiveThreadId(latestThread.id.toString());
             toast.success('Switched to existing new chat');
             return;
           }
@@ -297,8 +311,8 @@ export function AppSidebar() {
         groupChatsByDate([transformedThread, ...threads]);
         
         // Navigate to new thread
-        handleSetQueryParams(transformedThread.id.toString(), transformedThread.title);
-        localStorage.setItem('active_thread_id', transformedThread.id.toString());
+        showChatThread(transformedThread.id.toString());
+        setActiveThreadId(transformedThread.id.toString());
         return;
       } catch (error) {
         console.error('Error creating thread in IndexedDB:', error);
@@ -315,8 +329,8 @@ export function AppSidebar() {
         
         if (isThreadEmpty(latestThread)) {
           // Route to existing empty thread instead of creating new one
-          handleSetQueryParams(latestThread.id.toString(), latestThread.title);
-          localStorage.setItem('active_thread_id', latestThread.id.toString());
+          showChatThread(latestThread.id.toString());
+          setActiveThreadId(latestThread.id.toString());
           toast.success('Switched to existing new chat');
           return;
         }
@@ -345,8 +359,8 @@ export function AppSidebar() {
       groupChatsByDate(updatedThreads);
       
       // Navigate to the new chat thread
-      handleSetQueryParams(tempThreadId.toString(), 'New Chat');
-      localStorage.setItem('active_thread_id', tempThreadId.toString());
+      showChatThread(tempThreadId.toString());
+      setActiveThreadId(tempThreadId.toString());
       
       toast.success('New chat created');
     } catch (e) {
@@ -391,11 +405,12 @@ export function AppSidebar() {
           setThreads(transformedThreads);
           groupChatsByDate(transformedThreads);
           
-          // Navigate to most recent thread if no specific ID in URL
-          if (!id) {
+          // Navigate to most recent thread if no specific ID in URL, or the thread in the
+          // URL is not stored in this browser (the server cannot check local threads)
+          if (!id || !transformedThreads.some((thread) => thread.id.toString() === id)) {
             const mostRecentThread = transformedThreads[0];
-            handleSetQueryParams(mostRecentThread?.id.toString(), mostRecentThread?.title);
-            localStorage.setItem('active_thread_id', mostRecentThread?.id.toString());
+            showChatThread(mostRecentThread?.id.toString());
+            setActiveThreadId(mostRecentThread?.id.toString());
           }
         } else {
           // Create first local thread if none exist
@@ -415,8 +430,10 @@ export function AppSidebar() {
     if (!apiService) return;
     
     try {
-      const response = await apiService.getChatThreads();
-      const threads = response?.data?.chat_threads || [];
+      // Only the first page is loaded up front; the rest loads as the list is scrolled
+      const firstPage = await apiService.getChatThreadsPage(1);
+      const threads = firstPage.threads;
+      setNextPage(firstPage.hasMore ? 2 : null);
       
       if (threads?.length > 0) {
         setThreads(threads);
@@ -425,8 +442,8 @@ export function AppSidebar() {
         // Navigate to most recent thread if no specific ID in URL
         if (!id) {
           const mostRecentThread = threads[0];
-          handleSetQueryParams(mostRecentThread?.id.toString(), mostRecentThread?.title);
-          localStorage.setItem('active_thread_id', mostRecentThread?.id.toString());
+          showChatThread(mostRecentThread?.id.toString());
+          setActiveThreadId(mostRecentThread?.id.toString());
         }
       } else {
         // Create first local thread if none exist
@@ -434,6 +451,11 @@ export function AppSidebar() {
       }
     } catch (error) {
       console.error('Error fetching threads:', error);
+      if (error instanceof EjentoAuthError) {
+        toast.error('Your credentials were rejected. Please update your configuration.');
+      } else if (error instanceof EjentoRateLimitError) {
+        toast.error('Too many requests. Your chat history will be available shortly.');
+      }
       // If API fails, still create a local thread for user to start chatting
       addNewThread();
     } finally {
@@ -441,6 +463,51 @@ export function AppSidebar() {
     }
   };
 
+  /**
+   * Loads the next page of server threads and appends them to the list
+   * Called by the sidebar history when the list is scrolled near its end.
+   */
+  const loadMoreThreads = async () => {
+    if (isPublicAgent || !apiService || nextPage === null || isLoadingMore) return;
+
+    setIsLoadingMore(true);
+    setLoadMoreFailed(false);
+    try {
+      const page = await apiService.getChatThreadsPage(nextPage);
+      // A page of threads already listed means the server ignored the page number: asking
+      // for the next one would return the same threads again, forever
+      const knownIds = new Set(threads.map((thread) => thread.id));
+      const addsThreads = page.threads.some((thread) => !knownIds.has(thread.id));
+      setNextPage(page.hasMore && addsThreads ? nextPage + 1 : null);
+      setThreads((prevThreads) => {
+        // Threads created since the first page shift later pages, so skip ones already listed
+        const knownIds = new Set(prevThreads.map((thread) => thread.id));
+        const updatedThreads = [...prevThreads, ...page.threads.filter((thread) => !knownIds.has(thread.id))];
+        groupChatsByDate(updatedThreads);
+        return updatedThreads;
+      });
+    } catch (error) {
+      console.error('Error loading more threads:', error);
+      setLoadMoreFailed(true);
+      toast.error(isEjentoApiError(error) ? error.message : 'Failed to load more chats');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  // Pinned and foldered threads can be on any page, so keep loading pages until every one
+  // of them is listed (ids of deleted threads simply page through to the end of the list)
+  const loadedThreadIds = new Set(threads.map((thread) => thread.id.toString()));
+  const { organization } = sidebarOrganization;
+  const hasUnloadedOrganizedThreads = [...organization.pinned, ...organization.folders.flatMap((folder) => folder.threadIds)]
+    .some((threadId) => Number(threadId) > 0 && !loadedThreadIds.has(threadId));
+
+  useEffect(() => {
+    if (isLoading || !hasUnloadedOrganizedThreads || nextPage === null || isLoadingMore || loadMoreFailed) return;
+    loadMoreThreads();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isLoading, hasUnloadedOrganizedThreads, nextPage, isLoadingMore, loadMoreFailed]);
+
   /**
    * Groups chat threads by date ranges for better organization
    * 
@@ -547,14 +614,20 @@ export function AppSidebar() {
                 </Tooltip>
             }
           </div>
+          {!isPublicAgent && <ProfileSwitcher />}
         </SidebarMenu>
       </SidebarHeader>
       <SidebarContent>
-        <SidebarHistory isLoading={isLoading} threads={threads} groupedChats={groupedChats} fetchThreads={fetchThreads} setThreads={setThreads} groupChatsByDate={groupChatsByDate} updateChatTitle={updateChatTitle} />
+        <SidebarSearch threads={threads} hasMoreThreads={nextPage !== null} isLoadingMore={isLoadingMore} loadMoreFailed={loadMoreFailed} loadMoreThreads={loadMoreThreads}>
+          <SidebarHistory isLoading={isLoading} threads={threads} groupedChats={groupedChats} fetchThreads={fetchThreads} setThreads={setThreads} groupChatsByDate={groupChatsByDate} updateChatTitle={updateChatTitle} sidebarOrganization={sidebarOrganization} hasMoreThreads={nextPage !== null} isLoadingMore={isLoadingMore} loadMoreFailed={loadMoreFailed} loadMoreThreads={loadMoreThreads} />
+        </SidebarSearch>
       </SidebarContent>
       <SidebarFooter>
-        { (isPublicAgent && publicAgentSession) ? null : (
-         <SidebarUserNav  />
+        { (isPublicAgent && publicAgentSession) ? <TranscriptMenu /> : (
+          <>
+            <LocalChatsImport onImported={fetchThreads} />
+            <SidebarUserNav  />
+          </>
         )}
       </SidebarFooter>
     </Sidebar>
@@ -17,6 +17,7 @@ function PureBlockCloseButton({ setBlock }: BlockCloseButtonProps) {
         setBlock((currentBlock) => ({
           ...currentBlock,
           isVisible: false,
+          citation: undefined,
         }));
       }}
     >
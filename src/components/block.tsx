@@ -30,6 +30,19 @@ import { VersionFooter } from './version-footer';
 import { BlockActions } from './block-actions';
 import { BlockCloseButton } from './block-close-button';
 import { BlockMessages } from './block-messages';
+import { CitationViewer } from './citation-viewer';
+
+/** Cited document shown in the block instead of an editable document */
+export interface BlockCitation {
+  /** Link the document is loaded from */
+  href: string;
+  /** Reference URL as given in the agent response */
+  url: string;
+  title: string;
+  /** Retrieved passage to highlight, when the response includes it */
+  snippet: string | null;
+  page: number | null;
+}
 
 export interface UIBlock {
   title: string;
@@ -43,6 +56,7 @@ export interface UIBlock {
     width: number;
     height: number;
   };
+  citation?: BlockCitation;
 }
 
 function PureBlock({
@@ -96,7 +110,7 @@ function PureBlock({
     isLoading: isDocumentsFetching,
     mutate: mutateDocuments,
   } = useSWR<Array<Document>>(
-    block && block.status !== 'streaming'
+    block && block.status !== 'streaming' && !block.citation
       ? `/api/document?id=${block.documentId}`
       : null,
     // fetcher,
@@ -387,10 +401,21 @@ function PureBlock({
 
             <div className="flex flex-col">
               <div className="font-medium">
-                {document?.title ?? block.title}
+                {block.citation ? block.citation.title : (document?.title ?? block.title)}
               </div>
 
-              {isContentDirty ? (
+              {block.citation ? (
+                <a
+                  href={block.citation.href}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-sm text-muted-foreground hover:underline"
+                >
+                  Open in new tab
+                </a>
+              ) : null}
+
+              {block.citation ? null : isContentDirty ? (
                 <div className="text-sm text-muted-foreground">
                   Saving changes...
                 </div>
@@ -410,15 +435,22 @@ function PureBlock({
             </div>
           </div>
 
-          <BlockActions
-            block={block}
-            currentVersionIndex={currentVersionIndex}
-            handleVersionChange={handleVersionChange}
-            isCurrentVersion={isCurrentVersion}
-            mode={mode}
-          />
+          {!block.citation && (
+            <BlockActions
+              block={block}
+              currentVersionIndex={currentVersionIndex}
+              handleVersionChange={handleVersionChange}
+              isCurrentVersion={isCurrentVersion}
+              mode={mode}
+            />
+          )}
         </div>
 
+        {block.citation ? (
+          <div className="flex-1 min-h-0">
+            <CitationViewer citation={block.citation} />
+          </div>
+        ) : (
         <div className="prose dark:prose-invert dark:bg-muted bg-background h-full overflow-y-scroll px-4 py-8 md:p-20 !max-w-full pb-40 items-center">
           <div className="flex flex-row max-w-[600px] mx-auto">
             {isDocumentsFetching && !block.content ? (
@@ -461,6 +493,7 @@ function PureBlock({
             </AnimatePresence>
           </div>
         </div>
+        )}
 
         <AnimatePresence>
           {!isCurrentVersion && (
@@ -19,7 +19,7 @@ import {
 } from "@/components/visibility-selector";
 import { getAccessToken, getUserFromStorage } from '@/cookie';
 import { toast } from "sonner";
-import { encryptData, handleSetQueryParams } from "@/lib/utils";
+import { setActiveThreadId, showChatThread } from "@/lib/utils";
 
 function PureChatHeader({
   chatId,
@@ -64,8 +64,8 @@ function PureChatHeader({
           const newTitle = 'New Chat';
           
           // Navigate to the new local chat thread
-          handleSetQueryParams(tempThreadId.toString(), newTitle);
-          localStorage.setItem('active_thread_id', tempThreadId.toString());
+          showChatThread(tempThreadId.toString());
+          setActiveThreadId(tempThreadId.toString());
           
           toast.success('New chat created');
         }
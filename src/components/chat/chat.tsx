@@ -4,7 +4,7 @@ import { AnimatePresence } from "framer-motion";
 import { useEffect, useRef, useState } from "react";
 import { useWindowSize } from "usehooks-ts";
 import { ChatHeader } from "@/components/chat/chat-header";
-import { decryptData } from "@/lib/utils";
+import { useChatThreadId } from "@/hooks/useChatThreadId";
 import { Block, type UIBlock } from "../block";
 import { BlockStreamHandler } from "../block-stream-handler";
 import { MultimodalInput } from "../multimodal-input";
@@ -13,12 +13,12 @@ import { VisibilityType } from "../visibility-selector";
 import { getAccessToken } from "@/cookie";
 import { useApiService } from "@/hooks/useApiService";
 import { useConfig } from "@/app/context/ConfigContext";
-import { useSearchParams } from "next/navigation";
 import { Skeleton } from "../ui/skeleton";
-import { Item } from "@/model";
+import { ChatThreadAgentResponsesV2, Item } from "@/model";
 import { useChat } from "./hooks/useChat";
 import { isPublicAgentMode } from "@/lib/storage/indexeddb";
 import { usePublicAgentSession } from "@/hooks/usePublicAgentSession";
+import { RemoteThreadSync } from "./remote-thread-sync";
 
 /**
  * CHAT COMPONENT - Main chat interface
@@ -37,7 +37,7 @@ import { usePublicAgentSession } from "@/hooks/usePublicAgentSession";
  * Architecture:
  * - Uses custom useChat hook for chat state management
  * - Integrates with external APIs for corpus data and chat logs
- * - Handles URL parameters for chat ID and title encryption
+ * - Reads the chat ID from the /chat/[threadId] route
  * - Manages local storage for thread and query persistence
  */
 
@@ -93,6 +93,8 @@ interface ChatProps {
   selectedVisibilityType: VisibilityType;
   /** Whether chat is in read-only mode (no input allowed) */
   isReadonly: boolean;
+  /** Chat log the page already loaded for this thread (see thread-access.ts) */
+  initialChatlog?: { threadId: string; chatlog: ChatThreadAgentResponsesV2 };
 }
 
 /**
@@ -110,10 +112,13 @@ export default function Chat({
   selectedModelId,
   selectedVisibilityType,
   isReadonly,
+  initialChatlog,
 }: ChatProps) {
   const { isLoading: configLoading } = useConfig();
   const apiService = useApiService();
   const [corpus, setCorpus] = useState<any>([]);
+  // Used for the first load of its thread only; later loads must see new messages
+  const initialChatlogRef = useRef(initialChatlog);
   
   // Show loading while config is loading
   if (configLoading) {
@@ -160,6 +165,7 @@ export default function Chat({
     input,
     setInput,
     append,
+    resume,
     isLoading,
     stop,
     reload,
@@ -279,11 +285,7 @@ export default function Chat({
   const [attachments, setAttachments] = useState<Array<any>>([]);
   const [isFinished, setIsFinished] = useState(false);
   const [isLoadingChat, setIsLoadingChat] = useState(true);
-  const searchParams = useSearchParams();
-  const encryptedId = searchParams.get("id");
-  const encryptedTitle = searchParams.get("title");
-  const id = decryptData(encryptedId);
-  const title = decryptData(encryptedTitle);
+  const id = useChatThreadId();
   const thread_id = typeof window !== 'undefined' ? localStorage.getItem('thread_id') : null;
   const query = typeof window !== 'undefined' ? localStorage.getItem('query') : null;
   // Track the last fetched ID to prevent unnecessary fetchChat calls
@@ -311,6 +313,35 @@ export default function Chat({
     };
   }, []);
 
+  /**
+   * Transforms messages stored in IndexedDB (PUBLIC_AGENT mode) to chat format
+   */
+  const storedMessagesToChat = (storedMessages: any[]) =>
+    storedMessages.map((msg: any) => {
+      const metadata = msg.metadata || {};
+      return {
+        role: msg.role,
+        content: msg.content,
+        ...metadata,
+        // Ensure the id field is set from metadata.id (agent_response_id)
+        // This is critical for matching messages when updating votes
+        id: metadata.id || msg.messageId,
+        // Ensure vote fields are always boolean, never undefined
+        is_upvote: metadata.is_upvote === true,
+        is_downvote: metadata.is_downvote === true,
+      };
+    });
+
+  /**
+   * PUBLIC_AGENT mode: Reloads the open thread after another tab wrote to it,
+   * without the loading skeleton
+   */
+  const reloadStoredMessages = async () => {
+    if (!id || !publicAgentSession) return;
+    const storedMessages = await publicAgentSession.getThreadMessages(id.toString());
+    setMessages(storedMessagesToChat(storedMessages));
+  };
+
   /**
    * Fetches chat history for the current thread
    * 
@@ -337,21 +368,7 @@ export default function Chat({
           const storedMessages = await publicAgentSession.getThreadMessages(threadId);
           
           if (storedMessages.length > 0) {
-            // Transform stored messages to chat format
-            const transformedMessages = storedMessages.map((msg: any) => {
-              const metadata = msg.metadata || {};
-              return {
-                role: msg.role,
-                content: msg.content,
-                ...metadata,
-                // Ensure the id field is set from metadata.id (agent_response_id)
-                // This is critical for matching messages when updating votes
-                id: metadata.id || msg.messageId,
-                // Ensure vote fields are always boolean, never undefined
-                is_upvote: metadata.is_upvote === true,
-                is_downvote: metadata.is_downvote === true,
-              };
-            });
+            const transformedMessages = storedMessagesToChat(storedMessages);
             
             // Handle pending user query from localStorage
             if (thread_id === id.toString()) {
@@ -383,8 +400,10 @@ export default function Chat({
             setMessages([]);
           }
         } else {
-          // For server threads, fetch chat history as usual
-          const response = await apiService.getChatlogs(parseInt(id));
+          // For server threads, fetch chat history unless the page already loaded it
+          const preloaded = initialChatlogRef.current?.threadId === id.toString() ? initialChatlogRef.current.chatlog : null;
+          initialChatlogRef.current = undefined;
+          const response = preloaded ?? (await apiService.getChatlogs(parseInt(id)));
           if (response && response?.data?.agent_responses?.length > 0) {
             // Transform API response into message format
             const transformedMessages = response.data.agent_responses.flatMap((item: any) => [
@@ -397,6 +416,8 @@ export default function Chat({
                 is_upvote: item.feedback[0]?.is_upvote,
                 is_downvote: item.feedback[0]?.is_downvote,
                 references: item.response.references,
+                indexes: item.response.indexes,
+                sources: item.response.sources,
                 guardrail_triggered: item?.response?.guardrail_triggered || false,
                 blocked: item?.response?.blocked || false,
                 // reflectionEvents: item?.response_steps?.map((step: any) => step?.friendly_message) || [],
@@ -493,6 +514,7 @@ export default function Chat({
               setSelectedCorpus={setSelectedCorpus}
               selectedCorpus={selectedCorpus}
               append={append}
+              resume={resume}
               setIsFinished={setIsFinished}
               isCache={isCache}
               setIsCache={setIsCache}
@@ -549,6 +571,14 @@ export default function Chat({
             streamingData={streamingData}
             setBlock={setBlock}
           />
+
+          {isPublicAgent && publicAgentSession && (
+            <RemoteThreadSync
+              threadId={id.toString()}
+              isBusy={isLoading}
+              onThreadChanged={reloadStoredMessages}
+            />
+          )}
         </>
       )}
     </>
@@ -1,14 +1,32 @@
 "use client";
 
 import { useEffect, useRef, useState } from "react";
-import { decryptData, handleSetQueryParams } from "@/lib/utils";
+import { getActiveThreadId, setActiveThreadId, showChatThread } from "@/lib/utils";
 import { getAccessToken, getEjentoAccessToken, getUserFromStorage } from "@/cookie";
 import { useApiService } from "@/hooks/useApiService";
-import { useSearchParams } from "next/navigation";
+import { useChatThreadId } from "@/hooks/useChatThreadId";
 import { useConfig } from "@/app/context/ConfigContext";
-import { toast } from 'sonner';
 import { isPublicAgentMode } from "@/lib/storage/indexeddb";
 import { usePublicAgentSession } from "@/hooks/usePublicAgentSession";
+import { isEjentoApiError } from "@/lib/api-errors";
+import {
+  buildAssistantMessage,
+  buildInterruptedMessage,
+  buildRecoveredMessage,
+  findRecoveredResponse,
+  initialStreamState,
+  isStreamComplete,
+  parseStreamEvent,
+  streamReducer,
+  StreamResumeTarget,
+  StreamState,
+} from "@/lib/chat-stream";
+
+/**
+ * Waits before each look-up of an interrupted response in the thread's history: the
+ * server usually keeps generating after the connection drops
+ */
+const RESUME_DELAYS_MS = [2000, 5000, 10000];
 
 export function formatChatData(chatArray: any[]) {
     if (!Array.isArray(chatArray) || chatArray.length === 0) {
@@ -89,6 +107,7 @@ export function useChat(arg0: { selectedCorpus: any | null }): {
     reflectionContentsRef: any;
     thoughtProcessRef: any;
     isReflectingRef: any;
+    resume: (message: any, delaysMs?: number[]) => Promise<boolean>;
   } {
     const apiService = useApiService();
     const { selectedCorpus } = arg0;
@@ -107,6 +126,9 @@ export function useChat(arg0: { selectedCorpus: any | null }): {
       console.warn('PublicAgentSessionContext not available, continuing without IndexedDB persistence');
     }
     
+    // State of the response currently being streamed (see streamReducer)
+    const streamStateRef = useRef<StreamState>(initialStreamState);
+    
     // Handle null apiService
     if (!apiService) {
       return {
@@ -130,7 +152,8 @@ export function useChat(arg0: { selectedCorpus: any | null }): {
         reflectionEventsRef: { current: [] },
         reflectionContentsRef: { current: [] },
         thoughtProcessRef: { current: "" },
-        isReflectingRef: { current: false }
+        isReflectingRef: { current: false },
+        resume: () => Promise.resolve(false),
       };
     }
     const [input, setInput] = useState<any>("");
@@ -138,12 +161,8 @@ export function useChat(arg0: { selectedCorpus: any | null }): {
     const [stop, setStop] = useState(false);
     const [reload, setReload] = useState(false);
     const [data, setData] = useState<any>(null);
-    const searchParams = useSearchParams();
-    const encryptedId = searchParams.get("id");
-    const thread_name_from_url_encrypted = searchParams.get("title");
-  
-    const id = decryptData(encryptedId);
-    const thread_name_from_url = decryptData(thread_name_from_url_encrypted)
+    // Empty at /chat, before a thread is opened
+    const id = useChatThreadId() ?? "";
     const [chatStarted, setChatStarted] = useState(false);
     const [promptTemplate, setPromptTemplate] = useState<string>("");
     const [excludeCategory, setExcludeCategory] = useState<string>("");
@@ -164,7 +183,6 @@ export function useChat(arg0: { selectedCorpus: any | null }): {
     const abortConnectionRef = useRef<(() => void) | null>(null);
     const [isCache, setIsCache] = useState(false);
     const [streamError, setStreamError] = useState(false);
-    const hasErrorOccurredRef = useRef(false);
   
     // Add this useEffect near the other useEffects
     useEffect(() => {
@@ -176,6 +194,16 @@ export function useChat(arg0: { selectedCorpus: any | null }): {
         }
       };
     }, []);
+    /**
+     * Mirrors the stream reducer state into the refs read by the streaming UI
+     */
+    const syncStreamRefs = (state: StreamState) => {
+      streamContentRef.current = state.answer;
+      thoughtProcessRef.current = state.thoughtProcess;
+      isReflectingRef.current = state.isReflecting;
+      reflectionEventsRef.current = state.reflectionEvents;
+    };
+
     useEffect(() => {
       if (messages.length > 0) {
         setChatStarted(true);
@@ -194,7 +222,7 @@ export function useChat(arg0: { selectedCorpus: any | null }): {
       reflectionEventsRef.current = [];
       reflectionContentsRef.current = [];
       thoughtProcessRef.current = "";
-      hasErrorOccurredRef.current = false; // Reset error flag for new request
+      streamStateRef.current = initialStreamState;
   
       setIsCache(false);
   
@@ -280,6 +308,17 @@ export function useChat(arg0: { selectedCorpus: any | null }): {
             chatThreadId = isLocalThread ? null : parseInt(id);
           }
 
+          // Where to find the finished response if the stream drops. PUBLIC_AGENT visitors
+          // cannot read server threads (see proxy-policy), and a new thread has no server id yet.
+          const resumeTarget: StreamResumeTarget | undefined = !isPublicAgent && chatThreadId && chatThreadId > 0
+            ? {
+                threadId: chatThreadId,
+                knownResponseIds: messages
+                  .filter((m: any) => m.role === 'assistant' && typeof m.id === 'number')
+                  .map((m: any) => m.id),
+              }
+            : undefined;
+
           const requestBody: any = {
             // agent_id: parseInt(config?.agentId || '0'),
             // approach: "rrr",
@@ -317,102 +356,67 @@ export function useChat(arg0: { selectedCorpus: any | null }): {
           abortConnectionRef.current = await apiService.streamChatRequest(
             requestBody,
             {
-              onopen: async (res: any) => {
-                if (res.ok && (res.status === 200)) {
-                  // console.log("Connection successful:");
-                } else if (res.status >= 400 && res.status < 500 && res.status !== 429) {
-                  console.error("Client-side error. Response:", res);
-                } else if (res.status === 429) {
-                  console.error("Rate limited. Please try again later.");
-                }
-                return Promise.resolve();
-              },
+              isComplete: () => isStreamComplete(streamStateRef.current),
               onmessage(event: any) {
-
-                // If an error has already occurred, ignore all subsequent events
-                if (hasErrorOccurredRef.current) {
+                const streamEvent = parseStreamEvent(event.data);
+                if (!streamEvent) {
                   return;
                 }
 
+                const previousState = streamStateRef.current;
+                const state = streamReducer(previousState, { type: 'event', event: streamEvent });
+                // Events after a terminal step leave the state untouched
+                if (state === previousState) {
+                  return;
+                }
+                streamStateRef.current = state;
+                syncStreamRefs(state);
 
-                let parsedStreamData = JSON.parse(event.data);
-                
                 // Set streaming to true as soon as we receive any data
                 setStreaming(true);
-                
-                let hasEnded = parsedStreamData?.step == 'end';
-                // let hasCache = parsedStreamData?.event == 'cache_hit';
-                let hasError = parsedStreamData?.step == 'error';
-                // let isGuardrail = parsedStreamData?.event == 'guardrail';
-                let thoughtProcess = parsedStreamData?.step == 'tools_stream';
-                const hasReflection = parsedStreamData?.step == "reflection_end" || parsedStreamData?.step == "reflection_skip";
-                
-  
-  
-                if (hasReflection) {
-                  reflectionEventsRef.current = [...reflectionEventsRef.current, parsedStreamData?.message];
-                  // reflectionContentsRef.current = [...reflectionContentsRef.current, streamContentRef.current];
-                }
-  
-                // const isReflecting = parsedStreamData?.event == "reflection_start";
-  
-                // if (isReflecting) {
-                  // }/
-                  
-                if(thoughtProcess){
-                  isReflectingRef.current = true;
-                  thoughtProcessRef.current +=  parsedStreamData?.delta
-                  setStreamEvents([]);
-                  // setStreamEvents([]);
-                } 
-  
-                if (hasEnded) {
-                  const response = parsedStreamData?.output;
-                  if (!parsedStreamData?.success) {
-                    // if(isGuardrail){
-                    //   setMessages((messages: any) => [
-                    //     ...messages,
-                    //     ...[
-                    //       {
-                    //         role: "assistant",
-                    //         content: response?.answer,
-                    //         query: question || input,
-                    //         id: response?.agent_response_id,
-                    //         isUpvote: false,
-                    //         isDownvote: false,
-                    //         followUpQuestions: response?.followup_questions,
-                    //         references: response?.references,
-                    //         currentChat: true,
-                    //         guardrail_triggered: response?.guardrail_triggered || false,
-                    //         blocked: response?.blocked || false,
-                    //       },
-                    //     ],
-                    //   ]);
-                    // } else {
-                      setMessages((messages: any) => [
-                        ...messages,
-                        ...[
-                        {
-                          role: "assistant",
-                          content: `error:: ${response.message}`,
-                          id: id,
-                          is_upvote: false,
-                          is_downvote: false,
-                          followUpQuestions: [],
-                          references: [],
-                          query: question || input,
-                          guardrail_triggered: response?.guardrail_triggered || false,
-                          blocked: response?.blocked || false,
-                        },
-                      ],
+
+                switch (streamEvent.step) {
+                  case 'tools_stream':
+                    setStreamEvents([]);
+                    break;
+
+                  case 'assistant_stream':
+                    setStreamEvents([]);
+                    setIsLoading(false);
+                    // Trigger re-render by updating state
+                    setStreamContent(state.answer);
+                    break;
+
+                  case 'reflection_end':
+                  case 'reflection_skip':
+                  case 'status':
+                    setStreamEvents([state.latestStatus]);
+                    break;
+
+                  case 'error':
+                    setMessages((messages: any) => [
+                      ...messages,
+                      buildAssistantMessage(state, question || input, id),
                     ]);
-                  }
-                  // }
-                  else {
+
+                    // Clean up streaming state
+                    setStreaming(false);
+                    setIsLoading(false);
+                    streamContentRef.current = "";
+                    break;
+
+                  case 'end': {
+                    const response = streamEvent.output;
+                    const assistantMessage = buildAssistantMessage(state, question || input, id);
+                    if (!streamEvent.success) {
+                      setMessages((messages: any) => [...messages, assistantMessage]);
+                      break;
+                    }
+
                     threadName = response.chat_thread_name
                     
                     // Get current active thread ID and response thread ID for comparison
-                    const activeThreadId = localStorage.getItem('active_thread_id');
+                    const activeThreadId = getActiveThreadId();
                     const responseThreadId = response.thread_id?.toString();
                     const currentThreadId = id?.toString();
                     const isLocalThread = parseInt(id) < 0;
@@ -428,16 +432,11 @@ export function useChat(arg0: { selectedCorpus: any | null }): {
                     // Update thread information if this response belongs to current thread
                     if (belongsToCurrentThread && response.thread_id) {
                       // Always update localStorage with the latest thread ID
-                      localStorage.setItem('active_thread_id', response.thread_id.toString());
-                      
-                      // Determine if we need to update the URL
-                      const shouldUpdateUrl = isLocalThread || 
-                                            thread_name_from_url === "New Thread" || 
-                                            thread_name_from_url === "New Chat";
+                      setActiveThreadId(response.thread_id.toString());
                       
-                      // Update URL once if needed
-                      if (shouldUpdateUrl) {
-                        handleSetQueryParams(response.thread_id.toString(), response.chat_thread_name);
+                      // Move a local thread to its route once the server assigned it an id
+                      if (isLocalThread) {
+                        showChatThread(response.thread_id.toString());
                       }
                       
                       // Handle local thread specific updates
@@ -470,25 +469,6 @@ export function useChat(arg0: { selectedCorpus: any | null }): {
                     }
                     
                     if (belongsToCurrentThread) {
-                      const savedReflectionEvents = [...reflectionEventsRef.current];
-                      const savedReflectionContents = [...reflectionContentsRef.current];
-                      
-                      const assistantMessage = {
-                        role: "assistant",
-                        content: response?.answer,
-                        query: question || input,
-                        id: response?.agent_response_id,
-                        is_upvote: false,
-                        is_downvote: false,
-                        followUpQuestions: response?.followup_questions,
-                        references: response?.references,
-                        reflectionEvents: savedReflectionEvents,
-                        reflectionContents: savedReflectionContents,
-                        currentChat: true,
-                        guardrail_triggered: response?.guardrail_triggered || false,
-                        blocked: response?.blocked || false,
-                      };
-                      
                       setMessages((messages: any) => [
                         ...messages,
                         ...[assistantMessage],
@@ -511,13 +491,15 @@ export function useChat(arg0: { selectedCorpus: any | null }): {
                         publicAgentSession.saveMessage(
                           threadId,
                           'assistant',
-                          response?.answer,
+                          response?.answer || '',
                           {
                             query: question || input,
                             id: response?.agent_response_id,
                             followUpQuestions: response?.followup_questions,
                             references: response?.references,
-                            reflectionEvents: savedReflectionEvents,
+                            indexes: response?.indexes,
+                            sources: response?.sources,
+                            reflectionEvents: state.reflectionEvents,
                             guardrail_triggered: response?.guardrail_triggered || false,
                             blocked: response?.blocked || false,
                             is_upvote: false,
@@ -536,160 +518,12 @@ export function useChat(arg0: { selectedCorpus: any | null }): {
                         }
                       }
                     }
-                  }
-                } 
-                // else if (hasCache) {
-                //   setIsCache(true);
-                //   const response = parsedStreamData?.content;
-                //   threadName = response.chat_thread_name
-                  
-                //   // Get current active thread ID and response thread ID for comparison
-                //   const activeThreadId = localStorage.getItem('active_thread_id');
-                //   const responseThreadId = response.thread_id?.toString();
-                //   const currentThreadId = id?.toString();
-                //   const isLocalThread = parseInt(id) < 0;
-                  
-                //   // Check if this response belongs to the current thread
-                //   const belongsToCurrentThread = isResponseForCurrentThread(
-                //     activeThreadId, 
-                //     responseThreadId, 
-                //     currentThreadId, 
-                //     isLocalThread
-                //   );
-                  
-                //   // Update thread information if this response belongs to current thread
-                //   if (belongsToCurrentThread && response.thread_id) {
-                //     // Always update localStorage with the latest thread ID
-                //     localStorage.setItem('active_thread_id', response.thread_id.toString());
-                    
-                //     // Determine if we need to update the URL
-                //     const shouldUpdateUrl = isLocalThread || 
-                //                           thread_name_from_url === "New Thread" || 
-                //                           thread_name_from_url === "New Chat";
-                    
-                //     // Update URL once if needed
-                //     if (shouldUpdateUrl) {
-                //       handleSetQueryParams(response.thread_id.toString(), response.chat_thread_name);
-                //     }
-                    
-                //     // Handle local thread specific updates
-                //     if (isLocalThread) {
-                //       // Mark that we're transitioning to prevent fetchChat from running
-                //       if ((window as any).setTransitioningState) {
-                //         (window as any).setTransitioningState(true);
-                //       }
-                      
-                //       // Update the sidebar thread list with the real server ID
-                //       if ((window as any).updateLocalThreadWithServerId) {
-                //         (window as any).updateLocalThreadWithServerId(
-                //           parseInt(id), 
-                //           response.thread_id, 
-                //           response.chat_thread_name
-                //         );
-                //       }
-                      
-                //       // Clear any temporary thread data
-                //       localStorage.removeItem('thread_id');
-                //       localStorage.removeItem('query');
-                      
-                //       // Clear transition state after a brief delay to allow URL update to complete
-                //       setTimeout(() => {
-                //         if ((window as any).setTransitioningState) {
-                //           (window as any).setTransitioningState(false);
-                //         }
-                //       }, 100);
-                //     }
-                //   }
-                  
-                //   if (belongsToCurrentThread) {
-                //     setMessages((messages: any) => [
-                //       ...messages,
-                //       ...[
-                //         {
-                //           role: "assistant",
-                //           content: response?.answer,
-                //           query: question || input,
-                //           id: response?.agent_response_id,
-                //           isUpvote: false,
-                //           isDownvote: false,
-                //           followUpQuestions: response?.followup_questions,
-                //           references: response?.references,
-                //           currentChat: true,
-                //           guardrail_triggered: response?.guardrail_triggered || false,
-                //           blocked: response?.blocked || false,
-                //         },
-                //       ],
-                //     ]);
-                //   }
-                // }
-                 else if (hasError) {
-                   // Set the error flag to prevent processing subsequent events
-                   hasErrorOccurredRef.current = true;
-                  
-                  const response = parsedStreamData?.output;
-                  setMessages((messages: any) => [
-                    ...messages,
-                    ...[
-                      {
-                        role: "assistant",
-                        content: `error:: ${response?.error?.details || parsedStreamData?.message}`,
-                        id: id,
-                        is_upvote: false,
-                        is_downvote: false,
-                        followUpQuestions: [],
-                        references: [],
-                        query: question || input,
-                        guardrail_triggered: response?.blocked || false,
-                        blocked: response?.blocked || false,
-                      },
-                    ],
-                  ]);
-
-                  // Clean up streaming state
-                  setStreaming(false);
-                  setIsLoading(false);
-                  streamContentRef.current = "";
-                  
-                  return; // Stop processing this event
-                }
-                else {
-                  const parsedMsg = parsedStreamData?.step;
-                  if (parsedMsg === 'assistant_stream') {
-                    setStreamEvents([]);
-                    setIsLoading(false);
-                    if(isReflectingRef.current){
-                      reflectionEventsRef.current = [...reflectionEventsRef?.current, thoughtProcessRef?.current];
-                      isReflectingRef.current = false;
-                    }
-                    
-                    // if (isReflectingRef.current) {
-                    //   streamContentRef.current = "";
-                    // }
-                    streamContentRef.current += parsedStreamData?.delta;
-                    // Trigger re-render by updating state
-                    setStreamContent(streamContentRef.current);
-                  } else {
-                    if (parsedMsg == 'error') {
-                      console.error(parsedStreamData?.delta)
-                      setStreamError(true)
-                    }
-                    setStreamEvents([parsedStreamData?.message]);
-                    if(parsedStreamData?.message !== "")
-                    {
-                      reflectionEventsRef.current = [...reflectionEventsRef?.current, parsedStreamData?.message];
-                    }
+                    break;
                   }
                 }
               },
               onclose() {
-                // Check if the response seems incomplete (less than 50 characters)
-                const isIncomplete = streamContentRef.current.length < 50;
-                
-                if (isIncomplete) {
-                  // Show user notification about incomplete response
-                  toast.warning("Response appears incomplete. This may be due to a server issue.");
-                }
-                
+                // Only reached once the terminal step was received (see isComplete)
                 setStreaming(false);
                 setStreamContent("");
                 setIsLoading(false);
@@ -699,14 +533,51 @@ export function useChat(arg0: { selectedCorpus: any | null }): {
                 console.info("Connection closed by the server.");
               },
               onerror(err: any) {
+                // Called once; dropped streams are not reconnected (see streamChatRequest)
                 console.error("Stream error occurred:", err);
+
+                if (!isStreamComplete(streamStateRef.current)) {
+                  // Keep what was already streamed, then look for the finished response
+                  const partialMessage = buildInterruptedMessage(streamStateRef.current, question || input, resumeTarget);
+                  const interruptedMessage = partialMessage || {
+                    role: "assistant",
+                    content: `error:: ${err?.message || 'The connection was lost before a response was received.'}`,
+                    id: id,
+                    is_upvote: false,
+                    is_downvote: false,
+                    followUpQuestions: [],
+                    references: [],
+                    query: question || input,
+                    ...(resumeTarget && { resume: resumeTarget }),
+                  };
+                  setMessages((messages: any) => [...messages, interruptedMessage]);
+                  resumeInterruptedMessage(interruptedMessage, RESUME_DELAYS_MS);
+
+                  // PUBLIC_AGENT mode: keep the partial answer across reloads
+                  if (partialMessage && isPublicAgent && publicAgentSession && id) {
+                    publicAgentSession.saveMessage(
+                      id.toString(),
+                      'assistant',
+                      partialMessage.content,
+                      {
+                        query: partialMessage.query,
+                        id: partialMessage.id,
+                        reflectionEvents: partialMessage.reflectionEvents,
+                        interrupted: true,
+                        is_upvote: false,
+                        is_downvote: false,
+                      }
+                    ).catch(err => console.error('Error saving interrupted message to IndexedDB:', err));
+                  }
+                }
+
                 setStreaming(false);
                 setStreamContent("");
                 streamContentRef.current = "";
+                isReflectingRef.current = false;
                 setIsLoading(false);
                 setIsCache(false);
                 controller.abort();
-                throw err;
               },
               signal
             },
@@ -761,8 +632,15 @@ export function useChat(arg0: { selectedCorpus: any | null }): {
             }
           };
 
-          const response: any = await apiService.sendChat(requestBody);
-          if (!response.success) {
+          let response: any;
+          try {
+            response = await apiService.sendChat(requestBody);
+          } catch (error) {
+            if (!isEjentoApiError(error)) throw error;
+            console.error(`Error ${error.status ?? 'network'}: ${error.message}`);
+            response = { success: false, status: error.status, message: error.message };
+          }
+          if (!response?.success) {
             setMessages((messages: any) => [
               ...messages,
               ...[
@@ -783,7 +661,7 @@ export function useChat(arg0: { selectedCorpus: any | null }): {
             threadName = responseData.chat_thread_name
             
             // Get current active thread ID for comparison
-            const activeThreadId = localStorage.getItem('active_thread_id');
+            const activeThreadId = getActiveThreadId();
             const responseThreadId = responseData.thread_id?.toString();
             const currentThreadId = id?.toString();
             
@@ -815,16 +693,11 @@ export function useChat(arg0: { selectedCorpus: any | null }): {
             // Update thread information if this response belongs to current thread
             if (belongsToCurrentThread && responseData.thread_id) {
               // Always update localStorage with the latest thread ID
-              localStorage.setItem('active_thread_id', responseData.thread_id.toString());
-              
-              // Determine if we need to update the URL
-              const shouldUpdateUrl = isLocalThread || 
-                                    thread_name_from_url === "New Thread" || 
-                                    thread_name_from_url === "New Chat";
+              setActiveThreadId(responseData.thread_id.toString());
               
-              // Update URL once if needed
-              if (shouldUpdateUrl) {
-                handleSetQueryParams(responseData.thread_id.toString(), responseData.chat_thread_name);
+              // Move a local thread to its route once the server assigned it an id
+              if (isLocalThread) {
+                showChatThread(responseData.thread_id.toString());
               }
               
               // Handle local thread specific updates
@@ -866,6 +739,8 @@ export function useChat(arg0: { selectedCorpus: any | null }): {
                 is_downvote: false,
                 followUpQuestions: responseData?.followup_questions,
                 references: responseData?.references,
+                indexes: responseData?.indexes,
+                sources: responseData?.sources,
                 currentChat: true,
               };
               
@@ -897,6 +772,8 @@ export function useChat(arg0: { selectedCorpus: any | null }): {
                     id: responseData?.chatlog_id,
                     followUpQuestions: responseData?.followup_questions,
                     references: responseData?.references,
+                    indexes: responseData?.indexes,
+                    sources: responseData?.sources,
                     is_upvote: false,
                     is_downvote: false,
                   }
@@ -946,6 +823,36 @@ export function useChat(arg0: { selectedCorpus: any | null }): {
     }
   
   
+    /**
+     * Replaces an interrupted message with its finished response from the thread's history
+     *
+     * @param message A message carrying `resume` (see buildInterruptedMessage)
+     * @param delaysMs Wait before each attempt; one immediate attempt by default
+     * @returns Whether the response was found
+     */
+    const resumeInterruptedMessage = async (message: any, delaysMs: number[] = [0]): Promise<boolean> => {
+      const target: StreamResumeTarget | undefined = message?.resume;
+      if (!target) return false;
+
+      for (const delay of delaysMs) {
+        if (delay > 0) {
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+        try {
+          const item = findRecoveredResponse(await apiService.getChatlogs(target.threadId), message.query, target);
+          if (item) {
+            const recovered = buildRecoveredMessage(item, message);
+            // A no-op if the user left the thread in the meantime
+            setMessages((messages: any) => messages.map((m: any) => (m === message ? recovered : m)));
+            return true;
+          }
+        } catch (error) {
+          console.error('Error recovering interrupted response:', error);
+        }
+      }
+      return false;
+    };
+
     const append = (message: any, regenerating?: boolean) => {
       if (regenerating && messages.length > 0) {
         // Find the index of the assistant message that matches the one being regenerated
@@ -990,6 +897,7 @@ export function useChat(arg0: { selectedCorpus: any | null }): {
       input,
       setInput,
       append,
+      resume: resumeInterruptedMessage,
       isLoading,
       stop,
       reload,
@@ -14,6 +14,7 @@ import { use, useEffect, useMemo, useRef, useState } from 'react';
 import { getAccessToken, getUserFromStorage, getEjentoAccessToken } from '@/cookie';
 import { isPublicAgentMode, updateMessage } from '@/lib/storage/indexeddb';
 import { usePublicAgentSession } from '@/hooks/usePublicAgentSession';
+import { EjentoAuthError, EjentoRateLimitError, isEjentoApiError } from '@/lib/api-errors';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -32,6 +33,21 @@ export const encodeParam = (string: string) => {
   return encodeURIComponent(btoa(String.fromCodePoint(...new TextEncoder().encode(string))))
 }
 
+/**
+ * Maps an ApiService error to the toast shown for feedback actions
+ */
+const getFeedbackErrorMessage = (error: unknown, fallback: string) => {
+  if (error instanceof EjentoAuthError) {
+    return `${fallback}: your session has expired`;
+  }
+  if (error instanceof EjentoRateLimitError) {
+    return `${fallback}: too many requests, please try again shortly`;
+  }
+  if (isEjentoApiError(error) && error.serverMessage) {
+    return `${fallback}: ${error.serverMessage}`;
+  }
+  return fallback;
+}
 
 
 
@@ -154,7 +170,7 @@ export function MessageActions({
         toast.promise(responsePromise, {
           loading: 'Upvoting Response...',
           success: 'Upvoted Response!',
-          error: 'Failed to upvote response',
+          error: (error) => getFeedbackErrorMessage(error, 'Failed to upvote response'),
         });
         const response = await responsePromise;
         if (response?.data?.id) {
@@ -237,7 +253,7 @@ export function MessageActions({
         toast.promise(responsePromise, {
           loading: 'Downvoting Response...',
           success: 'Downvoted Response!',
-          error: 'Failed to downvote response',
+          error: (error) => getFeedbackErrorMessage(error, 'Failed to downvote response'),
         });
 
         const response = await responsePromise;
@@ -328,7 +344,7 @@ export function MessageActions({
       toast.promise(responsePromise, {
         loading: 'Submitting Feedback...',
         success: 'Feedback Submitted!',
-        error: 'Failed to submit feedback',
+        error: (error) => getFeedbackErrorMessage(error, 'Failed to submit feedback'),
       });
       setShowDeleteDialog(false)
       const response = await responsePromise;
@@ -403,7 +419,7 @@ export function MessageActions({
       {<TooltipProvider delayDuration={0}>
         <div className="flex flex-row gap-2">
           {
-            !currentMessage?.content?.startsWith('error::') &&
+            !currentMessage?.content?.startsWith('error::') && !currentMessage?.interrupted &&
             <>
               <Tooltip>
                 <TooltipTrigger asChild>
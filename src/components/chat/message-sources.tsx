@@ -0,0 +1,113 @@
+'use client';
+
+import { memo, useMemo, useState, type RefObject } from 'react';
+import { ChevronDown, ChevronRight, ExternalLink, FileText, Globe } from 'lucide-react';
+import { buildSourceEntries, MessageReference, SourceEntry } from '@/lib/references';
+
+const HIGHLIGHT_CLASSES = ['ring-2', 'ring-yellow-400', 'rounded-sm', 'bg-yellow-100'];
+const HIGHLIGHT_MS = 2000;
+
+interface MessageSourcesProps {
+  message: {
+    references?: MessageReference[] | null;
+    indexes?: string[] | null;
+    sources?: string | null;
+  };
+  /** Rendered answer, searched for the citation markers of a source */
+  answerRef: RefObject<HTMLDivElement | null>;
+}
+
+/**
+ * Briefly highlights every citation marker of a source in the answer
+ */
+function highlightCitations(answer: HTMLElement | null, entry: SourceEntry) {
+  if (!answer) return;
+  const markers = Array.from(answer.querySelectorAll<HTMLAnchorElement>('a[href]')).filter(
+    (anchor) => anchor.getAttribute('href') === entry.href && !anchor.closest('[data-message-sources]')
+  );
+  if (markers.length === 0) return;
+
+  markers[0].scrollIntoView({ behavior: 'smooth', block: 'center' });
+  markers.forEach((marker) => marker.classList.add(...HIGHLIGHT_CLASSES));
+  setTimeout(() => markers.forEach((marker) => marker.classList.remove(...HIGHLIGHT_CLASSES)), HIGHLIGHT_MS);
+}
+
+/**
+ * Collapsible list of the references of an assistant message, with their title,
+ * corpus/index and a preview of the cited passage
+ */
+function PureMessageSources({ message, answerRef }: MessageSourcesProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { references, indexes, sources } = message;
+  const entries = useMemo(() => buildSourceEntries({ references, indexes, sources }), [references, indexes, sources]);
+
+  if (entries.length === 0) return null;
+
+  // Searched indexes that could not be attributed to single references
+  const unattributedIndexes = entries.some((entry) => entry.index) ? [] : indexes || [];
+
+  return (
+    <div className="w-full max-w-xl mt-1" data-message-sources>
+      <button
+        className="inline-flex items-center gap-1.5 py-1 text-sm text-[#666] font-medium cursor-pointer"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+      >
+        Sources ({entries.length})
+        {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-1 space-y-2">
+          {unattributedIndexes.length > 0 && (
+            <p className="text-xs text-muted-foreground">Searched: {unattributedIndexes.join(', ')}</p>
+          )}
+          {entries.map((entry) => (
+            <div
+              key={entry.number}
+              role="button"
+              tabIndex={0}
+              title="Show in answer"
+              className="rounded-md border px-3 py-2 text-sm cursor-pointer hover:bg-muted/50"
+              onClick={() => highlightCitations(answerRef.current, entry)}
+              onKeyDown={(event) => {
+                if (event.key === 'Enter' || event.key === ' ') {
+                  event.preventDefault();
+                  highlightCitations(answerRef.current, entry);
+                }
+              }}
+            >
+              <div className="flex items-center gap-2 min-w-0">
+                <span className="shrink-0 rounded-sm bg-[#D1DBFA] px-1.5 text-[10px] font-medium text-blue-800">
+                  {entry.order}
+                </span>
+                {entry.isExternal ? (
+                  <Globe className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                ) : (
+                  <FileText className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                )}
+                <span className="truncate font-medium">{entry.title}</span>
+                <a
+                  href={entry.href}
+                  target="_blank"
+                  rel="noreferrer"
+                  aria-label={`Open ${entry.title}`}
+                  className="ml-auto shrink-0 text-muted-foreground hover:text-foreground"
+                  onClick={(event) => event.stopPropagation()}
+                >
+                  <ExternalLink className="h-3.5 w-3.5" />
+                </a>
+              </div>
+              {entry.index && <p className="mt-0.5 text-xs text-muted-foreground">{entry.index}</p>}
+              {entry.snippet && (
+                <p className="mt-1 text-xs text-[#4b5563] line-clamp-3">{entry.snippet}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export const MessageSources = memo(PureMessageSources);
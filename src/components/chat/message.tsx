@@ -9,6 +9,7 @@
  * Key Features:
  * - Rich text rendering with markdown support
  * - Citation handling and reference linking
+ * - Sources panel listing every reference of an answer
  * - Thought process display for AI reasoning
  * - Message editing capabilities
  * - Typewriter effect for streaming responses
@@ -25,10 +26,11 @@
 
 import cx from "classnames";
 import { motion } from "motion/react";
-import { memo, useState, useEffect, useRef, useMemo, type Dispatch, type SetStateAction } from "react";
+import { memo, useState, useEffect, useRef, useMemo, type Dispatch, type MouseEvent, type SetStateAction } from "react";
 import type { UIBlock } from "../block";
 import { Markdown } from "../markdown";
 import { MessageActions } from "./message-actions";
+import { MessageSources } from "./message-sources";
 import equal from "fast-deep-equal";
 import { cn } from "@/lib/utils";
 import { MessageEditor } from "./message-editor";
@@ -36,7 +38,8 @@ import bot from "../../../public/bot.png";
 import Image from "next/image";
 import DOMPurify from 'dompurify';
 import { ChevronUp, ChevronDown, ChevronRight } from "lucide-react";
-import { getEjentoAccessToken } from "@/cookie";
+import { CITATION_ROUTE, getCitationHref } from "@/lib/citations";
+import { buildSourceEntries, getReferencePage, getReferenceTitle } from "@/lib/references";
 
 /**
  * Message Interface - Structure for chat messages
@@ -50,10 +53,16 @@ interface Message {
   content: string;
   /** Citations and references for assistant responses */
   references?: { number: string; url: string; order: string }[];
+  /** Corpora/indexes searched for the response */
+  indexes?: string[];
+  /** Retrieved passages, listed under their `[n]` reference markers */
+  sources?: string;
   /** Whether this is the current/active chat message */
   currentChat?: boolean;
   /** AI reasoning steps for thought process display */
   reflectionEvents?: string[];
+  /** Set when the stream dropped before the response completed */
+  interrupted?: boolean;
 }
 
 /**
@@ -118,6 +127,8 @@ interface PreviewMessageProps {
   selectedCorpus?: any;
   showRetry: boolean;
   append: (message: any, chatRequestOptions?: any) => Promise<string | null | undefined>;
+  /** Completes an interrupted answer from the thread's history */
+  resume?: (message: any) => Promise<boolean>;
   setIsFinished: Dispatch<SetStateAction<boolean>>;
   streaming: boolean;
   streamContentRef: any;
@@ -155,6 +166,7 @@ const PurePreviewMessage = ({
   messages,
   selectedCorpus,
   append,
+  resume,
   showRetry,
   setIsFinished,
   streaming,
@@ -168,8 +180,37 @@ const PurePreviewMessage = ({
   const [showThoughtProcess, setShowThoughtProcess] = useState(showRetry ? showThoughtProcessTemp : false); // Control thought process visibility
   const [expandedEvents, setExpandedEvents] = useState<{[key: number]: boolean}>({}); // Track which thought events are expanded
   const eventRefs = useRef<{[key: number]: HTMLDivElement | null}>({}); // References for measuring content height
+  const answerRef = useRef<HTMLDivElement>(null); // Rendered answer, for highlighting citation markers
   const maxHeight = 100; // Threshold for showing expand/collapse buttons
 
+  /**
+   * Opens document citations in the block side panel instead of a new tab
+   *
+   * Web references and modified clicks (new tab/window) keep the default behavior.
+   * Captured on the answer so it covers the citation markers and the Sources panel.
+   */
+  const handleCitationClick = (event: MouseEvent<HTMLDivElement>) => {
+    if (event.button !== 0 || event.metaKey || event.ctrlKey || event.shiftKey || event.altKey) return;
+    const anchor = (event.target as HTMLElement).closest<HTMLAnchorElement>("a[href]");
+    const href = anchor?.getAttribute("href");
+    if (!anchor || !href?.startsWith(CITATION_ROUTE)) return;
+
+    event.preventDefault();
+    const entry = buildSourceEntries(message).find((source) => source.href === href);
+    const url = entry?.url ?? "";
+    const title = entry?.title ?? (url ? getReferenceTitle(url) : "Document");
+    const { top, left, width, height } = anchor.getBoundingClientRect();
+
+    setBlock((currentBlock) => ({
+      ...currentBlock,
+      title,
+      isVisible: true,
+      status: "idle",
+      citation: { href, url, title, snippet: entry?.snippet ?? null, page: url ? getReferencePage(url) : null },
+      boundingBox: { top, left, width, height },
+    }));
+  };
+
   // Memoized assistant message object for markdown rendering
   const assistantMessage = useMemo(() => ({ role: "assistant" }), []);
 
@@ -194,18 +235,9 @@ const PurePreviewMessage = ({
       // Find the URL for the reference using the captured number
       const reference = message?.references?.find((x: any) => parseInt(x.number) === parseInt(number));
       const url = reference ? reference.url : '';  // Use an empty string if no reference is found
-      const access_token = getEjentoAccessToken();
       if (!url) return ''
-      if (url?.includes("https://") || url?.includes("www.")) {
-        return `[${reference?.order}](${url})`;  // Replace with formatted reference
-      } else {
-        // if(process.env.NEXT_PUBLIC_SHOW_CITATION == 'true') {
-        //   return `[${reference?.order}](${process.env.NEXT_PUBLIC_CITATION_URL}${encodeURI(url)}?access_token=${access_token})`;  // Replace with formatted reference  // Replace with formatted reference
-        // } 
-        // else {
-          return ``;  // Replace with formatted reference  // Replace with formatted reference
-        // }
-      }
+      // Documents stored in Ejento open through the citation route
+      return `[${reference?.order}](${getCitationHref(url)})`;  // Replace with formatted reference
     });
   }
 
@@ -264,6 +296,14 @@ const PurePreviewMessage = ({
     append(message, true)
   }
 
+  // Interrupted answers: 'resuming' while the history is checked, 'unavailable' if it has no response yet
+  const [resumeState, setResumeState] = useState<"idle" | "resuming" | "unavailable">("idle");
+  const handleContinueClick = async () => {
+    if (!resume || resumeState === "resuming") return;
+    setResumeState("resuming");
+    setResumeState((await resume(message)) ? "idle" : "unavailable");
+  }
+
   const {displayText, isFinished} = useTypewriter(updatedMsg, 20);
 
   useEffect(() => {
@@ -312,6 +352,7 @@ const PurePreviewMessage = ({
       initial={{ y: 5, opacity: 0 }}
       animate={{ y: 0, opacity: 1 }}
       data-role={message.role}
+      data-message-index={index}
     >
       <div
         style={{ maxWidth: '100%' }}
@@ -434,12 +475,38 @@ const PurePreviewMessage = ({
                           onClick={handleRegenerateclick}>Retry</button>
                       </div>
                       :
-                      <div className="answer-chat">
+                      <div className="answer-chat" ref={answerRef} onClickCapture={handleCitationClick}>
                         {(message.role !== 'user' && showRetry && message.currentChat) ? 
-                        (<Markdown message={message}>{isCache ? displayText as string : updatedMsg as string}</Markdown>)
+                        (<Markdown message={message} answerTables>{isCache ? displayText as string : updatedMsg as string}</Markdown>)
                         :
-                        <Markdown message={message}>{updatedMsg as string}</Markdown>
+                        <Markdown message={message} answerTables={message.role !== 'user'}>{updatedMsg as string}</Markdown>
                         }
+                        {message.interrupted && (
+                          <div style={{ backgroundColor: '#fff4e5' }} className="mt-2 px-3 py-2 rounded-xl text-sm">
+                            <span className="pe-1">
+                              {resumeState === "unavailable"
+                                ? "The rest of this response is not available yet."
+                                : "The connection was lost before this response finished."}
+                            </span>
+                            {message.resume && resume && (
+                              <button
+                                className="pe-2"
+                                style={{
+                                  textDecoration: 'underline',
+                                }}
+                                disabled={resumeState === "resuming"}
+                                onClick={handleContinueClick}>{resumeState === "resuming" ? "Continuing..." : "Continue"}</button>
+                            )}
+                            <button
+                              style={{
+                                textDecoration: 'underline',
+                              }}
+                              onClick={handleRegenerateclick}>Regenerate</button>
+                          </div>
+                        )}
+                        {message.role === 'assistant' && (
+                          <MessageSources message={message} answerRef={answerRef} />
+                        )}
                       </div>
                   }
                 </div>
@@ -5,6 +5,7 @@ import { Dispatch, memo, SetStateAction, useEffect, useState } from 'react';
 
 import { Item } from "@/model";
 import { StreamingMessage } from './streaming-messages';
+import { SEARCH_JUMP_EVENT, takeJumpTarget } from '@/lib/chat-search';
 
 
 interface MessagesProps {
@@ -31,6 +32,8 @@ interface MessagesProps {
     message: any,
     chatRequestOptions?: any,
   ) => Promise<string | null | undefined>;
+  /** Completes an interrupted answer from the thread's history (see useChat) */
+  resume?: (message: any) => Promise<boolean>;
   setIsFinished: Dispatch<SetStateAction<boolean>>;
   streaming: boolean;
   streamEvents: any;
@@ -60,6 +63,7 @@ function PureMessages({
   setSelectedCorpus,
   selectedCorpus,
   append,
+  resume,
   setIsFinished,
   streaming,
   streamEvents,
@@ -80,6 +84,29 @@ function PureMessages({
     }
   }, [isLoading, isLoadingResponse]);
 
+  // Jump to a message picked in the sidebar search once it is rendered
+  useEffect(() => {
+    const jumpToMessage = () => {
+      const target = takeJumpTarget(chatId);
+      if (!target) return;
+
+      // Let the scroll-to-bottom above run first
+      setTimeout(() => {
+        const element = document.querySelector<HTMLElement>(
+          `#chat-container [data-message-index="${target.messageIndex}"]`
+        );
+        if (!element) return;
+        element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        element.classList.add('ring-2', 'ring-yellow-400', 'rounded-lg');
+        setTimeout(() => element.classList.remove('ring-2', 'ring-yellow-400', 'rounded-lg'), 2000);
+      }, 100);
+    };
+
+    if (messages.length > 0) jumpToMessage();
+    window.addEventListener(SEARCH_JUMP_EVENT, jumpToMessage);
+    return () => window.removeEventListener(SEARCH_JUMP_EVENT, jumpToMessage);
+  }, [chatId, messages.length]);
+
   const [isTextFieldSelected, setIsTextFieldSelected] = useState(false);
   const [forceComplete, setForceComplete] = useState(false); // State to force complete the animation
   const [showThoughtProcess, setShowThoughtProcess] = useState(false);
@@ -116,6 +143,7 @@ function PureMessages({
           reload={reload}
           isReadonly={isReadonly}
           append={append}
+          resume={resume}
           selectedCorpus={selectedCorpus}
           setIsFinished={setIsFinished}
           isCache={isCache}
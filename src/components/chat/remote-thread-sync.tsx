@@ -0,0 +1,42 @@
+'use client';
+
+import { memo, useEffect, useRef } from 'react';
+import { usePublicAgentSession } from '@/hooks/usePublicAgentSession';
+import { getChangedThreadIds } from '@/lib/storage/change-feed';
+
+interface RemoteThreadSyncProps {
+  threadId: string;
+  /** True while this tab is answering; its own stream saves the result */
+  isBusy: boolean;
+  onThreadChanged: () => void;
+}
+
+/**
+ * PUBLIC_AGENT mode: calls `onThreadChanged` when another tab writes to the open thread,
+ * and when encrypted chats are unlocked (the thread could not be read before)
+ */
+function PureRemoteThreadSync({ threadId, isBusy, onThreadChanged }: RemoteThreadSyncProps) {
+  const { remoteChange, isLocked } = usePublicAgentSession();
+  const latestRef = useRef({ threadId, isBusy, onThreadChanged });
+  latestRef.current = { threadId, isBusy, onThreadChanged };
+  const wasLockedRef = useRef(isLocked);
+
+  useEffect(() => {
+    if (wasLockedRef.current && !isLocked) {
+      latestRef.current.onThreadChanged();
+    }
+    wasLockedRef.current = isLocked;
+  }, [isLocked]);
+
+  useEffect(() => {
+    const { threadId, isBusy, onThreadChanged } = latestRef.current;
+    if (!remoteChange || isBusy) return;
+    if (getChangedThreadIds(remoteChange.change).includes(threadId)) {
+      onThreadChanged();
+    }
+  }, [remoteChange]);
+
+  return null;
+}
+
+export const RemoteThreadSync = memo(PureRemoteThreadSync);
@@ -170,7 +170,7 @@ export function StreamingMessage({
               style={{ maxWidth: '100%', textWrap: 'wrap', wordBreak: 'break-word' }}
             >
               <div className="answer-chat">
-                <Markdown message={{ role: "assistant" }}>{streamContentRef.current}</Markdown>
+                <Markdown message={{ role: "assistant" }} answerTables>{streamContentRef.current}</Markdown>
               </div>
             </div>
           </div>
@@ -0,0 +1,244 @@
+'use client';
+
+/**
+ * CITATION VIEWER - In-app preview of a cited document, shown in the Block side panel
+ *
+ * Documents are loaded through the citation route and shown by type: PDFs in the
+ * browser's PDF viewer at the cited page, markdown rendered and HTML shown (both
+ * sanitized), and other text as is. For text, markdown and HTML the retrieved passage is highlighted and
+ * scrolled into view; for PDFs it is shown above the document.
+ *
+ * When the route redirects to another host (e.g. signed storage URLs), the document
+ * can't be read from here: it is framed instead, with a link to open it in a new tab.
+ * The passage is highlighted with the CSS Custom Highlight API, so the rendered
+ * document, which React owns, is never modified.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import DOMPurify from 'dompurify';
+import { Loader2 } from 'lucide-react';
+import { Markdown } from './markdown';
+import type { BlockCitation } from './block';
+
+type Preview =
+  | { kind: 'pdf'; objectUrl: string }
+  | { kind: 'markdown'; text: string }
+  | { kind: 'html'; html: string }
+  | { kind: 'text'; text: string }
+  | { kind: 'external' }
+  | { kind: 'unsupported' };
+
+/** Passages shorter than this match too many places to be worth highlighting */
+const MIN_MATCH_CHARS = 12;
+/** Only the start of a long passage is matched; the rest may be cut or reformatted */
+const MAX_MATCH_CHARS = 160;
+
+/** Styled by `::highlight(citation-passage)` in globals.css */
+const HIGHLIGHT_NAME = 'citation-passage';
+
+function getPreviewKind(contentType: string, url: string): Preview['kind'] {
+  const path = url.split(/[?#]/)[0].toLowerCase();
+  if (contentType.includes('application/pdf') || path.endsWith('.pdf')) return 'pdf';
+  if (contentType.includes('text/markdown') || path.endsWith('.md')) return 'markdown';
+  if (contentType.includes('text/html') || path.endsWith('.html') || path.endsWith('.htm')) return 'html';
+  if (contentType.startsWith('text/') || contentType.includes('application/json') || path.endsWith('.txt')) {
+    return 'text';
+  }
+  return 'unsupported';
+}
+
+async function loadPreview(href: string, url: string): Promise<Preview> {
+  // The route only redirects off-origin, where CORS would block reading the document
+  const response = await fetch(href, { redirect: 'manual' });
+  if (response.type === 'opaqueredirect') {
+    return { kind: 'external' };
+  }
+  if (!response.ok) {
+    throw new Error(response.status === 404 || response.status === 403 ? 'not-found' : 'failed');
+  }
+
+  const kind = getPreviewKind(response.headers.get('content-type') || '', url);
+  switch (kind) {
+    case 'pdf':
+      return { kind, objectUrl: URL.createObjectURL(await response.blob()) };
+    case 'html':
+      return { kind, html: DOMPurify.sanitize(await response.text()) };
+    case 'markdown':
+      // Markdown is rendered with raw HTML enabled, so it is sanitized like message text
+      return { kind, text: DOMPurify.sanitize(await response.text()) };
+    case 'text':
+      return { kind, text: await response.text() };
+    default:
+      return { kind: 'unsupported' };
+  }
+}
+
+/**
+ * Finds the first occurrence of `passage` in the container's text, ignoring case and
+ * differences in whitespace
+ *
+ * @returns A range over the passage, or null when it was not found
+ */
+function findPassage(container: HTMLElement, passage: string): Range | null {
+  const needle = passage.replace(/…$/, '').replace(/\s+/g, ' ').trim().toLowerCase().slice(0, MAX_MATCH_CHARS);
+  if (needle.length < MIN_MATCH_CHARS) return null;
+
+  // Flattened text with one position per character, whitespace runs collapsed to one space
+  let flat = '';
+  const positions: { node: Text; offset: number }[] = [];
+  let lastWasSpace = true;
+  const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+    for (let offset = 0; offset < node.data.length; offset++) {
+      const isSpace = /\s/.test(node.data[offset]);
+      if (isSpace && lastWasSpace) continue;
+      flat += isSpace ? ' ' : node.data[offset].toLowerCase();
+      positions.push({ node, offset });
+      lastWasSpace = isSpace;
+    }
+  }
+
+  const start = flat.indexOf(needle);
+  if (start === -1) return null;
+
+  // The match may span several text nodes (e.g. across formatting); a range can too
+  const first = positions[start];
+  const last = positions[start + needle.length - 1];
+  const range = document.createRange();
+  range.setStart(first.node, first.offset);
+  range.setEnd(last.node, last.offset + 1);
+  return range;
+}
+
+export function CitationViewer({ citation }: { citation: BlockCitation }) {
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [passageFound, setPassageFound] = useState<boolean | null>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    setPreview(null);
+    setError(null);
+    setPassageFound(null);
+
+    loadPreview(citation.href, citation.url)
+      .then((loaded) => {
+        if (loaded.kind === 'pdf') objectUrl = loaded.objectUrl;
+        if (cancelled) {
+          if (objectUrl) URL.revokeObjectURL(objectUrl);
+          return;
+        }
+        setPreview(loaded);
+      })
+      .catch((loadError) => {
+        console.error('Error loading cited document:', loadError);
+        if (!cancelled) {
+          setError(
+            loadError.message === 'not-found' ? 'This document is not available.' : 'The document could not be loaded.'
+          );
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [citation.href, citation.url]);
+
+  useEffect(() => {
+    if (!preview || preview.kind === 'pdf' || preview.kind === 'external' || preview.kind === 'unsupported') return;
+    if (!contentRef.current || !citation.snippet) return;
+
+    const range = findPassage(contentRef.current, citation.snippet);
+    // Without the Highlight API the passage is shown above the document instead
+    const canHighlight = typeof CSS !== 'undefined' && 'highlights' in CSS;
+    if (range && canHighlight) {
+      CSS.highlights.set(HIGHLIGHT_NAME, new Highlight(range));
+    }
+    setPassageFound(!!range && canHighlight);
+    range?.startContainer.parentElement?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+    return () => {
+      if (canHighlight) CSS.highlights.delete(HIGHLIGHT_NAME);
+    };
+  }, [preview, citation.snippet]);
+
+  if (error) {
+    return <div className="p-8 text-sm text-muted-foreground">{error}</div>;
+  }
+
+  if (!preview) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  const isFramed = preview.kind === 'pdf' || preview.kind === 'external';
+  const passage = citation.snippet && (isFramed || passageFound === false) && (
+    <div className="mx-4 mb-4 rounded-md border-l-4 border-yellow-400 bg-yellow-50 dark:bg-yellow-900/30 px-3 py-2 text-sm">
+      <p className="text-xs font-medium text-muted-foreground mb-1">
+        Cited passage{isFramed && citation.page ? ` (page ${citation.page})` : ''}
+      </p>
+      <p>{citation.snippet}</p>
+    </div>
+  );
+
+  if (preview.kind === 'pdf') {
+    return (
+      <div className="flex flex-col h-full">
+        {passage}
+        <iframe
+          title={citation.title}
+          src={citation.page ? `${preview.objectUrl}#page=${citation.page}` : preview.objectUrl}
+          className="w-full flex-1 border-0"
+        />
+      </div>
+    );
+  }
+
+  if (preview.kind === 'external') {
+    return (
+      <div className="flex flex-col h-full">
+        {passage}
+        <p className="mx-4 mb-2 text-xs text-muted-foreground">
+          This document is stored elsewhere. If it does not appear below,{' '}
+          <a href={citation.href} target="_blank" rel="noreferrer" className="text-blue-500 hover:underline">
+            open it in a new tab
+          </a>
+          .
+        </p>
+        <iframe
+          title={citation.title}
+          src={citation.page ? `${citation.href}#page=${citation.page}` : citation.href}
+          className="w-full flex-1 border-0"
+        />
+      </div>
+    );
+  }
+
+  if (preview.kind === 'unsupported') {
+    return (
+      <div className="p-8 text-sm text-muted-foreground">
+        This file type cannot be previewed.{' '}
+        <a href={citation.href} target="_blank" rel="noreferrer" className="text-blue-500 hover:underline">
+          Open it in a new tab
+        </a>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-y-auto">
+      {passage}
+      <div ref={contentRef} className="prose dark:prose-invert !max-w-3xl mx-auto px-4 pb-20 md:px-12">
+        {preview.kind === 'markdown' && <Markdown>{preview.text}</Markdown>}
+        {preview.kind === 'html' && <div dangerouslySetInnerHTML={{ __html: preview.html }} />}
+        {preview.kind === 'text' && <pre className="whitespace-pre-wrap text-sm font-sans">{preview.text}</pre>}
+      </div>
+    </div>
+  );
+}
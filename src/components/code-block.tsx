@@ -0,0 +1,62 @@
+'use client';
+
+import { memo, useMemo } from 'react';
+import hljs from 'highlight.js/lib/common';
+import { useCopyToClipboard } from 'usehooks-ts';
+import { toast } from 'sonner';
+import { CopyIcon } from './icons';
+
+/** Longer blocks are shown without highlighting, to keep streaming answers responsive */
+const MAX_HIGHLIGHT_CHARS = 20000;
+
+interface CodeBlockProps {
+  code: string;
+  language: string | null;
+}
+
+/**
+ * Fenced code block with syntax highlighting, a language label and a copy button
+ *
+ * highlight.js escapes the code before wrapping tokens in spans, so its output is safe
+ * to render as HTML. Unknown languages are shown as plain text.
+ */
+function PureCodeBlock({ code, language }: CodeBlockProps) {
+  const [_, copyToClipboard] = useCopyToClipboard();
+
+  const highlighted = useMemo(() => {
+    if (!language || !hljs.getLanguage(language) || code.length > MAX_HIGHLIGHT_CHARS) return null;
+    try {
+      return hljs.highlight(code, { language, ignoreIllegals: true }).value;
+    } catch {
+      return null;
+    }
+  }, [code, language]);
+
+  return (
+    <div className="not-prose my-2 w-[80dvw] md:max-w-[500px] rounded-lg bg-zinc-100 dark:bg-zinc-800 text-sm">
+      <div className="flex items-center justify-between px-3 pt-2 text-xs text-muted-foreground">
+        <span>{language || 'text'}</span>
+        <button
+          type="button"
+          className="inline-flex items-center gap-1 hover:text-foreground"
+          onClick={async () => {
+            await copyToClipboard(code);
+            toast.success('Copied to clipboard!');
+          }}
+        >
+          <CopyIcon size={14} />
+          Copy
+        </button>
+      </div>
+      <pre className="overflow-x-auto p-3">
+        {highlighted !== null ? (
+          <code className={`hljs language-${language}`} dangerouslySetInnerHTML={{ __html: highlighted }} />
+        ) : (
+          <code>{code}</code>
+        )}
+      </pre>
+    </div>
+  );
+}
+
+export const CodeBlock = memo(PureCodeBlock);
@@ -122,6 +122,8 @@ function PureDocumentToolCall({
         setBlock((currentBlock) => ({
           ...currentBlock,
           isVisible: true,
+          // A cited document left open would hide this one
+          citation: undefined,
           boundingBox,
         }));
       }}
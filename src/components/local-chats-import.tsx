@@ -0,0 +1,120 @@
+'use client';
+
+/**
+ * LOCAL CHATS IMPORT - Copies chats from an earlier public agent session into the account
+ *
+ * Shown in the sidebar footer (configured mode only) when this browser still holds
+ * chats from a PUBLIC_AGENT session that are not in the signed-in account yet.
+ */
+
+import { useEffect, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { SidebarMenu, SidebarMenuButton, SidebarMenuItem } from '@/components/ui/sidebar';
+import { useConfig } from '@/app/context/ConfigContext';
+import { useApiService } from '@/hooks/useApiService';
+import { getUserFromStorage } from '@/cookie';
+import {
+  AccountSyncProgress,
+  getLocalThreadsToSync,
+  SyncAccount,
+  syncLocalThreadsToAccount,
+} from '@/lib/storage/account-sync';
+
+export function LocalChatsImport({ onImported }: { onImported: () => void }) {
+  const { config } = useConfig();
+  const apiService = useApiService();
+  const [pendingCount, setPendingCount] = useState(0);
+  const [showDialog, setShowDialog] = useState(false);
+  const [progress, setProgress] = useState<AccountSyncProgress | null>(null);
+
+  const user = getUserFromStorage();
+  const email: string | undefined = config?.userInfo?.email || user?.email || user?.data?.email;
+  const account: SyncAccount | null = config?.agentId && email ? { agentId: config.agentId, email } : null;
+
+  useEffect(() => {
+    if (!config?.agentId || !email) return;
+
+    let cancelled = false;
+    getLocalThreadsToSync({ agentId: config.agentId, email })
+      .then((threads) => {
+        if (!cancelled) setPendingCount(threads.length);
+      })
+      .catch((error) => console.error('Error looking for local chats:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [config?.agentId, email]);
+
+  const handleImport = async () => {
+    if (!apiService || !account) return;
+
+    try {
+      const result = await syncLocalThreadsToAccount(apiService, account, setProgress);
+      if (result.failed > 0) {
+        toast.error(
+          `Imported ${result.synced} chat${result.synced === 1 ? '' : 's'}; ${result.failed} failed and will be retried next time.`
+        );
+      } else {
+        toast.success(`Imported ${result.synced} chat${result.synced === 1 ? '' : 's'} into your account`);
+      }
+      setPendingCount(result.failed);
+      onImported();
+    } catch (error) {
+      console.error('Error importing local chats:', error);
+      toast.error('Failed to import local chats');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  if (pendingCount === 0 || !account) return null;
+
+  return (
+    <>
+      <SidebarMenu>
+        <SidebarMenuItem>
+          <SidebarMenuButton
+            className="h-10"
+            disabled={progress !== null}
+            onClick={() => setShowDialog(true)}
+          >
+            <Upload className="h-4 w-4" />
+            <span className="truncate">
+              {progress
+                ? `Importing ${progress.current} of ${progress.total}...`
+                : `Import ${pendingCount} local chat${pendingCount === 1 ? '' : 's'}`}
+            </span>
+          </SidebarMenuButton>
+        </SidebarMenuItem>
+      </SidebarMenu>
+
+      <AlertDialog open={showDialog} onOpenChange={setShowDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Import chats from this browser?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingCount} chat{pendingCount === 1 ? ' was' : 's were'} started here without an account.
+              Importing adds {pendingCount === 1 ? 'it' : 'them'} to your chat history for this agent. Each
+              question is asked again, so answers may differ from the ones you saw. The local copies are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Not now</AlertDialogCancel>
+            <AlertDialogAction onClick={handleImport} className="button">Import</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+/**
+ * LOCAL CHATS UNLOCK - Passphrase prompt for encrypted local chats (PUBLIC_AGENT mode)
+ *
+ * With NEXT_PUBLIC_AGENT_LOCAL_ENCRYPTION=passphrase, chats stored in this browser can
+ * only be read after the passphrase is entered, once per tab. The first passphrase
+ * entered in a browser becomes its passphrase.
+ */
+
+import { useEffect, useState } from 'react';
+import { Lock } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { usePublicAgentSession } from '@/hooks/usePublicAgentSession';
+import { isPublicAgentMode } from '@/lib/storage/indexeddb';
+import { hasPassphrase } from '@/lib/storage/encryption-keys';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export function LocalChatsUnlock() {
+  if (!isPublicAgentMode()) return null;
+  return <LocalChatsUnlockDialog />;
+}
+
+function LocalChatsUnlockDialog() {
+  const { isLocked, unlock, resetLockedChats } = usePublicAgentSession();
+  const [isNewPassphrase, setIsNewPassphrase] = useState<boolean | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [confirmReset, setConfirmReset] = useState(false);
+
+  useEffect(() => {
+    if (!isLocked) return;
+    hasPassphrase()
+      .then((exists) => setIsNewPassphrase(!exists))
+      .catch(() => setIsNewPassphrase(false));
+  }, [isLocked]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+
+    if (isNewPassphrase) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError('The passphrases do not match.');
+        return;
+      }
+    }
+
+    setIsUnlocking(true);
+    try {
+      if (await unlock(passphrase)) {
+        setPassphrase('');
+        setConfirmation('');
+      } else {
+        setError('Wrong passphrase.');
+      }
+    } catch (unlockError) {
+      console.error('Error unlocking local chats:', unlockError);
+      setError('Could not unlock your chats.');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      await resetLockedChats();
+      setConfirmReset(false);
+      setIsNewPassphrase(true);
+      setError(null);
+      toast.success('Local chats deleted. Choose a new passphrase.');
+    } catch (resetError) {
+      console.error('Error deleting local chats:', resetError);
+      toast.error('Failed to delete local chats');
+    }
+  };
+
+  if (!isLocked || isNewPassphrase === null) return null;
+
+  return (
+    <Dialog open={true}>
+      <DialogContent
+        className="max-w-sm [&>button]:hidden"
+        onEscapeKeyDown={(event) => event.preventDefault()}
+        onPointerDownOutside={(event) => event.preventDefault()}
+      >
+        <DialogTitle className="flex items-center gap-2">
+          <Lock className="h-4 w-4" />
+          {isNewPassphrase ? 'Protect your chats' : 'Unlock your chats'}
+        </DialogTitle>
+        <DialogDescription>
+          {isNewPassphrase
+            ? 'Chats are saved encrypted in this browser. Choose a passphrase; you will need it to read them again.'
+            : 'Enter your passphrase to read the chats saved in this browser.'}
+        </DialogDescription>
+        {confirmReset ? (
+          <div className="space-y-4">
+            <p className="text-sm text-destructive">
+              Without the passphrase the saved chats cannot be recovered. Delete them and start over?
+            </p>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setConfirmReset(false)}>
+                Cancel
+              </Button>
+              <Button type="button" variant="destructive" onClick={handleReset}>
+                Delete chats
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <Input
+              autoFocus
+              type="password"
+              value={passphrase}
+              placeholder="Passphrase"
+              aria-label="Passphrase"
+              onChange={(e) => setPassphrase(e.target.value)}
+            />
+            {isNewPassphrase && (
+              <Input
+                type="password"
+                value={confirmation}
+                placeholder="Repeat passphrase"
+                aria-label="Repeat passphrase"
+                onChange={(e) => setConfirmation(e.target.value)}
+              />
+            )}
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <DialogFooter className="gap-2 sm:justify-between">
+              {!isNewPassphrase && (
+                <Button type="button" variant="ghost" onClick={() => setConfirmReset(true)}>
+                  Forgot passphrase?
+                </Button>
+              )}
+              <Button type="submit" disabled={!passphrase || isUnlocking}>
+                {isUnlocking ? 'Unlocking...' : isNewPassphrase ? 'Save passphrase' : 'Unlock'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
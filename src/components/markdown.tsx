@@ -3,8 +3,13 @@ import React, { memo, useEffect } from "react";
 import ReactMarkdown, { type Components } from "react-markdown";
 import remarkGfm from "remark-gfm";
 import rehypeRaw from 'rehype-raw'
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
 import he from 'he';
-import { getEjentoAccessToken } from "@/cookie";
+import { getCitationHref, isExternalReference } from "@/lib/citations";
+import { AnswerTable } from "./answer-table";
+import { CodeBlock } from "./code-block";
+import { MermaidDiagram } from "./mermaid-diagram";
 const handleCitationDownload = (filePath: string) => {
   if (
     filePath &&
@@ -31,24 +36,52 @@ const handleDownload = (func: any) => {
   handleCitationDownload(func.slice(24, -2));
 };
 
+// Fenced code and inline code spans, which are left untouched by escapeCurrencyDollars
+const CODE_PATTERN = /(```[\s\S]*?(?:```|$)|`[^`\n]*`)/g;
+
+/**
+ * Escapes dollar signs used for amounts ("$5", "$1,200.50 each") so remark-math does not
+ * read the text between two amounts as math. `$x$`, `$2^n$` and `$$...$$` stay math.
+ */
+function escapeCurrencyDollars(text: string) {
+  return text
+    .split(CODE_PATTERN)
+    .map((part, index) =>
+      index % 2 === 1
+        ? part
+        : part.replace(/(^|[^\\$])\$(?=\d[\d,]*(?:\.\d+)?(?:[kKmMbB]|bn)?(?:[\s.,;:!?)]|$))/gm, "$1\\$")
+    )
+    .join("");
+}
+
 const NonMemoizedMarkdown = ({
   children,
   message,
+  answerTables = false,
 }: {
   children: string;
   message?: any;
+  /** Render tables with sorting, filtering and export (answer bodies only, not reflections) */
+  answerTables?: boolean;
 }) => {
   // const { message } = props;
   // useEffect(() => {
   //   console.log("message123", message);
   // }, [message]);
-  const access_token = getEjentoAccessToken();
   function extractNumberFromUrl(url: string) {
     const match = url?.match(/fn-(\d+)%5E/);
     return match ? parseInt(match[1], 10) : null;
   }
   const components: Partial<Components> = {
     table : ({node, children, ...props}) => {
+      // Answers get sorting, filtering and export; other markdown renders plain tables
+      if (answerTables) {
+        return (
+          <AnswerTable node={node} {...props}>
+            {children}
+          </AnswerTable>
+        );
+      }
       return (
         <div className="overflow-x-auto min-w-[600px] max-w-[730px]">
           <table className="w-full table-auto styled-table" {...props}>
@@ -57,15 +90,18 @@ const NonMemoizedMarkdown = ({
         </div>
       )
     },
+    // Code blocks render their own <pre>, see `code`
+    pre: ({ children }) => <>{children}</>,
     code: ({ node, inline, className, children, ...props }) => {
-      const match = /language-(\w+)/.exec(className || "");
-      return !inline && match ? (
-        <pre
-          {...props}
-          className={`${className} text-sm w-[80dvw] md:max-w-[500px] overflow-x-scroll bg-zinc-100 p-3 rounded-lg mt-2 dark:bg-zinc-800`}
-        >
-          <code className={match[1]}>{children}</code>
-        </pre>
+      const match = /language-([\w+#-]+)/.exec(className || "");
+      const code = String(children ?? "").replace(/\n$/, "");
+      // Fenced blocks have a language or span several lines; inline code does not
+      const isBlock = !inline && (match || code.includes("\n"));
+      if (isBlock && match?.[1] === "mermaid") {
+        return <MermaidDiagram code={code} />;
+      }
+      return isBlock ? (
+        <CodeBlock code={code} language={match ? match[1] : null} />
       ) : (
         <code
           className={`${className} text-sm bg-zinc-100 dark:bg-zinc-800 py-0.5 px-1 rounded-md`}
@@ -151,7 +187,7 @@ const NonMemoizedMarkdown = ({
           (x: any) => number == x.number
         )?.url;
 
-        if (numberUrl?.includes("https://") || numberUrl?.includes("www.")) {
+        if (numberUrl && isExternalReference(numberUrl)) {
           // node.children?.at(0)?.properties?.href = `${process.env.NEXT_PUBLIC_CITATION_URL}${numberUrl}`
           return (
             <a
@@ -165,7 +201,7 @@ const NonMemoizedMarkdown = ({
         } else {
           return  (
             <a
-              href={`${''}${numberUrl}?access_token=${access_token}`}
+              href={numberUrl ? getCitationHref(numberUrl) : undefined}
               target="_blank"
               className="text-blue-900 hover:underline"
             >
@@ -179,15 +215,7 @@ const NonMemoizedMarkdown = ({
           (x: any) =>
             parseInt(props?.href?.match(/fn-(\d+)%5E/)[1], 10) == x.number
         )?.url;
-        let fileUrl;
-        if (
-          fileTempUrl?.includes("https://") ||
-          fileTempUrl?.includes("www.")
-        ) {
-          fileUrl = fileTempUrl;
-        } else {
-          fileUrl = '' + fileTempUrl + `?access_token=${access_token}`;
-        }
+        const fileUrl = fileTempUrl ? getCitationHref(fileTempUrl) : undefined;
         return (
           <a
             href={fileUrl}
@@ -309,7 +337,7 @@ const NonMemoizedMarkdown = ({
                   className="text-blue-500 hover:underline"
                   target="_blank"
                   rel="noreferrer"
-                  href={`${''}${props?.href}?access_token=${access_token}`}
+                  href={props?.href ? getCitationHref(props.href) : undefined}
                   // {...props}
                 >
                   {children}
@@ -419,8 +447,12 @@ const NonMemoizedMarkdown = ({
   };
 
   return (
-    <ReactMarkdown rehypePlugins={[rehypeRaw]} remarkPlugins={[remarkGfm]} components={components}>
-      {he?.decode(children)}
+    <ReactMarkdown
+      rehypePlugins={[rehypeRaw, [rehypeKatex, { throwOnError: false, strict: "ignore" }]]}
+      remarkPlugins={[remarkGfm, remarkMath]}
+      components={components}
+    >
+      {escapeCurrencyDollars(he?.decode(children))}
     </ReactMarkdown>
   );
 };
@@ -429,5 +461,6 @@ export const Markdown = memo(
   NonMemoizedMarkdown,
   (prevProps, nextProps) =>
     prevProps.children === nextProps.children &&
-    prevProps.message === nextProps.message
+    prevProps.message === nextProps.message &&
+    prevProps.answerTables === nextProps.answerTables
 );
@@ -0,0 +1,64 @@
+'use client';
+
+import { memo, useEffect, useId, useState } from 'react';
+import DOMPurify from 'dompurify';
+import { useTheme } from 'next-themes';
+import { CodeBlock } from './code-block';
+
+/** Wait for the fence to stop changing (streaming) before rendering */
+const RENDER_DELAY_MS = 300;
+
+/**
+ * Renders a ```mermaid fence as a diagram, falling back to its source when it does not parse
+ *
+ * Mermaid runs with `securityLevel: 'strict'` and plain SVG labels, and the SVG is
+ * sanitized again before it is inserted, so diagram text cannot inject markup. Mermaid
+ * is loaded on first use, as most answers have no diagrams.
+ */
+function PureMermaidDiagram({ code }: { code: string }) {
+  const { resolvedTheme } = useTheme();
+  const renderId = `mermaid-${useId().replace(/[^a-zA-Z0-9-]/g, '')}`;
+  const [svg, setSvg] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const timer = setTimeout(async () => {
+      try {
+        const { default: mermaid } = await import('mermaid');
+        mermaid.initialize({
+          startOnLoad: false,
+          securityLevel: 'strict',
+          htmlLabels: false,
+          suppressErrorRendering: true,
+          theme: resolvedTheme === 'dark' ? 'dark' : 'default',
+        });
+        const result = await mermaid.render(renderId, code);
+        if (cancelled) return;
+        setSvg(DOMPurify.sanitize(result.svg, { USE_PROFILES: { svg: true, svgFilters: true } }));
+        setFailed(false);
+      } catch {
+        if (!cancelled) setFailed(true);
+      }
+    }, RENDER_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [code, renderId, resolvedTheme]);
+
+  if (failed || !svg) {
+    return <CodeBlock code={code} language="mermaid" />;
+  }
+
+  return (
+    <div
+      className="not-prose my-2 w-[80dvw] md:max-w-[500px] overflow-x-auto rounded-lg bg-white dark:bg-zinc-800 p-3 [&_svg]:max-w-full [&_svg]:h-auto"
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  );
+}
+
+export const MermaidDiagram = memo(PureMermaidDiagram);
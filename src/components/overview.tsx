@@ -1,17 +1,14 @@
 import { motion } from 'motion/react';
 import { CustomCombobox } from './ui/combobox';
 import { MultimodalInput } from './multimodal-input';
-import { useSearchParams } from 'next/navigation';
-import { decryptData } from '@/lib/utils';
+import { useChatThreadId } from '@/hooks/useChatThreadId';
 import SvgTransition from './chat/logo-animation';
 import { colorSvg, monoSvg } from './icons';
 import StaticLogo from './chat/static-logo';
 
 export const Overview = (props: any) => {
   const { corpus, setSelectedCorpus, selectedCorpus, append, input, setInput, isLoading, messages, isTextFieldSelected, setIsTextFieldSelected, forceComplete, setForceComplete} = props;
-  const searchParams = useSearchParams();
-  const encryptedId = searchParams.get("id");
-  const id = decryptData(encryptedId);
+  const id = useChatThreadId() ?? '';
   return (
     <motion.div
       key="overview"
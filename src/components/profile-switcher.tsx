@@ -0,0 +1,110 @@
+'use client';
+
+/**
+ * PROFILE SWITCHER - Quick switching between saved agent profiles
+ *
+ * Shown in the sidebar header for manual configuration (ENV_DRIVEN=false).
+ * Switching re-validates the profile via /api/config/validate, which also moves
+ * the server-side credentials cookie to it, then reloads the chat so threads
+ * are fetched for the newly selected agent.
+ */
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Check, ChevronsUpDown, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useConfig } from '@/app/context/ConfigContext';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { SidebarMenuButton } from '@/components/ui/sidebar';
+
+export function ProfileSwitcher() {
+  const { profiles, activeProfileId, configSource, switchProfile, deleteProfile } = useConfig();
+  const router = useRouter();
+  const [switchingTo, setSwitchingTo] = useState<string | null>(null);
+
+  if (configSource === 'environment' || profiles.length === 0) {
+    return null;
+  }
+
+  const activeProfile = profiles.find((profile) => profile.id === activeProfileId);
+
+  const handleSwitch = async (profileId: string) => {
+    if (profileId === activeProfileId || switchingTo) return;
+
+    setSwitchingTo(profileId);
+    try {
+      const result = await switchProfile(profileId);
+      if (!result.success) {
+        toast.error(result.message || 'Could not switch profile. Please check its credentials.');
+        return;
+      }
+      // Full reload so no thread or corpus state from the previous agent survives
+      window.location.assign('/chat');
+    } catch (error) {
+      console.error('Error switching profile:', error);
+      toast.error('Could not switch profile. Please try again.');
+    } finally {
+      setSwitchingTo(null);
+    }
+  };
+
+  const handleDelete = (profileId: string, name: string) => {
+    deleteProfile(profileId);
+    toast.success(`Profile "${name}" removed`);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <SidebarMenuButton className="data-[state=open]:bg-sidebar-accent data-[state=open]:text-sidebar-accent-foreground h-9 mt-2">
+          <span className="truncate text-sm">
+            {switchingTo ? 'Switching...' : activeProfile?.name || 'Select profile'}
+          </span>
+          <ChevronsUpDown className="ml-auto h-4 w-4" />
+        </SidebarMenuButton>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent side="bottom" align="start" className="w-[--radix-popper-anchor-width]">
+        <DropdownMenuLabel className="text-xs text-muted-foreground">Agent profiles</DropdownMenuLabel>
+        {profiles.map((profile) => (
+          <DropdownMenuItem
+            key={profile.id}
+            className="cursor-pointer group"
+            disabled={!!switchingTo}
+            onSelect={() => handleSwitch(profile.id)}
+          >
+            <Check className={`h-4 w-4 shrink-0 ${profile.id === activeProfileId ? 'opacity-100' : 'opacity-0'}`} />
+            <div className="flex flex-col min-w-0">
+              <span className="truncate">{profile.name}</span>
+              <span className="truncate text-xs text-muted-foreground">Agent {profile.config.agentId}</span>
+            </div>
+            {profile.id !== activeProfileId && (
+              <button
+                type="button"
+                className="ml-auto p-1 opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-red-600"
+                aria-label={`Remove ${profile.name}`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDelete(profile.id, profile.name);
+                }}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem className="cursor-pointer" onSelect={() => router.push('/settings?profile=new')}>
+          <Plus className="h-4 w-4" />
+          Add profile
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
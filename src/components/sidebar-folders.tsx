@@ -0,0 +1,248 @@
+'use client';
+
+/**
+ * SIDEBAR FOLDERS - Pinned section, folders and drag-and-drop targets for chat history
+ *
+ * Threads are dragged with the native HTML5 drag-and-drop API: dropping on the Pinned
+ * section pins a thread, dropping on a folder moves it there, and dropping on the
+ * date-grouped history takes it out of its folder.
+ */
+
+import { DragEvent, ReactNode, useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, Folder, FolderOpen, Pencil, Trash2 } from 'lucide-react';
+import { MoreHorizontalIcon } from '@/components/icons';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { SidebarGroup, SidebarGroupContent, SidebarMenu } from '@/components/ui/sidebar';
+import { cn } from '@/lib/utils';
+import { SidebarFolder } from '@/lib/sidebar-organization';
+
+/** Drag data type carrying the dragged thread id */
+export const THREAD_DRAG_TYPE = 'application/x-ejento-thread';
+
+export function setThreadDragData(event: DragEvent, threadId: string) {
+  event.dataTransfer.setData(THREAD_DRAG_TYPE, threadId);
+  event.dataTransfer.effectAllowed = 'move';
+}
+
+/**
+ * Drop target for dragged threads; `isOver` drives the highlight
+ */
+export function useThreadDropTarget(onDropThread: (threadId: string) => void) {
+  const [isOver, setIsOver] = useState(false);
+
+  const accepts = (event: DragEvent) => event.dataTransfer.types.includes(THREAD_DRAG_TYPE);
+
+  return {
+    isOver,
+    dropProps: {
+      onDragOver: (event: DragEvent) => {
+        if (!accepts(event)) return;
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'move';
+        setIsOver(true);
+      },
+      onDragLeave: (event: DragEvent) => {
+        // Ignore leaving into a child element
+        if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+          setIsOver(false);
+        }
+      },
+      onDrop: (event: DragEvent) => {
+        setIsOver(false);
+        const threadId = event.dataTransfer.getData(THREAD_DRAG_TYPE);
+        if (!threadId) return;
+        event.preventDefault();
+        onDropThread(threadId);
+      },
+    },
+  };
+}
+
+const dropHighlight = 'rounded-md ring-2 ring-sidebar-ring bg-sidebar-accent/50';
+
+/**
+ * Drop zone wrapping a block of the sidebar (Pinned section, date-grouped history)
+ */
+export function ThreadDropZone({
+  onDropThread,
+  className,
+  children,
+}: {
+  onDropThread: (threadId: string) => void;
+  className?: string;
+  children: ReactNode;
+}) {
+  const { isOver, dropProps } = useThreadDropTarget(onDropThread);
+  return (
+    <div {...dropProps} className={cn(className, isOver && dropHighlight)}>
+      {children}
+    </div>
+  );
+}
+
+export function FolderSection({
+  folder,
+  threadCount,
+  onToggle,
+  onRename,
+  onDelete,
+  onDropThread,
+  children,
+}: {
+  folder: SidebarFolder;
+  threadCount: number;
+  onToggle: () => void;
+  onRename: () => void;
+  onDelete: () => void;
+  onDropThread: (threadId: string) => void;
+  children: ReactNode;
+}) {
+  const { isOver, dropProps } = useThreadDropTarget(onDropThread);
+  const Chevron = folder.collapsed ? ChevronRight : ChevronDown;
+  const FolderIcon = folder.collapsed ? Folder : FolderOpen;
+
+  return (
+    <div {...dropProps} className={cn(isOver && dropHighlight)}>
+      <div className="group/folder flex items-center gap-1 rounded-md px-2 py-1 text-xs text-sidebar-foreground/70 hover:bg-sidebar-accent">
+        <button
+          type="button"
+          className="flex flex-1 min-w-0 items-center gap-1 text-left"
+          aria-expanded={!folder.collapsed}
+          onClick={onToggle}
+        >
+          <Chevron className="h-3 w-3 shrink-0" />
+          <FolderIcon className="h-3.5 w-3.5 shrink-0" />
+          <span className="truncate font-medium">{folder.name}</span>
+          <span className="shrink-0 text-sidebar-foreground/50">{threadCount}</span>
+        </button>
+        <DropdownMenu modal={true}>
+          <DropdownMenuTrigger asChild>
+            <button
+              type="button"
+              className="p-0.5 opacity-0 group-hover/folder:opacity-100 data-[state=open]:opacity-100"
+              aria-label={`Folder options for ${folder.name}`}
+            >
+              <MoreHorizontalIcon />
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent side="bottom" align="end">
+            <DropdownMenuItem className="cursor-pointer" onSelect={onRename}>
+              <Pencil className="h-4 w-4" />
+              <span>Rename</span>
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              className="cursor-pointer text-destructive focus:bg-destructive/15 focus:text-destructive dark:text-red-500"
+              onSelect={onDelete}
+            >
+              <Trash2 className="h-4 w-4" />
+              <span>Delete folder</span>
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+      {!folder.collapsed && (
+        <div className="pl-3">
+          {threadCount === 0 ? (
+            <div className="px-2 py-1 text-xs text-sidebar-foreground/50">Drag chats here</div>
+          ) : (
+            children
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Labelled sidebar group used for the Pinned and Folders sections
+ */
+export function OrganizedSection({ label, action, children }: { label: string; action?: ReactNode; children: ReactNode }) {
+  return (
+    <SidebarGroup>
+      <SidebarGroupContent>
+        <SidebarMenu>
+          <div>
+            <div className="flex items-center justify-between px-2 py-1 text-xs text-sidebar-foreground/50">
+              <span>{label}</span>
+              {action}
+            </div>
+            {children}
+          </div>
+        </SidebarMenu>
+      </SidebarGroupContent>
+    </SidebarGroup>
+  );
+}
+
+/**
+ * Dialog asking for a folder name, used to create and rename folders
+ */
+export function FolderNameDialog({
+  open,
+  title,
+  initialName = '',
+  submitLabel,
+  onSubmit,
+  onOpenChange,
+}: {
+  open: boolean;
+  title: string;
+  initialName?: string;
+  submitLabel: string;
+  onSubmit: (name: string) => void;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [name, setName] = useState(initialName);
+
+  useEffect(() => {
+    if (open) setName(initialName);
+  }, [open, initialName]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+    onSubmit(name.trim());
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogTitle>{title}</DialogTitle>
+        <DialogDescription>Folders are saved in this browser only.</DialogDescription>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input
+            autoFocus
+            value={name}
+            maxLength={60}
+            placeholder="Folder name"
+            aria-label="Folder name"
+            onChange={(e) => setName(e.target.value)}
+          />
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim()}>
+              {submitLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
-import { useSearchParams } from 'next/navigation';
-import { useEffect, useState, useRef } from 'react';
+import { useEffect, useMemo, useState, useRef } from 'react';
 import { toast } from 'sonner';
+import { Download, FileText, FolderInput, FolderMinus, FolderPlus, Pin, PinOff } from 'lucide-react';
 
 import {
   MoreHorizontalIcon,
@@ -22,6 +22,10 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import {
@@ -34,11 +38,24 @@ import {
   useSidebar,
 } from '@/components/ui/sidebar';
 import { useApiService } from '@/hooks/useApiService';
+import { useChatThreadId } from '@/hooks/useChatThreadId';
 import { ChatThreadResponse } from '@/model';
-import { decryptData, handleSetQueryParams } from '@/lib/utils';
+import { clearActiveThreadId, setActiveThreadId, showChatThread } from '@/lib/utils';
 import { getAccessToken, getUserFromStorage } from '@/cookie';
 import { isPublicAgentMode } from '@/lib/storage/indexeddb';
+import { LocalStorageLockedError } from '@/lib/storage/encryption';
 import { usePublicAgentSession } from '@/hooks/usePublicAgentSession';
+import { exportTranscript } from '@/components/transcript-menu';
+import {
+  FolderNameDialog,
+  FolderSection,
+  OrganizedSection,
+  setThreadDragData,
+  ThreadDropZone,
+} from '@/components/sidebar-folders';
+import { SidebarOrganizationControls } from '@/hooks/useSidebarOrganization';
+import { useVirtualList } from '@/hooks/use-virtual-list';
+import { getThreadFolderId, isThreadPinned, SidebarFolder } from '@/lib/sidebar-organization';
 
 interface props {
   fetchThreads: () => void;
@@ -48,6 +65,12 @@ interface props {
   groupChatsByDate: (chats: ChatThreadResponse[]) => void;
   isLoading: boolean;
   updateChatTitle?: (id: number, title: string) => Promise<void>;
+  sidebarOrganization: SidebarOrganizationControls;
+  // Server thread pagination (configured mode)
+  hasMoreThreads?: boolean;
+  isLoadingMore?: boolean;
+  loadMoreFailed?: boolean;
+  loadMoreThreads?: () => void;
 }
 interface GroupedChats {
   today: ChatThreadResponse[];
@@ -63,7 +86,10 @@ const ChatItem = ({
   onDelete,
   setOpenMobile,
   threads,
-  onEditTitle
+  onEditTitle,
+  onExport,
+  sidebarOrganization,
+  onNewFolder
 }: {
   chat: ChatThreadResponse;
   isActive: boolean;
@@ -71,7 +97,14 @@ const ChatItem = ({
   setOpenMobile: (open: boolean) => void;
   threads: ChatThreadResponse[];
   onEditTitle: (id: number, title: string) => Promise<void>;
+  onExport?: (id: number, format: 'json' | 'md') => void;
+  sidebarOrganization: SidebarOrganizationControls;
+  onNewFolder: (threadId: string) => void;
 }) => {
+  const threadId = chat.id.toString();
+  const { organization } = sidebarOrganization;
+  const isPinned = isThreadPinned(organization, threadId);
+  const folderId = getThreadFolderId(organization, threadId);
   const [isEditing, setIsEditing] = useState(false);
   const [editedTitle, setEditedTitle] = useState(chat.title);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -142,7 +175,10 @@ const ChatItem = ({
   }, [isEditing, editedTitle]);
 
   return (
-    <SidebarMenuItem>
+    <SidebarMenuItem
+      draggable={!isEditing}
+      onDragStart={(e) => setThreadDragData(e, threadId)}
+    >
       <SidebarMenuButton asChild isActive={isActive} style={{ cursor: 'pointer' }}>
         {isEditing ? (
           <input
@@ -167,8 +203,8 @@ const ChatItem = ({
               display: 'inline-block', // Ensure inline-block for proper ellipsis
             }}
             onClick={() => {
-              handleSetQueryParams(chat.id.toString(), document.getElementById(chat.id.toString())!.innerText);
-              localStorage.setItem('active_thread_id', chat.id.toString())
+              showChatThread(chat.id.toString());
+              setActiveThreadId(chat.id.toString())
               setOpenMobile(false);
             }}
           >
@@ -203,6 +239,63 @@ const ChatItem = ({
             <PenIcon />
             <span>Edit</span>
           </DropdownMenuItem>
+          <DropdownMenuItem
+            className="cursor-pointer focus:bg-accent/50"
+            onSelect={() => sidebarOrganization.togglePin(threadId)}
+          >
+            {isPinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+            <span>{isPinned ? 'Unpin' : 'Pin'}</span>
+          </DropdownMenuItem>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger className="cursor-pointer focus:bg-accent/50">
+              <FolderInput className="h-4 w-4" />
+              <span>Move to folder</span>
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {organization.folders.map((folder) => (
+                <DropdownMenuItem
+                  key={folder.id}
+                  className="cursor-pointer"
+                  disabled={folder.id === folderId}
+                  onSelect={() => sidebarOrganization.moveToFolder(threadId, folder.id)}
+                >
+                  <span className="truncate max-w-48">{folder.name}</span>
+                </DropdownMenuItem>
+              ))}
+              {organization.folders.length > 0 && <DropdownMenuSeparator />}
+              <DropdownMenuItem className="cursor-pointer" onSelect={() => onNewFolder(threadId)}>
+                <FolderPlus className="h-4 w-4" />
+                <span>New folder...</span>
+              </DropdownMenuItem>
+              {folderId && (
+                <DropdownMenuItem
+                  className="cursor-pointer"
+                  onSelect={() => sidebarOrganization.moveToFolder(threadId, null)}
+                >
+                  <FolderMinus className="h-4 w-4" />
+                  <span>Remove from folder</span>
+                </DropdownMenuItem>
+              )}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          {onExport && (
+            <>
+              <DropdownMenuItem
+                className="cursor-pointer focus:bg-accent/50"
+                onSelect={() => onExport(chat.id, 'json')}
+              >
+                <Download className="h-4 w-4" />
+                <span>Export (JSON)</span>
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                className="cursor-pointer focus:bg-accent/50"
+                onSelect={() => onExport(chat.id, 'md')}
+              >
+                <FileText className="h-4 w-4" />
+                <span>Export (Markdown)</span>
+              </DropdownMenuItem>
+            </>
+          )}
           <DropdownMenuItem
             className="cursor-pointer text-destructive focus:bg-destructive/15 focus:text-destructive dark:text-red-500"
             onSelect={() => onDelete(chat.id)}
@@ -219,18 +312,105 @@ const ChatItem = ({
 
 ChatItem.displayName = "PureChatItem";
 
+type HistoryRow =
+  | { type: 'header'; key: string; label: string }
+  | { type: 'chat'; chat: ChatThreadResponse };
+
+// Fixed row heights for the virtualized list (chat rows match SidebarMenuButton's h-8)
+const HEADER_ROW_HEIGHT = 28;
+const CHAT_ROW_HEIGHT = 32;
+
+/**
+ * Date-grouped history, rendering only the rows near the visible part of the sidebar
+ * and loading the next page of threads when the end of the list comes into view
+ */
+const VirtualThreadList = ({
+  rows,
+  renderChatItem,
+  hasMore,
+  isLoadingMore,
+  loadMoreFailed,
+  onLoadMore,
+}: {
+  rows: HistoryRow[];
+  renderChatItem: (chat: ChatThreadResponse) => React.ReactNode;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  loadMoreFailed: boolean;
+  onLoadMore: () => void;
+}) => {
+  // One extra row at the end for the "load more" status
+  const rowHeights = useMemo(
+    () => [
+      ...rows.map((row) => (row.type === 'header' ? HEADER_ROW_HEIGHT : CHAT_ROW_HEIGHT)),
+      ...(hasMore ? [CHAT_ROW_HEIGHT] : []),
+    ],
+    [rows, hasMore]
+  );
+  const { listRef, start, end, paddingTop, paddingBottom } = useVirtualList<HTMLUListElement>({ rowHeights });
 
-export function SidebarHistory({ fetchThreads, threads, groupedChats, setThreads, groupChatsByDate, isLoading, updateChatTitle }: props) {
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  // Infinite scroll: the status row at the end has been rendered, so it is (nearly) in view
+  useEffect(() => {
+    if (hasMore && !isLoadingMore && !loadMoreFailed && end >= rowHeights.length) {
+      onLoadMoreRef.current();
+    }
+  }, [hasMore, isLoadingMore, loadMoreFailed, end, rowHeights.length]);
+
+  if (rowHeights.length === 0) return null;
+
+  return (
+    <SidebarGroup>
+      <SidebarGroupContent>
+        <SidebarMenu ref={listRef} className="gap-0" style={{ paddingTop, paddingBottom }}>
+          {rowHeights.slice(start, end).map((_, offset) => {
+            const index = start + offset;
+            const row = rows[index];
+
+            if (!row) {
+              return (
+                <li key="load-more" className="flex h-8 items-center gap-2 px-2 text-xs text-sidebar-foreground/50">
+                  {loadMoreFailed ? (
+                    <button type="button" className="underline hover:text-sidebar-foreground" onClick={onLoadMore}>
+                      Couldn&apos;t load more chats. Retry
+                    </button>
+                  ) : (
+                    'Loading more chats...'
+                  )}
+                </li>
+              );
+            }
+
+            if (row.type === 'header') {
+              return (
+                <li key={`header-${row.key}`} className="flex h-7 items-end px-2 pb-1 text-xs text-sidebar-foreground/50 capitalize">
+                  {row.label}
+                </li>
+              );
+            }
+
+            return renderChatItem(row.chat);
+          })}
+        </SidebarMenu>
+      </SidebarGroupContent>
+    </SidebarGroup>
+  );
+};
+
+
+export function SidebarHistory({ fetchThreads, threads, groupedChats, setThreads, groupChatsByDate, isLoading, updateChatTitle, sidebarOrganization, hasMoreThreads, isLoadingMore, loadMoreFailed, loadMoreThreads }: props) {
 
   const apiService = useApiService();
   const { setOpenMobile } = useSidebar();
-  const searchParams = useSearchParams()
-  const encryptedId = searchParams.get('id')
-  const id = decryptData(encryptedId)
-  const title_encrypted = searchParams.get('title')
-  const title= decryptData(title_encrypted)
+  const id = useChatThreadId()
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [deleteId, setDeleteId] = useState<number | null>(null);
+  // Folder name dialog: creating (optionally for a thread) or renaming a folder
+  const [folderDialog, setFolderDialog] = useState<
+    { mode: 'create'; threadId?: string } | { mode: 'rename'; folder: SidebarFolder } | null
+  >(null);
   
   // PUBLIC_AGENT mode: Get session context
   const isPublicAgent = isPublicAgentMode();
@@ -252,30 +432,11 @@ export function SidebarHistory({ fetchThreads, threads, groupedChats, setThreads
   }, []);
 
   useEffect(() => {
-    if (title && id) {
-      const updatedThreads = threads.map(thread => {
-        if (thread.id === parseInt(id)) {
-          localStorage.setItem('active_thread_id', thread.id.toString())
-          return {
-            ...thread,
-            title: title,
-          };
-        }
-        return thread;
-      });
-
-      setThreads(updatedThreads)
-      groupChatsByDate(updatedThreads)
-
-    }
-  }, [title])
-
-  useEffect(() => {
-    if (title && id) {
-      const oldThread = threads.filter((thread) => thread.id == id)
-      if (oldThread.length === 0) {
-        fetchThreads()
-      }
+    if (!id) return
+    setActiveThreadId(id)
+    // A thread opened by link, or just created on the server, may not be listed yet
+    if (parseInt(id) > 0 && !isLoading && !threads.some((thread) => thread.id.toString() === id)) {
+      fetchThreads()
     }
   }, [id])
 
@@ -295,6 +456,7 @@ export function SidebarHistory({ fetchThreads, threads, groupedChats, setThreads
         });
 
         await deletePromise;
+        sidebarOrganization.moveToFolder(threadIdString, null);
         
         // Remove the deleted thread from local state
         const updatedThreads = threads.filter(thread => thread.id !== deleteId);
@@ -305,12 +467,12 @@ export function SidebarHistory({ fetchThreads, threads, groupedChats, setThreads
         if (id && deleteId === parseInt(id)) {
           if (updatedThreads.length > 0) {
             // Navigate to the first remaining thread
-            localStorage.setItem('active_thread_id', updatedThreads[0].id.toString());
-            handleSetQueryParams(updatedThreads[0].id.toString(), updatedThreads[0].title);
+            setActiveThreadId(updatedThreads[0].id.toString());
+            showChatThread(updatedThreads[0].id.toString());
           } else {
             // No threads remain after deletion; clear active thread context
-            localStorage.removeItem('active_thread_id');
-            handleSetQueryParams('', '');
+            clearActiveThreadId();
+            showChatThread(null);
           }
         }
       } catch (error) {
@@ -334,6 +496,7 @@ export function SidebarHistory({ fetchThreads, threads, groupedChats, setThreads
       });
 
       const response = await responsePromise;
+      sidebarOrganization.moveToFolder(deleteId.toString(), null);
       
       // Remove the deleted thread from local state
       const updatedThreads = threads.filter(thread => thread.id !== deleteId);
@@ -344,12 +507,12 @@ export function SidebarHistory({ fetchThreads, threads, groupedChats, setThreads
       if (id && deleteId === parseInt(id)) {
         if (updatedThreads.length > 0) {
           // Navigate to the first remaining thread
-          localStorage.setItem('active_thread_id', updatedThreads[0].id.toString());
-          handleSetQueryParams(updatedThreads[0].id.toString(), updatedThreads[0].title);
+          setActiveThreadId(updatedThreads[0].id.toString());
+          showChatThread(updatedThreads[0].id.toString());
         } else {
           // No threads remain after deletion; clear active thread context
-          localStorage.removeItem('active_thread_id');
-          handleSetQueryParams('', '');
+          clearActiveThreadId();
+          showChatThread(null);
         }
       }
     } catch (error) {
@@ -360,6 +523,22 @@ export function SidebarHistory({ fetchThreads, threads, groupedChats, setThreads
     }
   };
 
+  // PUBLIC_AGENT mode: Download a single thread from IndexedDB
+  const handleExport = async (chatId: number, format: 'json' | 'md') => {
+    const thread = publicAgentSession?.threads.find((t) => t.threadId === chatId.toString());
+    if (!thread) {
+      toast.error('This chat has no saved messages to export yet.');
+      return;
+    }
+
+    try {
+      await exportTranscript(format, thread);
+    } catch (error) {
+      console.error('Failed to export chat:', error);
+      toast.error(error instanceof LocalStorageLockedError ? 'Unlock your chats before exporting them.' : 'Failed to export chat');
+    }
+  };
+
   const handleDeleteClick = (chatId: number) => {
     setDeleteId(chatId);
     setShowDeleteDialog(true);
@@ -381,11 +560,6 @@ export function SidebarHistory({ fetchThreads, threads, groupedChats, setThreads
       setThreads(updatedThreads);
       groupChatsByDate(updatedThreads);
       
-      // If this is the active thread, update URL params
-      if (chatId.toString() === id) {
-        handleSetQueryParams(chatId.toString(), newTitle);
-      }
-      
       // Call the parent function to persist the change
       if (updateChatTitle) {
         updateChatTitle(chatId, newTitle);
@@ -397,6 +571,44 @@ export function SidebarHistory({ fetchThreads, threads, groupedChats, setThreads
     }
   };
 
+  // Pinned threads and folders are listed separately from the date groups
+  const { organization } = sidebarOrganization;
+  const threadById = new Map(threads.map((thread) => [thread.id.toString(), thread]));
+  const getThreads = (threadIds: string[]) =>
+    threadIds.map((threadId) => threadById.get(threadId)).filter((thread): thread is ChatThreadResponse => !!thread);
+  const pinnedThreads = getThreads(organization.pinned);
+
+  // Date-grouped threads that are neither pinned nor in a folder, flattened into rows
+  const historyRows = useMemo(() => {
+    const organizedIds = new Set([
+      ...organization.pinned,
+      ...organization.folders.flatMap((folder) => folder.threadIds),
+    ]);
+    return Object.entries(groupedChats).flatMap(([key, groupChats]): HistoryRow[] => {
+      const chats = (groupChats as ChatThreadResponse[]).filter((chat) => !organizedIds.has(chat.id.toString()));
+      if (chats.length === 0) return [];
+      return [
+        { type: 'header', key, label: key.replace(/([A-Z])/g, ' $1') },
+        ...chats.map((chat): HistoryRow => ({ type: 'chat', chat })),
+      ];
+    });
+  }, [groupedChats, organization]);
+
+  const renderChatItem = (chat: ChatThreadResponse) => (
+    <ChatItem
+      threads={threads}
+      key={chat.id}
+      chat={chat}
+      isActive={chat.id.toString() == id}
+      onDelete={handleDeleteClick}
+      setOpenMobile={setOpenMobile}
+      onEditTitle={handleUpdateTitle}
+      onExport={isPublicAgent ? handleExport : undefined}
+      sidebarOrganization={sidebarOrganization}
+      onNewFolder={(threadId) => setFolderDialog({ mode: 'create', threadId })}
+    />
+  );
+
   // Don't render if no config is available (check AFTER all hooks)
   if (!apiService) {
     return null;
@@ -442,38 +654,82 @@ export function SidebarHistory({ fetchThreads, threads, groupedChats, setThreads
         </SidebarGroup>
       ) : (
 
-        Object.entries(groupedChats).map(
-          ([key, chats]) =>
-            chats.length > 0 && (
-              <SidebarGroup key={key}>
-                <SidebarGroupContent>
-                  <SidebarMenu>
-                    <div key={key}>
-                      <div
-                        className={`px-2 py-1 text-xs text-sidebar-foreground/50 ${key === 'today' ? 'mt-1' : 'mt-0'
-                          } capitalize`}
-                      >
-                        {key.replace(/([A-Z])/g, ' $1')}
-                      </div>
-                      {chats.map((chat: any) => (
-                        <ChatItem
-                          threads={threads}
-                          key={chat.id}
-                          chat={chat}
-                          isActive={chat.id.toString() == id}
-                          onDelete={handleDeleteClick}
-                          setOpenMobile={setOpenMobile}
-                          onEditTitle={handleUpdateTitle}
-                        />
-                      ))}
-                    </div>
-                  </SidebarMenu>
-                </SidebarGroupContent>
-              </SidebarGroup>
-            ),
-        )
+        <>
+          {pinnedThreads.length > 0 && (
+            <OrganizedSection label="Pinned">
+              <ThreadDropZone onDropThread={sidebarOrganization.pin}>
+                {pinnedThreads.map(renderChatItem)}
+              </ThreadDropZone>
+            </OrganizedSection>
+          )}
+
+          {!isLoading && (
+            <OrganizedSection
+              label="Folders"
+              action={
+                <button
+                  type="button"
+                  className="hover:text-sidebar-foreground"
+                  aria-label="New folder"
+                  onClick={() => setFolderDialog({ mode: 'create' })}
+                >
+                  <FolderPlus className="h-3.5 w-3.5" />
+                </button>
+              }
+            >
+              {organization.folders.map((folder) => {
+                const folderThreads = getThreads(folder.threadIds);
+                return (
+                  <FolderSection
+                    key={folder.id}
+                    folder={folder}
+                    threadCount={folderThreads.length}
+                    onToggle={() => sidebarOrganization.toggleFolder(folder.id)}
+                    onRename={() => setFolderDialog({ mode: 'rename', folder })}
+                    onDelete={() => {
+                      sidebarOrganization.deleteFolder(folder.id);
+                      toast.success(`Folder "${folder.name}" deleted`);
+                    }}
+                    onDropThread={(threadId) => sidebarOrganization.moveToFolder(threadId, folder.id)}
+                  >
+                    {folderThreads.map(renderChatItem)}
+                  </FolderSection>
+                );
+              })}
+            </OrganizedSection>
+          )}
+
+          {/* Dropping here takes a thread out of Pinned or its folder */}
+          <ThreadDropZone onDropThread={(threadId) => sidebarOrganization.moveToFolder(threadId, null)}>
+            <VirtualThreadList
+              rows={historyRows}
+              renderChatItem={renderChatItem}
+              hasMore={!!hasMoreThreads}
+              isLoadingMore={!!isLoadingMore}
+              loadMoreFailed={!!loadMoreFailed}
+              onLoadMore={() => loadMoreThreads?.()}
+            />
+          </ThreadDropZone>
+        </>
       )}
 
+      <FolderNameDialog
+        open={folderDialog !== null}
+        title={folderDialog?.mode === 'rename' ? 'Rename folder' : 'New folder'}
+        initialName={folderDialog?.mode === 'rename' ? folderDialog.folder.name : ''}
+        submitLabel={folderDialog?.mode === 'rename' ? 'Rename' : 'Create'}
+        onOpenChange={(open) => {
+          if (!open) setFolderDialog(null);
+        }}
+        onSubmit={(name) => {
+          if (folderDialog?.mode === 'rename') {
+            sidebarOrganization.renameFolder(folderDialog.folder.id, name);
+          } else {
+            sidebarOrganization.createFolder(name, folderDialog?.threadId);
+          }
+        }}
+      />
+
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -0,0 +1,168 @@
+'use client';
+
+/**
+ * SIDEBAR SEARCH - Full-text search across chat history
+ *
+ * Search box at the top of the sidebar. While a query is entered the date-grouped
+ * history is replaced by matching threads and messages with highlighted snippets;
+ * clicking a message match opens its thread and scrolls to the message.
+ *
+ * Server threads are listed a page at a time, so while a query is entered the remaining
+ * pages are loaded too; until they are, the result count says only loaded chats were searched.
+ */
+
+import { ReactNode, useEffect, useMemo, useState } from 'react';
+import { Loader2, Search, X } from 'lucide-react';
+import {
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  useSidebar,
+} from '@/components/ui/sidebar';
+import { useChatSearch } from '@/hooks/useChatSearch';
+import { ChatSearchResult, requestJumpToMessage, SnippetPart } from '@/lib/chat-search';
+import { setActiveThreadId, showChatThread } from '@/lib/utils';
+import { ChatThreadResponse } from '@/model';
+
+function Snippet({ parts }: { parts: SnippetPart[] }) {
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.highlight ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded-sm px-0.5">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+interface SidebarSearchProps {
+  threads: ChatThreadResponse[];
+  children: ReactNode;
+  hasMoreThreads?: boolean;
+  isLoadingMore?: boolean;
+  loadMoreFailed?: boolean;
+  loadMoreThreads?: () => void;
+}
+
+export function SidebarSearch({
+  threads,
+  children,
+  hasMoreThreads = false,
+  isLoadingMore = false,
+  loadMoreFailed = false,
+  loadMoreThreads,
+}: SidebarSearchProps) {
+  const { setOpenMobile } = useSidebar();
+  const [query, setQuery] = useState('');
+  const [isFocused, setIsFocused] = useState(false);
+  const trimmedQuery = query.trim();
+  // Index lazily: only while the visitor is searching
+  const { index, revision, isIndexing } = useChatSearch(threads, isFocused || trimmedQuery !== '');
+
+  // Search covers the whole history: page through the threads not listed yet
+  useEffect(() => {
+    if (trimmedQuery && hasMoreThreads && !isLoadingMore && !loadMoreFailed) loadMoreThreads?.();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [trimmedQuery !== '', hasMoreThreads, isLoadingMore, loadMoreFailed]);
+
+  const results = useMemo(
+    () => (trimmedQuery ? index.search(trimmedQuery) : []),
+    // The index is updated in place; `revision` changes with it
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [index, revision, trimmedQuery]
+  );
+
+  const openResult = (result: ChatSearchResult) => {
+    if (result.messageIndex !== null) {
+      requestJumpToMessage({ threadId: result.threadId, messageIndex: result.messageIndex, query: trimmedQuery });
+    }
+    showChatThread(result.threadId);
+    setActiveThreadId(result.threadId);
+    setOpenMobile(false);
+  };
+
+  return (
+    <>
+      <SidebarGroup className="pb-0">
+        <div className="relative">
+          <Search className="pointer-events-none absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-sidebar-foreground/50" />
+          <SidebarInput
+            value={query}
+            placeholder="Search chats"
+            aria-label="Search chats"
+            className="pl-8 pr-8"
+            onFocus={() => setIsFocused(true)}
+            onBlur={() => setIsFocused(false)}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') setQuery('');
+            }}
+          />
+          {query && (
+            <button
+              type="button"
+              className="absolute right-2 top-1/2 -translate-y-1/2 text-sidebar-foreground/50 hover:text-sidebar-foreground"
+              aria-label="Clear search"
+              onClick={() => setQuery('')}
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      </SidebarGroup>
+
+      {/* Hidden rather than unmounted: the history fetches threads when it mounts */}
+      <div className={trimmedQuery ? 'hidden' : 'contents'}>{children}</div>
+
+      {trimmedQuery && (
+        <SidebarGroup>
+          <div className="flex items-center gap-2 px-2 py-1 text-xs text-sidebar-foreground/50">
+            {(isIndexing || (hasMoreThreads && !loadMoreFailed)) && <Loader2 className="h-3 w-3 animate-spin" />}
+            {isIndexing
+              ? 'Searching messages...'
+              : `${results.length} result${results.length === 1 ? '' : 's'}`}
+            {hasMoreThreads && ` in the ${threads.length} chats loaded so far`}
+            {hasMoreThreads && loadMoreFailed && (
+              <button type="button" className="underline hover:text-sidebar-foreground" onClick={loadMoreThreads}>
+                Load the rest
+              </button>
+            )}
+          </div>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {results.map((result) => (
+                <SidebarMenuItem key={`${result.threadId}:${result.messageIndex ?? 'title'}`}>
+                  <SidebarMenuButton
+                    className="h-auto flex-col items-start gap-0.5 py-2"
+                    onClick={() => openResult(result)}
+                  >
+                    <span className="w-full truncate text-xs font-medium">
+                      {result.messageIndex === null ? <Snippet parts={result.snippet} /> : result.threadTitle}
+                    </span>
+                    {result.messageIndex !== null && (
+                      <span className="w-full text-xs text-sidebar-foreground/70 line-clamp-2 whitespace-normal">
+                        {result.role === 'user' ? 'You: ' : ''}
+                        <Snippet parts={result.snippet} />
+                      </span>
+                    )}
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              ))}
+              {!isIndexing && results.length === 0 && (
+                <div className="px-2 py-1 text-sm text-sidebar-foreground/70">No chats match your search.</div>
+              )}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      )}
+    </>
+  );
+}
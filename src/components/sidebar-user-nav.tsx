@@ -21,13 +21,12 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useRouter } from 'next/navigation';
-import { getUserFromStorage, setUserToStorage } from '@/cookie';
+import { getUserFromStorage } from '@/cookie';
 import { toast } from 'sonner';
 import { Eye, EyeOff } from 'lucide-react';
-import { ApiService } from '@/api';
 
 export function SidebarUserNav() {
-  const { config, clearConfig, updateConfig, saveConfig, configSource } = useConfig();
+  const { config, clearConfig, configSource, profiles, activeProfileId, saveProfile } = useConfig();
   const router = useRouter();
   const [user_info, setUserInfo] = useState<{
     success: boolean,
@@ -54,6 +53,7 @@ export function SidebarUserNav() {
   const [isOpen, setIsOpen] = useState(false);
   const [isManageConfigOpen, setIsManageConfigOpen] = useState(false);
   const [configForm, setConfigForm] = useState({
+    profileName: '',
     baseUrl: '',
     ejentoAccessToken: '',
     apiKey: '',
@@ -72,13 +72,14 @@ export function SidebarUserNav() {
   useEffect(() => {
     if (isManageConfigOpen && config) {
       setConfigForm({
+        profileName: profiles.find((profile) => profile.id === activeProfileId)?.name || '',
         baseUrl: config.baseUrl || '',
         ejentoAccessToken: config.ejentoAccessToken || '',
         apiKey: config.apiKey || '',
         agentId: config.agentId || ''
       });
     }
-  }, [isManageConfigOpen, config]);
+  }, [isManageConfigOpen, config, profiles, activeProfileId]);
 
   const handleLogout = () => {
     clearConfig();
@@ -96,7 +97,7 @@ export function SidebarUserNav() {
     setShowTokens(prev => ({ ...prev, [field]: !prev[field] }));
   };
 
-  const handleSaveConfig = async () => {
+  const handleSaveConfig = async (asNew: boolean = false) => {
     // Prevent saving if config is environment-driven
     if (configSource === 'environment') {
       toast.error('Configuration cannot be modified. This application uses environment-driven configuration.');
@@ -118,79 +119,33 @@ export function SidebarUserNav() {
         apiKey: configForm.apiKey.trim(),
         agentId: configForm.agentId.trim(),
         // Keep existing user info if available
-        userInfo: config?.userInfo || {
-          id: 'user-1',
-          name: '',
-          email: '',
-        }
+        userInfo: config?.userInfo,
       };
 
-      // Validate user and agent before saving
-      const tempApiService = new ApiService(newConfig);
-      
-      // 1. Validate user exists
-      const userData = await tempApiService.getCurrentUser();
-      if (!userData || typeof userData === 'number' || Number.isInteger(userData)) {
-        toast.error('Could not verify credentials. Please make sure your provided values are correct.');
-        setIsSavingConfig(false);
-        return;
-      }
-
-      // 2. Validate agent exists
-      const agentResponse = await tempApiService.getAgent(newConfig.agentId);
-      if (!agentResponse.success || !agentResponse.data) {
-        const errorMessage = agentResponse.message || 'Agent could not be retrieved';
-        toast.error(`Invalid agent ID. ${errorMessage}. Please check your Agent ID.`);
-        setIsSavingConfig(false);
-        return;
-      }
-
-      // Both validations passed, proceed with saving
       // Check if critical config values have changed (agentId, baseUrl, or ejentoAccessToken)
-      const configChanged = !config || 
+      const configChanged = asNew || !config ||
         config.agentId !== newConfig.agentId ||
         config.baseUrl !== newConfig.baseUrl ||
         config.ejentoAccessToken !== newConfig.ejentoAccessToken ||
         config.apiKey !== newConfig.apiKey;
 
-      // Store user data
-      if (userData && typeof userData === 'object' && !Number.isInteger(userData)) {
-        setUserToStorage(userData);
-        
-        // Update the config with the fetched user info
-        const updatedConfig = {
-          ...newConfig,
-          userInfo: {
-            id: userData.id || userData.user_id || newConfig.userInfo.id,
-            name: userData.name || userData.full_name || newConfig.userInfo.name,
-            email: userData.email || newConfig.userInfo.email,
-          }
-        };
-        
-        updateConfig(updatedConfig);
-        saveConfig();
-        setUserInfo(getUserFromStorage()); // Refresh user info display
-        setIsManageConfigOpen(false);
-        toast.success('Configuration updated successfully!');
-        
-        // If critical config changed, reload the page to refresh all components
-        if (configChanged) {
-          setTimeout(() => {
-            window.location.reload();
-          }, 500); // Small delay to allow toast to show
-        }
-      } else {
-        updateConfig(newConfig);
-        saveConfig();
-        setIsManageConfigOpen(false);
-        toast.success('Configuration updated successfully!');
-        
-        // If critical config changed, reload the page to refresh all components
-        if (configChanged) {
-          setTimeout(() => {
-            window.location.reload();
-          }, 500); // Small delay to allow toast to show
-        }
+      // Validates user and agent via /api/config/validate, which also stores the
+      // credentials in the secure cookie the proxy reads
+      const result = await saveProfile(configForm.profileName, newConfig, { asNew });
+      if (!result.success) {
+        toast.error(result.message || 'Could not verify credentials. Please make sure your provided values are correct.');
+        return;
+      }
+
+      setUserInfo(getUserFromStorage()); // Refresh user info display
+      setIsManageConfigOpen(false);
+      toast.success(asNew ? 'Profile saved successfully!' : 'Configuration updated successfully!');
+
+      // If critical config changed, reload the page to refresh all components
+      if (configChanged) {
+        setTimeout(() => {
+          window.location.assign('/chat');
+        }, 500); // Small delay to allow toast to show
       }
     } catch (error) {
       console.error('Error saving configuration:', error);
@@ -309,6 +264,18 @@ export function SidebarUserNav() {
           )}
           
           <div className="space-y-4">
+            {configSource !== 'environment' && (
+              <div className="space-y-2">
+                <Label htmlFor="profileName">Profile Name</Label>
+                <Input
+                  id="profileName"
+                  value={configForm.profileName}
+                  onChange={(e) => handleConfigChange('profileName', e.target.value)}
+                  placeholder="e.g. HR bot – prod"
+                />
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="baseUrl">Base URL *</Label>
               <Input
@@ -403,9 +370,14 @@ export function SidebarUserNav() {
                 Close
               </Button>
               {configSource !== 'environment' && (
-                <Button onClick={handleSaveConfig} disabled={isSavingConfig}>
-                  {isSavingConfig ? 'Validating...' : 'Save Configuration'}
-                </Button>
+                <>
+                  <Button variant="outline" onClick={() => handleSaveConfig(true)} disabled={isSavingConfig}>
+                    Save as New Profile
+                  </Button>
+                  <Button onClick={() => handleSaveConfig()} disabled={isSavingConfig}>
+                    {isSavingConfig ? 'Validating...' : 'Save Configuration'}
+                  </Button>
+                </>
               )}
             </div>
           </DialogFooter>
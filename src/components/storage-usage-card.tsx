@@ -0,0 +1,142 @@
+'use client';
+
+/**
+ * STORAGE USAGE CARD - Local chat storage and retention (PUBLIC_AGENT mode)
+ *
+ * Shows how much space the chats stored in this browser take, the retention limits of
+ * the deployment, and lets the visitor apply them right away.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { HardDrive, Loader2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { usePublicAgentSession } from '@/hooks/usePublicAgentSession';
+import { getStorageUsage, RetentionPolicy, StorageUsage } from '@/lib/storage/retention';
+import { getActiveThreadId } from '@/lib/utils';
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+function describePolicy(policy: RetentionPolicy): string[] {
+  return [
+    policy.maxThreads !== null ? `Up to ${policy.maxThreads} chats` : 'No limit on the number of chats',
+    policy.maxAgeDays !== null ? `Chats unused for ${policy.maxAgeDays} days are removed` : 'Chats are kept regardless of age',
+    policy.maxBytes !== null ? `Up to ${formatBytes(policy.maxBytes)} of chats` : 'No size limit',
+  ];
+}
+
+export function StorageUsageCard() {
+  const publicAgentSession = usePublicAgentSession();
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [isCleaning, setIsCleaning] = useState(false);
+
+  const loadUsage = useCallback(async () => {
+    try {
+      setUsage(await getStorageUsage());
+    } catch (error) {
+      console.error('Error loading storage usage:', error);
+      toast.error('Could not read storage usage');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  const handleCleanUp = async () => {
+    setIsCleaning(true);
+    try {
+      const activeThreadId = getActiveThreadId();
+      const result = await publicAgentSession.enforceRetention(activeThreadId ? [activeThreadId] : []);
+      if (result.threadsDeleted === 0) {
+        toast.info('Nothing to remove: all chats are within the limits.');
+      } else {
+        toast.success(
+          `Removed ${result.threadsDeleted} chat${result.threadsDeleted === 1 ? '' : 's'} (${formatBytes(result.bytesFreed)})`
+        );
+      }
+      await loadUsage();
+    } catch (error) {
+      console.error('Error applying retention policy:', error);
+      toast.error('Failed to remove old chats');
+    } finally {
+      setIsCleaning(false);
+    }
+  };
+
+  const sitePercent =
+    usage?.siteUsage != null && usage.siteQuota ? Math.min(100, (usage.siteUsage / usage.siteQuota) * 100) : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <HardDrive className="h-5 w-5" />
+          Local Storage
+        </CardTitle>
+        <CardDescription>Chats are stored in this browser only.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!usage ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-3 text-center">
+              <div className="rounded-md border p-3">
+                <p className="text-lg font-semibold">{usage.threadCount}</p>
+                <p className="text-xs text-muted-foreground">Chats</p>
+              </div>
+              <div className="rounded-md border p-3">
+                <p className="text-lg font-semibold">{usage.messageCount}</p>
+                <p className="text-xs text-muted-foreground">Messages</p>
+              </div>
+              <div className="rounded-md border p-3">
+                <p className="text-lg font-semibold">{formatBytes(usage.chatBytes)}</p>
+                <p className="text-xs text-muted-foreground">Chat data (approx.)</p>
+              </div>
+            </div>
+
+            {sitePercent !== null && (
+              <div className="space-y-1">
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>Site storage used</span>
+                  <span>
+                    {formatBytes(usage.siteUsage!)} of {formatBytes(usage.siteQuota!)}
+                  </span>
+                </div>
+                <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+                  <div className="h-full bg-primary" style={{ width: `${Math.max(sitePercent, 1)}%` }} />
+                </div>
+              </div>
+            )}
+
+            <div>
+              <p className="text-sm font-medium mb-1">Retention</p>
+              <ul className="text-sm text-muted-foreground list-disc list-inside space-y-1">
+                {describePolicy(usage.policy).map((line) => (
+                  <li key={line}>{line}</li>
+                ))}
+              </ul>
+              <p className="text-xs text-muted-foreground mt-2">
+                The least recently used chats are removed first, when the app loads or when storage runs out.
+              </p>
+            </div>
+
+            <Button variant="outline" className="w-full" disabled={isCleaning} onClick={handleCleanUp}>
+              {isCleaning ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+              Apply retention now
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,18 +2,66 @@
 
 /**
  * Token Refresh Provider
- * 
+ *
  * Wrapper component that initializes the token refresh system in PUBLIC_AGENT mode.
- * This component uses the useTokenRefresh hook to manage automatic token refresh.
+ * This component uses the useTokenRefresh hook to manage automatic token refresh
+ * and shares the resulting token expiry with TokenExpiryNotice.
  */
 
 import { useTokenRefresh } from '@/hooks/useTokenRefresh';
-import { ReactNode } from 'react';
+import { TokenStatus } from '@/lib/token-refresh';
+import { formatDistanceToNow } from 'date-fns';
+import { createContext, ReactNode, useContext } from 'react';
+
+/** Warn once the token has less than this left and the server cannot renew it */
+const EXPIRY_WARNING_MS = 24 * 60 * 60 * 1000;
+
+const TokenStatusContext = createContext<TokenStatus | null>(null);
+
+export function useTokenStatus() {
+  return useContext(TokenStatusContext);
+}
 
 export function TokenRefreshProvider({ children }: { children: ReactNode }) {
   // Initialize token refresh (hook handles PUBLIC_AGENT mode check internally)
-  useTokenRefresh();
-  
-  return <>{children}</>;
+  const tokenStatus = useTokenRefresh();
+
+  return (
+    <TokenStatusContext.Provider value={tokenStatus}>
+      {children}
+    </TokenStatusContext.Provider>
+  );
 }
 
+/**
+ * Banner shown when the author's access token has expired, or is about to expire
+ * without a refresh token to renew it
+ */
+export function TokenExpiryNotice() {
+  const tokenStatus = useTokenStatus();
+
+  if (!tokenStatus?.expiresAt) {
+    return null;
+  }
+
+  const remaining = tokenStatus.expiresAt - Date.now();
+
+  if (remaining <= 0) {
+    return (
+      <div className="w-full bg-red-50 border-b border-red-200 px-4 py-2 text-center text-sm text-red-800">
+        This assistant is temporarily unavailable because its access has expired. Please try again later.
+      </div>
+    );
+  }
+
+  if (remaining < EXPIRY_WARNING_MS && !tokenStatus.refreshable) {
+    return (
+      <div className="w-full bg-amber-50 border-b border-amber-200 px-4 py-2 text-center text-sm text-amber-800">
+        This assistant&apos;s access expires {formatDistanceToNow(tokenStatus.expiresAt, { addSuffix: true })} and
+        will stop responding unless it is renewed.
+      </div>
+    );
+  }
+
+  return null;
+}
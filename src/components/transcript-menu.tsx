@@ -0,0 +1,156 @@
+'use client';
+
+/**
+ * TRANSCRIPT MENU - Export and import of local conversations (PUBLIC_AGENT mode)
+ *
+ * Public-agent conversations only exist in this browser's IndexedDB. This menu in the
+ * sidebar footer exports every thread as a JSON bundle (re-importable) or Markdown,
+ * and imports a previously exported bundle, merging it with the existing threads.
+ * Single threads are exported from their own menu in the chat history. It also links
+ * to the storage usage page.
+ */
+
+import { useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ChevronUp, Download, FileText, HardDrive, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from '@/components/ui/sidebar';
+import { usePublicAgentSession } from '@/hooks/usePublicAgentSession';
+import { downloadFile } from '@/lib/utils';
+import {
+  createTranscriptBundle,
+  getTranscriptFileName,
+  parseTranscriptBundle,
+  transcriptToMarkdown,
+} from '@/lib/storage/transcripts';
+import type { StoredThread } from '@/lib/storage/types';
+import { LocalStorageLockedError } from '@/lib/storage/encryption';
+
+type TranscriptFormat = 'json' | 'md';
+
+/**
+ * Exports the given threads (all threads when `thread` is omitted) and downloads the file
+ */
+export async function exportTranscript(format: TranscriptFormat, thread?: StoredThread) {
+  const agentName = process.env.NEXT_PUBLIC_AGENT_HEADER?.trim() || undefined;
+  const bundle = await createTranscriptBundle(thread ? [thread.threadId] : undefined, agentName);
+
+  if (bundle.threads.length === 0) {
+    toast.error('There are no conversations to export yet.');
+    return;
+  }
+
+  const fileName = getTranscriptFileName(format, thread);
+  if (format === 'json') {
+    downloadFile(fileName, JSON.stringify(bundle, null, 2), 'application/json');
+  } else {
+    downloadFile(fileName, transcriptToMarkdown(bundle), 'text/markdown');
+  }
+}
+
+export function TranscriptMenu() {
+  const publicAgentSession = usePublicAgentSession();
+  const router = useRouter();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleExport = async (format: TranscriptFormat) => {
+    try {
+      await exportTranscript(format);
+    } catch (error) {
+      console.error('Error exporting conversations:', error);
+      toast.error(
+        error instanceof LocalStorageLockedError
+          ? 'Unlock your chats before exporting them.'
+          : 'Failed to export conversations'
+      );
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so the same file can be picked again
+    event.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const parsed = parseTranscriptBundle(await file.text());
+      if (!parsed.success) {
+        toast.error(parsed.error);
+        return;
+      }
+
+      const result = await publicAgentSession.importTranscript(parsed.bundle);
+      if (result.threadsAdded === 0 && result.messagesAdded === 0) {
+        toast.info('Everything in this file is already in your history.');
+      } else {
+        toast.success(
+          `Imported ${result.threadsAdded} new chat${result.threadsAdded === 1 ? '' : 's'} and ${result.messagesAdded} message${result.messagesAdded === 1 ? '' : 's'}`
+        );
+      }
+    } catch (error) {
+      console.error('Error importing conversations:', error);
+      toast.error('Failed to import conversations');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <SidebarMenu>
+      <SidebarMenuItem>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <SidebarMenuButton className="data-[state=open]:bg-sidebar-accent data-[state=open]:text-sidebar-accent-foreground h-10">
+              <span className="truncate">{isImporting ? 'Importing...' : 'Conversations'}</span>
+              <ChevronUp className="ml-auto" />
+            </SidebarMenuButton>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent side="top" className="w-[--radix-popper-anchor-width]">
+            <DropdownMenuItem className="cursor-pointer" onSelect={() => handleExport('json')}>
+              <Download className="h-4 w-4" />
+              Export all (JSON)
+            </DropdownMenuItem>
+            <DropdownMenuItem className="cursor-pointer" onSelect={() => handleExport('md')}>
+              <FileText className="h-4 w-4" />
+              Export all (Markdown)
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              className="cursor-pointer"
+              disabled={isImporting}
+              onSelect={() => fileInputRef.current?.click()}
+            >
+              <Upload className="h-4 w-4" />
+              Import from JSON...
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem className="cursor-pointer" onSelect={() => router.push('/settings?section=storage')}>
+              <HardDrive className="h-4 w-4" />
+              Storage usage
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleImport}
+        />
+      </SidebarMenuItem>
+    </SidebarMenu>
+  );
+}
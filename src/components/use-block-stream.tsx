@@ -59,6 +59,7 @@ export function useBlockStream({
           return {
             ...draftBlock,
             documentId: delta.content as string,
+            citation: undefined,
           };
 
         case 'title':
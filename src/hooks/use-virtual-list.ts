@@ -0,0 +1,121 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+
+/**
+ * Windowed rendering for long lists inside a scrolling container
+ *
+ * Only the rows in (or near) the visible part of the nearest scrollable ancestor are
+ * rendered; spacers above and below keep the scroll height. Rows have known, fixed
+ * heights, so no measuring is needed. The list does not have to start at the top of
+ * the scroll container (other content may come before it).
+ */
+
+interface VirtualListOptions {
+  /** Height in px of each row, in order */
+  rowHeights: number[]
+  /** Extra rows rendered above and below the visible range */
+  overscan?: number
+}
+
+export interface VirtualRange {
+  start: number
+  end: number
+}
+
+function getScrollParent(element: HTMLElement | null): HTMLElement | null {
+  let current = element?.parentElement ?? null
+  while (current) {
+    const { overflowY } = getComputedStyle(current)
+    if (overflowY === 'auto' || overflowY === 'scroll') return current
+    current = current.parentElement
+  }
+  return null
+}
+
+/**
+ * Index of the first row whose bottom edge is below `position`
+ */
+function findRow(offsets: number[], position: number): number {
+  let low = 0
+  let high = offsets.length - 1
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (offsets[mid + 1] <= position) low = mid + 1
+    else high = mid
+  }
+  return low
+}
+
+export const useVirtualList = <T extends HTMLElement>({ rowHeights, overscan = 10 }: VirtualListOptions) => {
+  const listRef = useRef<T>(null)
+  const updateRef = useRef<(() => void) | null>(null)
+
+  // offsets[i] is the top of row i; the last entry is the total height
+  const offsets = useMemo(() => {
+    const result = [0]
+    rowHeights.forEach((height, index) => result.push(result[index] + height))
+    return result
+  }, [rowHeights])
+
+  const rowCount = rowHeights.length
+  const [range, setRange] = useState<VirtualRange>({ start: 0, end: Math.min(rowCount, overscan * 3) })
+
+  useEffect(() => {
+    const list = listRef.current
+    const scrollElement = getScrollParent(list)
+    if (!list || !scrollElement) {
+      setRange({ start: 0, end: rowCount })
+      return
+    }
+
+    let frame = 0
+    const update = () => {
+      cancelAnimationFrame(frame)
+      frame = requestAnimationFrame(() => {
+        if (rowCount === 0) {
+          setRange({ start: 0, end: 0 })
+          return
+        }
+        const listTop =
+          list.getBoundingClientRect().top - scrollElement.getBoundingClientRect().top + scrollElement.scrollTop
+        const viewTop = scrollElement.scrollTop - listTop
+        const viewBottom = viewTop + scrollElement.clientHeight
+
+        const start = Math.max(0, findRow(offsets, Math.max(viewTop, 0)) - overscan)
+        const end = Math.min(rowCount, findRow(offsets, Math.max(viewBottom, 0)) + 1 + overscan)
+        setRange((prev) => (prev.start === start && prev.end === end ? prev : { start, end }))
+      })
+    }
+
+    update()
+    scrollElement.addEventListener('scroll', update, { passive: true })
+    const resizeObserver = new ResizeObserver(update)
+    resizeObserver.observe(scrollElement)
+    updateRef.current = update
+
+    return () => {
+      updateRef.current = null
+      cancelAnimationFrame(frame)
+      scrollElement.removeEventListener('scroll', update)
+      resizeObserver.disconnect()
+    }
+  }, [offsets, rowCount, overscan])
+
+  // Content rendered before the list (e.g. a collapsing section) moves it without a
+  // scroll or resize event, so re-check after every render
+  useEffect(() => {
+    updateRef.current?.()
+  })
+
+  const start = Math.min(range.start, rowCount)
+  const end = Math.min(range.end, rowCount)
+
+  return {
+    listRef,
+    start,
+    end,
+    /** Height of the spacer above the rendered rows */
+    paddingTop: offsets[start],
+    /** Height of the spacer below the rendered rows */
+    paddingBottom: offsets[rowCount] - offsets[end],
+  }
+}
@@ -0,0 +1,165 @@
+'use client';
+
+/**
+ * Hook that builds the chat history search index for the sidebar
+ *
+ * Titles are searchable immediately; message bodies are added once loaded, from
+ * IndexedDB in PUBLIC_AGENT mode or from getChatlogs in configured mode. Chat logs
+ * are cached per thread and only fetched again when the thread's modified_on changes.
+ * Indexing only runs while search is open, not on page load. The index is updated in
+ * place: each time search opens, only threads added, renamed or modified since they
+ * were indexed are loaded again, and deleted threads are dropped.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { ApiService } from '@/api';
+import { useApiService } from '@/hooks/useApiService';
+import { ChatSearchIndex, SearchDocument } from '@/lib/chat-search';
+import { getMessagesByThreadId, isPublicAgentMode } from '@/lib/storage/indexeddb';
+import { ChatThreadResponse } from '@/model';
+
+/** Threads loaded at the same time (chat logs in configured mode) */
+const THREAD_LOAD_CONCURRENCY = 4;
+
+type CachedDocument = Omit<SearchDocument, 'threadTitle'>;
+
+// Survives sidebar remounts; a profile switch reloads the page, which clears it
+const chatlogCache = new Map<string, { modifiedOn: string; documents: CachedDocument[] }>();
+
+function getTitleDocument(thread: ChatThreadResponse): SearchDocument {
+  return {
+    threadId: thread.id.toString(),
+    threadTitle: thread.title,
+    messageIndex: null,
+    text: thread.title,
+    timestamp: new Date(thread.modified_on || thread.created_on).getTime(),
+  };
+}
+
+/**
+ * Message documents of one IndexedDB thread, indexed in the order chat.tsx renders them
+ */
+async function loadLocalThreadDocuments(thread: ChatThreadResponse): Promise<CachedDocument[]> {
+  const threadId = thread.id.toString();
+  const messages = await getMessagesByThreadId(threadId);
+  return messages.map((message, messageIndex) => ({
+    threadId,
+    messageIndex,
+    role: message.role,
+    text: message.content,
+    timestamp: message.createdAt,
+  }));
+}
+
+/**
+ * Question/answer documents for one server thread (user message at 2i, answer at 2i + 1)
+ */
+async function fetchThreadDocuments(apiService: ApiService, thread: ChatThreadResponse): Promise<CachedDocument[]> {
+  const threadId = thread.id.toString();
+  const cached = chatlogCache.get(threadId);
+  if (cached && cached.modifiedOn === thread.modified_on) {
+    return cached.documents;
+  }
+
+  const response = await apiService.getChatlogs(thread.id);
+  const documents = (response?.data?.agent_responses || []).flatMap((item, index): CachedDocument[] => {
+    const timestamp = new Date(item.created_on).getTime();
+    return [
+      { threadId, messageIndex: index * 2, role: 'user', text: item.question || '', timestamp },
+      { threadId, messageIndex: index * 2 + 1, role: 'assistant', text: item.response?.answer || '', timestamp },
+    ];
+  });
+
+  chatlogCache.set(threadId, { modifiedOn: thread.modified_on, documents });
+  return documents;
+}
+
+/** What a thread was indexed as; it is indexed again once this changes */
+function getThreadVersion(thread: ChatThreadResponse): string {
+  return `${thread.modified_on}:${thread.title}`;
+}
+
+/**
+ * @param active - Whether search is open; nothing is loaded while it is closed
+ */
+export function useChatSearch(threads: ChatThreadResponse[], active: boolean) {
+  const apiService = useApiService();
+  const [isPublicAgent] = useState(() => isPublicAgentMode());
+  const [index] = useState(() => new ChatSearchIndex());
+  // Incremented whenever the index changes, since the index itself is updated in place
+  const [revision, setRevision] = useState(0);
+  const [isIndexing, setIsIndexing] = useState(false);
+  // Version of each thread in the index, by thread id
+  const indexedVersions = useRef(new Map<string, string>());
+
+  const threadsRef = useRef(threads);
+  threadsRef.current = threads;
+
+  const threadsKey = threads.map((thread) => `${thread.id}:${getThreadVersion(thread)}`).join('|');
+
+  useEffect(() => {
+    if (!active) return;
+
+    let cancelled = false;
+    const threads = threadsRef.current;
+    const versions = indexedVersions.current;
+
+    const currentIds = new Set(threads.map((thread) => thread.id.toString()));
+    let removed = false;
+    versions.forEach((_, threadId) => {
+      if (!currentIds.has(threadId)) {
+        index.removeThread(threadId);
+        versions.delete(threadId);
+        removed = true;
+      }
+    });
+    if (removed) setRevision((value) => value + 1);
+
+    const changed = threads.filter((thread) => versions.get(thread.id.toString()) !== getThreadVersion(thread));
+    if (changed.length === 0) return;
+
+    const loadDocuments = async (thread: ChatThreadResponse): Promise<CachedDocument[]> => {
+      if (isPublicAgent) return loadLocalThreadDocuments(thread);
+      // Local threads (negative ids) have nothing on the server yet
+      if (!apiService || thread.id < 0) return [];
+      return fetchThreadDocuments(apiService, thread);
+    };
+
+    const indexThreads = async () => {
+      for (let i = 0; i < changed.length; i += THREAD_LOAD_CONCURRENCY) {
+        const batch = changed.slice(i, i + THREAD_LOAD_CONCURRENCY);
+        const results = await Promise.allSettled(batch.map(loadDocuments));
+        if (cancelled) return;
+
+        results.forEach((result, resultIndex) => {
+          const thread = batch[resultIndex];
+          const threadId = thread.id.toString();
+          if (result.status === 'rejected') {
+            // Left out of `versions`, so the next search tries again
+            console.error(`Error loading chat logs for search (thread ${thread.id}):`, result.reason);
+            return;
+          }
+          index.removeThread(threadId);
+          index.add(getTitleDocument(thread));
+          result.value.forEach((document) => index.add({ ...document, threadTitle: thread.title }));
+          versions.set(threadId, getThreadVersion(thread));
+        });
+        setRevision((value) => value + 1);
+      }
+    };
+
+    setIsIndexing(true);
+    indexThreads()
+      .catch((error) => console.error('Error building chat search index:', error))
+      .finally(() => {
+        if (!cancelled) setIsIndexing(false);
+      });
+
+    return () => {
+      cancelled = true;
+      setIsIndexing(false);
+    };
+  }, [active, threadsKey, apiService, isPublicAgent, index]);
+
+  return { index, revision, isIndexing };
+}
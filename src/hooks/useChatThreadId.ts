@@ -0,0 +1,14 @@
+'use client';
+
+import { usePathname } from 'next/navigation';
+import { getThreadIdFromPath } from '@/lib/utils';
+
+/**
+ * Id of the thread open at /chat/[threadId], or null at /chat
+ *
+ * Read from the pathname rather than the route params: threads are switched with
+ * showChatThread (history.replaceState), which updates the pathname but not the params.
+ */
+export function useChatThreadId(): string | null {
+  return getThreadIdFromPath(usePathname());
+}
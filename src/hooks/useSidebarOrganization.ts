@@ -0,0 +1,103 @@
+'use client';
+
+/**
+ * Hook for the sidebar's pinned threads and folders
+ *
+ * Loads the layout for the current mode/agent and saves every change right away.
+ * In PUBLIC_AGENT mode, changes saved by other open tabs are picked up as well.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  createFolder,
+  deleteFolder,
+  EMPTY_SIDEBAR_ORGANIZATION,
+  loadSidebarOrganization,
+  moveThreadToFolder,
+  pinThread,
+  renameFolder,
+  replaceThreadId,
+  saveSidebarOrganization,
+  SIDEBAR_ORGANIZATION_SETTING_KEY,
+  SidebarOrganization,
+  toggleFolderCollapsed,
+  togglePinnedThread,
+} from '@/lib/sidebar-organization';
+import { subscribeToStorageChanges } from '@/lib/storage/change-feed';
+
+export function useSidebarOrganization(isPublicAgent: boolean, agentId?: string) {
+  const [organization, setOrganization] = useState<SidebarOrganization>(EMPTY_SIDEBAR_ORGANIZATION);
+  const organizationRef = useRef(organization);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () =>
+      loadSidebarOrganization(isPublicAgent, agentId).then((loaded) => {
+        if (cancelled) return;
+        organizationRef.current = loaded;
+        setOrganization(loaded);
+      });
+
+    load();
+    const unsubscribe = isPublicAgent
+      ? subscribeToStorageChanges((change) => {
+          if (change.type === 'setting-updated' && change.key === SIDEBAR_ORGANIZATION_SETTING_KEY) load();
+        })
+      : () => {};
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [isPublicAgent, agentId]);
+
+  const update = useCallback(
+    (change: (current: SidebarOrganization) => SidebarOrganization) => {
+      const next = change(organizationRef.current);
+      if (next === organizationRef.current) return;
+      organizationRef.current = next;
+      setOrganization(next);
+      saveSidebarOrganization(next, isPublicAgent, agentId).catch((error) => {
+        console.error('Error saving sidebar organization:', error);
+        toast.error('Could not save your folders and pins');
+      });
+    },
+    [isPublicAgent, agentId]
+  );
+
+  return {
+    organization,
+    togglePin: useCallback((threadId: string) => update((current) => togglePinnedThread(current, threadId)), [update]),
+    pin: useCallback((threadId: string) => update((current) => pinThread(current, threadId)), [update]),
+    moveToFolder: useCallback(
+      (threadId: string, folderId: string | null) => update((current) => moveThreadToFolder(current, threadId, folderId)),
+      [update]
+    ),
+    /** Creates a folder, optionally moving a thread into it */
+    createFolder: useCallback(
+      (name: string, threadId?: string) =>
+        update((current) => {
+          const { organization: next, folder } = createFolder(current, name);
+          return threadId ? moveThreadToFolder(next, threadId, folder.id) : next;
+        }),
+      [update]
+    ),
+    renameFolder: useCallback(
+      (folderId: string, name: string) => update((current) => renameFolder(current, folderId, name)),
+      [update]
+    ),
+    deleteFolder: useCallback((folderId: string) => update((current) => deleteFolder(current, folderId)), [update]),
+    toggleFolder: useCallback(
+      (folderId: string) => update((current) => toggleFolderCollapsed(current, folderId)),
+      [update]
+    ),
+    replaceThreadId: useCallback(
+      (oldThreadId: string, newThreadId: string) =>
+        update((current) => replaceThreadId(current, oldThreadId, newThreadId)),
+      [update]
+    ),
+  };
+}
+
+export type SidebarOrganizationControls = ReturnType<typeof useSidebarOrganization>;
@@ -1,19 +1,27 @@
 /**
  * Hook for managing automatic token refresh in PUBLIC_AGENT mode
  * 
- * Runs a background timer that refreshes the Ejento access token every 2 days.
- * Updates ConfigContext with the new token automatically.
+ * Runs a background timer that asks the server to refresh the Ejento access token
+ * every 2 days. The token stays server-side; the hook only tracks its expiry so the
+ * UI can warn before the agent stops working.
  */
 
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useConfig } from '@/app/context/ConfigContext';
-import { refreshEjentoToken, shouldRefreshToken, getTokenRefreshInterval } from '@/lib/token-refresh';
+import {
+  refreshEjentoToken,
+  shouldRefreshToken,
+  getTokenRefreshInterval,
+  getTokenStatus,
+  TokenStatus,
+} from '@/lib/token-refresh';
 import { isPublicAgentMode } from '@/lib/storage/indexeddb';
 
-export function useTokenRefresh() {
-  const { config, updateConfig, isEnvConfigured } = useConfig();
+export function useTokenRefresh(): TokenStatus | null {
+  const { config, isEnvConfigured } = useConfig();
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const isRefreshingRef = useRef(false);
+  const [tokenStatus, setTokenStatus] = useState<TokenStatus | null>(null);
 
   useEffect(() => {
     // Only run in PUBLIC_AGENT mode and when env config is available
@@ -22,6 +30,11 @@ export function useTokenRefresh() {
     }
 
     const scheduleRefresh = async () => {
+      const status = await getTokenStatus();
+      if (status) {
+        setTokenStatus(status);
+      }
+
       // Check if refresh is needed
       const needsRefresh = await shouldRefreshToken();
       
@@ -63,15 +76,10 @@ export function useTokenRefresh() {
       isRefreshingRef.current = true;
 
       try {
-        const newToken = await refreshEjentoToken();
+        const status = await refreshEjentoToken();
         
-        if (newToken && config) {
-          // Update ConfigContext with new token
-          updateConfig({
-            ejentoAccessToken: newToken,
-          });
-          
-          console.log('Token refreshed successfully');
+        if (status) {
+          setTokenStatus(status);
         } else {
           console.warn('Token refresh failed, will retry on next interval');
         }
@@ -98,6 +106,8 @@ export function useTokenRefresh() {
         intervalRef.current = null;
       }
     };
-  }, [config, isEnvConfigured, updateConfig]);
+  }, [config, isEnvConfigured]);
+
+  return tokenStatus;
 }
 
@@ -0,0 +1,220 @@
+/**
+ * Server-side Access Token Management (server-only)
+ *
+ * Keeps the author's Ejento access token for environment-driven deployments and renews
+ * it before it expires (tokens last 7 days). The refresh token comes from
+ * EJENTO_REFRESH_TOKEN and is exchanged at EJENTO_TOKEN_REFRESH_URL. Both must be set:
+ * the refresh endpoint differs between Ejento deployments, so none is assumed, and
+ * without it the token is used as is until it expires.
+ *
+ * Renewed tokens live in server memory only and are read by the proxy and the
+ * validation route; they are never returned to the browser. Each server instance
+ * renews on its own, so multi-instance deployments simply refresh once per instance.
+ * That only works while the refresh token stays valid across exchanges: nothing here
+ * can store a rotated refresh token durably, so rotating refresh tokens are not
+ * supported. When an exchange returns a different refresh token, the new access token
+ * is used until it expires, renewal stops and an error asks for EJENTO_REFRESH_TOKEN
+ * to be updated.
+ *
+ * The exchange request (`{ refreshToken }` in the body, the current access token in
+ * the Authorization header) and the response fields read below (`access_token`,
+ * `refresh_token`, `expires_in`, optionally wrapped in `data`) are not taken from a
+ * published Ejento auth contract: check them against your deployment's auth API
+ * before relying on renewal.
+ */
+
+import 'server-only';
+
+/** Assumed lifetime when the token carries no readable expiry */
+const DEFAULT_TOKEN_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Renew once the token has less than this left */
+const REFRESH_MARGIN_MS = 24 * 60 * 60 * 1000;
+
+/** Wait this long after a failed exchange before trying again */
+const FAILED_REFRESH_COOLDOWN_MS = 5 * 60 * 1000;
+
+export interface AccessTokenStatus {
+  /** Unix timestamp (ms) when the current token expires, null if unknown */
+  expiresAt: number | null;
+  /** Whether a refresh token is configured */
+  refreshable: boolean;
+  /** Unix timestamp (ms) of the last successful refresh */
+  lastRefreshedAt: number | null;
+}
+
+interface TokenState {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: number | null;
+  lastRefreshedAt: number | null;
+}
+
+let state: TokenState | null = null;
+let inFlightRefresh: Promise<boolean> | null = null;
+let lastFailedRefreshAt = 0;
+let warnedMissingRefreshUrl = false;
+
+/**
+ * Reads the `exp` claim when the token is a JWT (with or without a "Bearer " prefix)
+ */
+function getJwtExpiry(token: string): number | null {
+  const parts = token.replace(/^Bearer\s+/i, '').split('.');
+  if (parts.length !== 3) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+function getState(): TokenState | null {
+  const envToken = process.env.EJENTO_ACCESS_TOKEN?.trim();
+  if (!envToken) return null;
+
+  if (!state) {
+    state = {
+      accessToken: envToken,
+      refreshToken: process.env.EJENTO_REFRESH_TOKEN?.trim() || null,
+      expiresAt: getJwtExpiry(envToken),
+      lastRefreshedAt: null,
+    };
+  }
+  return state;
+}
+
+function getRefreshUrl(): string | null {
+  return process.env.EJENTO_TOKEN_REFRESH_URL?.trim() || null;
+}
+
+/**
+ * Exchanges the refresh token for a new access token
+ */
+async function exchangeRefreshToken(current: TokenState): Promise<boolean> {
+  const refreshUrl = getRefreshUrl();
+  if (!current.refreshToken) {
+    return false;
+  }
+  if (!refreshUrl) {
+    if (!warnedMissingRefreshUrl) {
+      warnedMissingRefreshUrl = true;
+      console.warn('EJENTO_REFRESH_TOKEN is set but EJENTO_TOKEN_REFRESH_URL is not; the access token will not be renewed.');
+    }
+    return false;
+  }
+
+  try {
+    const response = await fetch(refreshUrl, {
+      method: 'POST',
+      headers: {
+        'Authorization': current.accessToken,
+        'Ocp-Apim-Subscription-Key': process.env.EJENTO_API_KEY?.trim() || '',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ refreshToken: current.refreshToken }),
+    });
+
+    if (!response.ok) {
+      console.error(`Token refresh failed with status ${response.status}`);
+      return false;
+    }
+
+    const body = await response.json();
+    const data = body?.data ?? body;
+    const newToken: string | undefined = data?.access_token || data?.accessToken;
+    if (!newToken) {
+      console.error('Token refresh response did not include an access token');
+      return false;
+    }
+
+    // Keep the "Bearer " prefix convention used by EJENTO_ACCESS_TOKEN
+    const usesBearerPrefix = /^Bearer\s+/i.test(current.accessToken);
+    const accessToken = usesBearerPrefix && !/^Bearer\s+/i.test(newToken) ? `Bearer ${newToken}` : newToken;
+    const expiresIn = Number(data?.expires_in);
+    const now = Date.now();
+
+    // A rotated refresh token would have to outlive this process (and reach every other
+    // instance) to be of any use, and it can't: stop renewing rather than keep exchanging
+    // a refresh token that may have just been revoked
+    const returnedRefreshToken: string | undefined = data?.refresh_token || data?.refreshToken;
+    const rotated = Boolean(returnedRefreshToken && returnedRefreshToken !== current.refreshToken);
+    if (rotated) {
+      console.error(
+        'The token refresh endpoint rotated the refresh token, which is not supported: the renewed access token ' +
+          'will be used until it expires and then not renewed again. Disable refresh token rotation for this ' +
+          'client, or update EJENTO_REFRESH_TOKEN and EJENTO_ACCESS_TOKEN and restart the server.'
+      );
+    }
+
+    state = {
+      accessToken,
+      refreshToken: rotated ? null : current.refreshToken,
+      expiresAt: getJwtExpiry(accessToken) ?? (expiresIn > 0 ? now + expiresIn * 1000 : now + DEFAULT_TOKEN_LIFETIME_MS),
+      lastRefreshedAt: now,
+    };
+    return true;
+  } catch (error) {
+    console.error('Token refresh request failed:', error instanceof Error ? error.message : error);
+    return false;
+  }
+}
+
+/**
+ * Renews the access token if it is close to expiry (or always, with `force`)
+ * Concurrent callers share a single exchange.
+ *
+ * @returns Whether a new token was obtained
+ */
+export async function refreshAccessToken(force: boolean = false): Promise<boolean> {
+  const current = getState();
+  if (!current) return false;
+
+  const now = Date.now();
+  // An opaque token has no readable expiry: exchange it once so the new one has a known lifetime
+  const expiresSoon = current.expiresAt === null || current.expiresAt - now < REFRESH_MARGIN_MS;
+  const coolingDown = now - lastFailedRefreshAt < FAILED_REFRESH_COOLDOWN_MS;
+  if ((!force && !expiresSoon) || coolingDown) {
+    return false;
+  }
+
+  if (!inFlightRefresh) {
+    inFlightRefresh = exchangeRefreshToken(current)
+      .then((refreshed) => {
+        if (!refreshed) lastFailedRefreshAt = Date.now();
+        return refreshed;
+      })
+      .finally(() => {
+        inFlightRefresh = null;
+      });
+  }
+  return inFlightRefresh;
+}
+
+/**
+ * Gets the access token to send upstream, renewing it first when it is about to expire
+ *
+ * @returns The token, or null if EJENTO_ACCESS_TOKEN is not set
+ */
+export async function getAccessToken(): Promise<string | null> {
+  const current = getState();
+  if (!current) return null;
+
+  if (current.refreshToken) {
+    await refreshAccessToken();
+  }
+  return state?.accessToken ?? null;
+}
+
+/**
+ * Describes the current token without exposing it
+ */
+export function getAccessTokenStatus(): AccessTokenStatus {
+  const current = getState();
+  return {
+    expiresAt: current?.expiresAt ?? null,
+    refreshable: Boolean(current?.refreshToken && getRefreshUrl()),
+    lastRefreshedAt: current?.lastRefreshedAt ?? null,
+  };
+}
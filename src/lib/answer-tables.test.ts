@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { toDelimitedText } from './answer-tables';
+
+describe('toDelimitedText', () => {
+  it('quotes CSV cells holding delimiters, quotes or line breaks', () => {
+    expect(toDelimitedText(['Name', 'Note'], [['a,b', 'say "hi"']], ',')).toBe('Name,Note\r\n"a,b","say ""hi"""');
+  });
+
+  it('neutralizes formulas, including ones behind leading whitespace', () => {
+    expect(toDelimitedText(['A'], [['=SUM(A1)'], ['  @cmd'], [' +1+1'], ['-x']], ',')).toBe(
+      "A\r\n'=SUM(A1)\r\n'  @cmd\r\n' +1+1\r\n'-x"
+    );
+  });
+
+  it('neutralizes cells starting with a tab or carriage return', () => {
+    expect(toDelimitedText(['A'], [['\t=1'], ['\rcmd']], ',')).toBe("A\r\n'\t=1\r\n\"'\rcmd\"");
+    expect(toDelimitedText(['A'], [['\t=1']], '\t')).toBe("A\r\n' =1");
+  });
+
+  it('leaves numbers alone', () => {
+    expect(toDelimitedText(['A'], [['-5'], [' -3.5 '], ['-1,200']], ',')).toBe('A\r\n-5\r\n -3.5 \r\n"-1,200"');
+  });
+});
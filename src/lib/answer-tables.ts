@@ -0,0 +1,161 @@
+/**
+ * Tables in Assistant Answers
+ *
+ * Reads the header and body text of a rendered markdown/HTML table (its hast node) so it
+ * can be sorted, filtered and exported. Rows keep their position in the table body, so
+ * the component can reorder the rendered rows instead of re-rendering the cells.
+ */
+
+import type { Element, ElementContent } from 'hast';
+
+export interface TableData {
+  headers: string[];
+  /** Text of each body row, in table order */
+  rows: string[][];
+  /** The header row is the first row of the body (HTML tables without a <thead>) */
+  headerInBody: boolean;
+}
+
+export interface TableSort {
+  column: number;
+  direction: 'asc' | 'desc';
+}
+
+const NUMBER_PATTERN = /^-?\d{1,3}(,\d{3})*(\.\d+)?$|^-?\d+(\.\d+)?$/;
+
+function childElements(node: Element, tagName: string): Element[] {
+  return node.children.filter(
+    (child): child is Element => child.type === 'element' && child.tagName === tagName
+  );
+}
+
+function getText(node: ElementContent): string {
+  if (node.type === 'text') return node.value;
+  if (node.type !== 'element') return '';
+  if (node.tagName === 'br') return ' ';
+  return node.children.map(getText).join('');
+}
+
+function getRowCells(row: Element): string[] {
+  return row.children
+    .filter((cell): cell is Element => cell.type === 'element' && (cell.tagName === 'td' || cell.tagName === 'th'))
+    .map((cell) => getText(cell).replace(/\s+/g, ' ').trim());
+}
+
+/**
+ * Header and body text of a table, or null when it cannot be handled row by row
+ * (no single body, or no rows)
+ */
+export function getTableData(table: Element | undefined): TableData | null {
+  if (!table) return null;
+  const bodies = childElements(table, 'tbody');
+  if (bodies.length !== 1) return null;
+
+  const headRows = childElements(table, 'thead').flatMap((head) => childElements(head, 'tr'));
+  let bodyRows = childElements(bodies[0], 'tr');
+  let headerRow = headRows[headRows.length - 1];
+  let headerInBody = false;
+
+  // HTML tables often put their <th> row in the body
+  if (!headerRow && bodyRows[0] && childElements(bodyRows[0], 'td').length === 0) {
+    headerRow = bodyRows[0];
+    bodyRows = bodyRows.slice(1);
+    headerInBody = true;
+  }
+
+  if (!headerRow || bodyRows.length === 0) return null;
+
+  return {
+    headers: getRowCells(headerRow),
+    rows: bodyRows.map(getRowCells),
+    headerInBody,
+  };
+}
+
+/**
+ * Numeric value of a cell such as "1,200", "-3.5", "$4.2M" or "12%", or null for text
+ */
+function parseCellNumber(value: string): number | null {
+  const negative = /^\(.*\)$/.test(value);
+  const cleaned = value.replace(/^\((.*)\)$/, '$1').replace(/^[$€£¥]|[$€£¥%]$/g, '').replace(/\s/g, '');
+  const match = cleaned.match(/^(-?[\d,]*\.?\d+)([kKmMbB]|bn)?$/);
+  if (!match || !NUMBER_PATTERN.test(match[1])) return null;
+
+  const multipliers: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9, bn: 1e9 };
+  const number = parseFloat(match[1].replace(/,/g, '')) * (match[2] ? multipliers[match[2].toLowerCase()] : 1);
+  return negative ? -number : number;
+}
+
+/**
+ * Compares cells numerically when both are numbers, otherwise as text; empty cells sort last
+ */
+export function compareCells(a: string, b: string): number {
+  if (!a || !b) return a ? -1 : b ? 1 : 0;
+  const numberA = parseCellNumber(a);
+  const numberB = parseCellNumber(b);
+  if (numberA !== null && numberB !== null) return numberA - numberB;
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+}
+
+/**
+ * Body row indexes matching the filter, in sort order
+ */
+export function getVisibleRows(data: TableData, filter: string, sort: TableSort | null): number[] {
+  const query = filter.trim().toLowerCase();
+  const indexes = data.rows
+    .map((_, index) => index)
+    .filter((index) => !query || data.rows[index].some((cell) => cell.toLowerCase().includes(query)));
+
+  if (sort) {
+    const direction = sort.direction === 'asc' ? 1 : -1;
+    indexes.sort(
+      (a, b) => direction * compareCells(data.rows[a][sort.column] ?? '', data.rows[b][sort.column] ?? '') || a - b
+    );
+  }
+  return indexes;
+}
+
+/**
+ * Keeps spreadsheets from evaluating a cell as a formula (text from documents can end up
+ * in answers); numbers such as "-5" are left alone
+ */
+function neutralizeFormula(value: string): string {
+  // Spreadsheets skip leading whitespace, and a leading tab or carriage return can start a formula too
+  const trimmed = value.trim();
+  const isFormula = /^[\t\r]/.test(value) || (/^[=+\-@]/.test(trimmed) && parseCellNumber(trimmed) === null);
+  return isFormula ? `'${value}` : value;
+}
+
+/**
+ * CSV (RFC 4180 quoting) or TSV text for the given rows, header first
+ */
+export function toDelimitedText(headers: string[], rows: string[][], delimiter: ',' | '\t'): string {
+  const formatCell = (value: string) => {
+    const cell = neutralizeFormula(value);
+    if (delimiter === '\t') return cell.replace(/[\t\r\n]+/g, ' ');
+    return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  };
+  return [headers, ...rows].map((row) => row.map(formatCell).join(delimiter)).join('\r\n');
+}
+
+/**
+ * XLSX workbook for the given rows, header first; plain numbers are stored as numbers
+ */
+export async function toXlsxBlob(headers: string[], rows: string[][]): Promise<Blob> {
+  // Loaded on first export; most answers are never exported
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Table');
+
+  sheet.addRow(headers).font = { bold: true };
+  rows.forEach((row) => {
+    sheet.addRow(row.map((cell) => (NUMBER_PATTERN.test(cell) ? parseFloat(cell.replace(/,/g, '')) : cell)));
+  });
+  sheet.columns.forEach((column, index) => {
+    const longest = Math.max(...[headers, ...rows].map((row) => (row[index] ?? '').length));
+    column.width = Math.min(Math.max(longest + 2, 10), 60);
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+}
@@ -9,8 +9,25 @@ export const API_CONFIG = {
 
   // Proxy path
   PROXY_PATH: '/api/proxy',
+
+  // Header carrying the PUBLIC_AGENT browser session id (used for proxy rate limiting)
+  SESSION_ID_HEADER: 'X-Ejento-Session-Id',
+
+  // Header carrying the per-call correlation id, forwarded upstream and echoed by the proxy
+  CORRELATION_ID_HEADER: 'X-Correlation-Id',
 };
 
+/**
+ * Generates a correlation id for one logical API call (shared by its retries)
+ */
+export function createCorrelationId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  // randomUUID is unavailable outside secure contexts (e.g. plain http on a LAN address)
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
 /**
  * Converts a direct API URL to use the Next.js proxy
  * SECURITY: Always routes through proxy to keep credentials server-side
@@ -45,12 +62,14 @@ export function getProxiedUrl(url: string, baseUrl: string): string {
  * @param baseUrl The base API URL (only used as metadata, not for routing)
  * @param ejentoAccessToken The access token (not used - kept for backward compatibility)
  * @param apiKey The API subscription key (not used - kept for backward compatibility)
+ * @param correlationId Correlation id of the call, if any
  * @returns Headers object (never includes credentials)
  */
 export function getApiHeaders(
   baseUrl: string,
   ejentoAccessToken: string,
-  apiKey: string
+  apiKey: string,
+  correlationId?: string
 ): Record<string, string> {
 
   
@@ -58,6 +77,17 @@ export function getApiHeaders(
     'Content-Type': 'application/json',
   };
 
+  if (correlationId) {
+    headers[API_CONFIG.CORRELATION_ID_HEADER] = correlationId;
+  }
+
+  // Not a credential: lets the proxy rate limit anonymous PUBLIC_AGENT sessions individually
+  if (typeof window !== 'undefined' && window.sessionStorage) {
+    const sessionId = sessionStorage.getItem('ejento_session_id');
+    if (sessionId) {
+      headers[API_CONFIG.SESSION_ID_HEADER] = sessionId;
+    }
+  }
 
   return headers;
 }
@@ -0,0 +1,205 @@
+/**
+ * Ejento API error model
+ *
+ * Every ApiService method either resolves with typed data or throws one of the
+ * errors below, so callers can branch on `instanceof` instead of inspecting
+ * status numbers or `{ success: false }` objects.
+ */
+
+import axios from 'axios';
+
+export interface EjentoApiErrorDetails {
+  /** HTTP status returned by the proxy/upstream (undefined for network failures) */
+  status?: number;
+  /** Request path the error originated from */
+  path: string;
+  /** Message returned by the server, if any */
+  serverMessage?: string;
+  /** Original error, kept for logging */
+  cause?: unknown;
+  /** Correlation id of the call, to look up the matching proxy log entries */
+  correlationId?: string;
+}
+
+/**
+ * Base class for all errors thrown by ApiService
+ */
+export class EjentoApiError extends Error {
+  readonly status?: number;
+  readonly path: string;
+  readonly serverMessage?: string;
+  readonly cause?: unknown;
+  readonly correlationId?: string;
+
+  constructor(message: string, details: EjentoApiErrorDetails) {
+    super(message);
+    this.name = 'EjentoApiError';
+    this.status = details.status;
+    this.path = details.path;
+    this.serverMessage = details.serverMessage;
+    this.cause = details.cause;
+    this.correlationId = details.correlationId;
+    // Keep instanceof working when compiled down to ES5-style classes
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/** 401/403 - credentials are missing, expired or not allowed for the resource */
+export class EjentoAuthError extends EjentoApiError {
+  constructor(message: string, details: EjentoApiErrorDetails) {
+    super(message, details);
+    this.name = 'EjentoAuthError';
+  }
+}
+
+/** 404 - the agent, thread or response does not exist */
+export class EjentoNotFoundError extends EjentoApiError {
+  constructor(message: string, details: EjentoApiErrorDetails) {
+    super(message, details);
+    this.name = 'EjentoNotFoundError';
+  }
+}
+
+/** 429 - throttled by Ejento/APIM */
+export class EjentoRateLimitError extends EjentoApiError {
+  /** Delay requested by the server via Retry-After, in milliseconds */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, details: EjentoApiErrorDetails & { retryAfterMs?: number }) {
+    super(message, details);
+    this.name = 'EjentoRateLimitError';
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+/** 400/422 - the request body or parameters were rejected */
+export class EjentoValidationError extends EjentoApiError {
+  constructor(message: string, details: EjentoApiErrorDetails) {
+    super(message, details);
+    this.name = 'EjentoValidationError';
+  }
+}
+
+/** No response was received (offline, DNS, CORS, aborted connection) */
+export class EjentoNetworkError extends EjentoApiError {
+  constructor(message: string, details: EjentoApiErrorDetails) {
+    super(message, details);
+    this.name = 'EjentoNetworkError';
+  }
+}
+
+/** 5xx - the proxy or Ejento itself failed */
+export class EjentoUpstreamError extends EjentoApiError {
+  constructor(message: string, details: EjentoApiErrorDetails) {
+    super(message, details);
+    this.name = 'EjentoUpstreamError';
+  }
+}
+
+export function isEjentoApiError(error: unknown): error is EjentoApiError {
+  return error instanceof EjentoApiError;
+}
+
+/**
+ * Parses a Retry-After header value (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Extracts the human readable message from an Ejento error body
+ */
+function extractServerMessage(data: any): string | undefined {
+  if (!data) return undefined;
+  if (typeof data === 'string') return data || undefined;
+  return data.message || data.detail || data.error?.details || data.error?.message || undefined;
+}
+
+/**
+ * Builds the matching EjentoApiError subclass for an HTTP status
+ */
+export function createEjentoApiError(
+  status: number | undefined,
+  path: string,
+  serverMessage: string | undefined,
+  fallbackMessage: string,
+  options: { retryAfterMs?: number; cause?: unknown; correlationId?: string } = {}
+): EjentoApiError {
+  const message = serverMessage || fallbackMessage;
+  const details: EjentoApiErrorDetails = {
+    status,
+    path,
+    serverMessage,
+    cause: options.cause,
+    correlationId: options.correlationId,
+  };
+
+  if (status === undefined) {
+    return new EjentoNetworkError(message, details);
+  }
+  if (status === 401 || status === 403) {
+    return new EjentoAuthError(message, details);
+  }
+  if (status === 404) {
+    return new EjentoNotFoundError(message, details);
+  }
+  if (status === 429) {
+    return new EjentoRateLimitError(message, { ...details, retryAfterMs: options.retryAfterMs });
+  }
+  if (status === 400 || status === 422) {
+    return new EjentoValidationError(message, details);
+  }
+  if (status >= 500) {
+    return new EjentoUpstreamError(message, details);
+  }
+  return new EjentoApiError(message, details);
+}
+
+/**
+ * Normalizes anything thrown by axios (or our own code) into an EjentoApiError
+ *
+ * @param error The caught error
+ * @param path The request path, used for diagnostics
+ * @param fallbackMessage Message used when the server did not provide one
+ * @param correlationId Correlation id of the call, attached to the error
+ */
+export function toEjentoApiError(
+  error: unknown,
+  path: string,
+  fallbackMessage: string,
+  correlationId?: string
+): EjentoApiError {
+  if (isEjentoApiError(error)) {
+    return error;
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      const retryAfter = error.response.headers?.['retry-after'];
+      return createEjentoApiError(
+        error.response.status,
+        path,
+        extractServerMessage(error.response.data),
+        fallbackMessage,
+        { retryAfterMs: parseRetryAfter(retryAfter), cause: error, correlationId }
+      );
+    }
+    return new EjentoNetworkError(error.message || fallbackMessage, { path, cause: error, correlationId });
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new EjentoNetworkError(message || fallbackMessage, { path, cause: error, correlationId });
+}
@@ -0,0 +1,218 @@
+/**
+ * Chat History Search
+ *
+ * Full-text search over thread titles and message bodies, shared by both modes:
+ * - PUBLIC_AGENT mode indexes the messages stored in IndexedDB
+ * - Configured mode indexes chat logs fetched with ApiService.getChatlogs, cached per
+ *   thread until the thread is modified
+ *
+ * Documents are kept in an in-memory inverted index (token → documents); when a thread
+ * changes only its documents are replaced. Matching is prefix-based on every query
+ * token, so "refund pol" finds "Refund policy".
+ *
+ * Each message document records its position in the chat as rendered by chat.tsx,
+ * which is what jump-to-message scrolls to.
+ */
+
+export interface SearchDocument {
+  threadId: string;
+  threadTitle: string;
+  /** Position of the message in the rendered chat; null for the thread title */
+  messageIndex: number | null;
+  role?: 'user' | 'assistant';
+  text: string;
+  /** Unix timestamp (ms) used to rank recent matches first */
+  timestamp: number;
+}
+
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface ChatSearchResult {
+  threadId: string;
+  threadTitle: string;
+  messageIndex: number | null;
+  role?: 'user' | 'assistant';
+  snippet: SnippetPart[];
+  score: number;
+}
+
+/** Where a jump-to-message request is parked while the target chat loads */
+export const SEARCH_JUMP_TARGET_KEY = 'search_jump_target';
+
+export interface SearchJumpTarget {
+  threadId: string;
+  messageIndex: number;
+  query: string;
+}
+
+const MIN_TOKEN_LENGTH = 2;
+const SNIPPET_CONTEXT_CHARS = 60;
+const DEFAULT_RESULT_LIMIT = 50;
+
+/**
+ * Splits text into lowercase word tokens (letters and digits in any script)
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(
+    (token) => token.length >= MIN_TOKEN_LENGTH
+  );
+}
+
+/**
+ * Builds a short excerpt around the first match, with every query token highlighted
+ */
+export function buildSnippet(text: string, queryTokens: string[]): SnippetPart[] {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (queryTokens.length === 0) {
+    return [{ text: flat.slice(0, SNIPPET_CONTEXT_CHARS * 2), highlight: false }];
+  }
+
+  const escaped = queryTokens.map((token) => token.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(${escaped.join('|')})`, 'giu');
+
+  const firstMatch = flat.search(pattern);
+  const start = Math.max(0, firstMatch - SNIPPET_CONTEXT_CHARS);
+  const end = Math.min(flat.length, Math.max(firstMatch, 0) + SNIPPET_CONTEXT_CHARS * 2);
+  const excerpt = `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+
+  // Splitting on a capturing pattern puts the matches at odd positions
+  return excerpt
+    .split(pattern)
+    .map((part, index) => ({ text: part, highlight: index % 2 === 1 }))
+    .filter((part) => part.text.length > 0);
+}
+
+export class ChatSearchIndex {
+  /** Removed documents leave a null, so the indexes in the postings stay valid */
+  private documents: (SearchDocument | null)[] = [];
+  private postings = new Map<string, Set<number>>();
+  private sortedTokens: string[] = [];
+  private count = 0;
+
+  constructor(documents: SearchDocument[] = []) {
+    documents.forEach((document) => this.add(document));
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  add(document: SearchDocument): void {
+    const documentIndex = this.documents.push(document) - 1;
+    for (const token of new Set(tokenize(document.text))) {
+      let posting = this.postings.get(token);
+      if (!posting) {
+        posting = new Set();
+        this.postings.set(token, posting);
+      }
+      posting.add(documentIndex);
+    }
+    this.count++;
+    this.sortedTokens = [];
+  }
+
+  /**
+   * Removes the title and messages of a thread, e.g. before indexing its new version
+   */
+  removeThread(threadId: string): void {
+    this.documents.forEach((document, documentIndex) => {
+      if (document?.threadId !== threadId) return;
+      for (const token of new Set(tokenize(document.text))) {
+        const posting = this.postings.get(token);
+        posting?.delete(documentIndex);
+        if (posting?.size === 0) this.postings.delete(token);
+      }
+      this.documents[documentIndex] = null;
+      this.count--;
+    });
+    this.sortedTokens = [];
+  }
+
+  /**
+   * Documents containing a token that starts with `prefix`
+   */
+  private matchPrefix(prefix: string): Set<number> {
+    if (this.sortedTokens.length === 0) {
+      this.sortedTokens = Array.from(this.postings.keys()).sort();
+    }
+
+    // Binary search for the first token >= prefix, then walk while it still matches
+    let low = 0;
+    let high = this.sortedTokens.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.sortedTokens[mid] < prefix) low = mid + 1;
+      else high = mid;
+    }
+
+    const matches = new Set<number>();
+    for (let i = low; i < this.sortedTokens.length && this.sortedTokens[i].startsWith(prefix); i++) {
+      this.postings.get(this.sortedTokens[i])!.forEach((documentIndex) => matches.add(documentIndex));
+    }
+    return matches;
+  }
+
+  /**
+   * Finds documents containing every query token (as a word prefix)
+   * Title matches rank above message matches; ties go to the most recent.
+   */
+  search(query: string, limit: number = DEFAULT_RESULT_LIMIT): ChatSearchResult[] {
+    const queryTokens = Array.from(new Set(tokenize(query)));
+    if (queryTokens.length === 0) return [];
+
+    const [first, ...rest] = queryTokens.map((token) => this.matchPrefix(token));
+    const candidates = Array.from(first).filter((documentIndex) =>
+      rest.every((matches) => matches.has(documentIndex))
+    );
+
+    const phrase = query.trim().toLowerCase();
+    return candidates
+      .map((documentIndex) => {
+        const document = this.documents[documentIndex]!;
+        const score =
+          (document.messageIndex === null ? 2 : 0) +
+          (document.text.toLowerCase().includes(phrase) ? 1 : 0);
+        return {
+          threadId: document.threadId,
+          threadTitle: document.threadTitle,
+          messageIndex: document.messageIndex,
+          role: document.role,
+          snippet: buildSnippet(document.text, queryTokens),
+          score,
+          timestamp: document.timestamp,
+        };
+      })
+      .sort((a, b) => b.score - a.score || b.timestamp - a.timestamp)
+      .slice(0, limit)
+      .map(({ timestamp, ...result }) => result);
+  }
+}
+
+/** Fired when a jump target is stored, so an already open chat can react */
+export const SEARCH_JUMP_EVENT = 'chat-search-jump';
+
+/**
+ * Asks the chat view to scroll to a message once the target thread is shown
+ */
+export function requestJumpToMessage(target: SearchJumpTarget): void {
+  sessionStorage.setItem(SEARCH_JUMP_TARGET_KEY, JSON.stringify(target));
+  window.dispatchEvent(new Event(SEARCH_JUMP_EVENT));
+}
+
+/**
+ * Returns and clears the pending jump target if it belongs to `threadId`
+ */
+export function takeJumpTarget(threadId: string): SearchJumpTarget | null {
+  try {
+    const target: SearchJumpTarget | null = JSON.parse(sessionStorage.getItem(SEARCH_JUMP_TARGET_KEY) || 'null');
+    if (!target || target.threadId !== threadId) return null;
+    sessionStorage.removeItem(SEARCH_JUMP_TARGET_KEY);
+    return target;
+  } catch {
+    sessionStorage.removeItem(SEARCH_JUMP_TARGET_KEY);
+    return null;
+  }
+}
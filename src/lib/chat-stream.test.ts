@@ -0,0 +1,255 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { ChatThreadAgentResponsesV2 } from '@/model';
+import {
+  buildAssistantMessage,
+  buildInterruptedMessage,
+  buildRecoveredMessage,
+  findRecoveredResponse,
+  initialStreamState,
+  isStreamComplete,
+  parseStreamEvent,
+  streamReducer,
+  type StreamEvent,
+  type StreamState,
+} from './chat-stream';
+
+function reduce(events: StreamEvent[], state: StreamState = initialStreamState): StreamState {
+  return events.reduce((current, event) => streamReducer(current, { type: 'event', event }), state);
+}
+
+describe('parseStreamEvent', () => {
+  it('parses answer and tool deltas', () => {
+    expect(parseStreamEvent('{"step":"assistant_stream","delta":"Hi"}')).toEqual({
+      step: 'assistant_stream',
+      delta: 'Hi',
+    });
+    expect(parseStreamEvent('{"step":"tools_stream","delta":42}')).toEqual({ step: 'tools_stream', delta: '' });
+  });
+
+  it('parses reflections', () => {
+    expect(parseStreamEvent('{"step":"reflection_skip","message":"Skipped"}')).toEqual({
+      step: 'reflection_skip',
+      message: 'Skipped',
+    });
+  });
+
+  it('parses the end step and defaults a missing output', () => {
+    expect(parseStreamEvent('{"step":"end","success":true,"output":{"answer":"Done"}}')).toEqual({
+      step: 'end',
+      success: true,
+      output: { answer: 'Done' },
+    });
+    expect(parseStreamEvent('{"step":"end","success":"yes"}')).toEqual({ step: 'end', success: false, output: {} });
+  });
+
+  it('takes the error message from the error details first', () => {
+    expect(
+      parseStreamEvent('{"step":"error","message":"Failed","output":{"error":{"details":"Quota"},"blocked":true}}')
+    ).toEqual({ step: 'error', message: 'Quota', blocked: true });
+    expect(parseStreamEvent('{"step":"error","delta":"Broken"}')).toEqual({
+      step: 'error',
+      message: 'Broken',
+      blocked: false,
+    });
+  });
+
+  it('maps unknown steps to status events', () => {
+    expect(parseStreamEvent('{"step":"retrieval","message":"Searching"}')).toEqual({
+      step: 'status',
+      originalStep: 'retrieval',
+      message: 'Searching',
+    });
+  });
+
+  it('returns null for malformed payloads and payloads without a step', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(parseStreamEvent('{not json')).toBeNull();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+
+    expect(parseStreamEvent('null')).toBeNull();
+    expect(parseStreamEvent('"text"')).toBeNull();
+    expect(parseStreamEvent('{"delta":"Hi"}')).toBeNull();
+  });
+});
+
+describe('streamReducer', () => {
+  it('accumulates the answer and closes the streamed thought on the first answer delta', () => {
+    const state = reduce([
+      { step: 'tools_stream', delta: 'Looking ' },
+      { step: 'tools_stream', delta: 'it up' },
+      { step: 'assistant_stream', delta: 'The ' },
+      { step: 'assistant_stream', delta: 'answer' },
+    ]);
+
+    expect(state).toMatchObject({
+      phase: 'streaming',
+      answer: 'The answer',
+      isReflecting: false,
+      reflectionEvents: ['Looking it up'],
+      latestStatus: null,
+    });
+  });
+
+  it('records status and reflection messages, skipping empty ones', () => {
+    const state = reduce([
+      { step: 'status', originalStep: 'retrieval', message: 'Searching' },
+      { step: 'reflection_end', message: '' },
+      { step: 'reflection_end', message: 'Checked sources' },
+    ]);
+
+    expect(state.reflectionEvents).toEqual(['Searching', 'Checked sources']);
+    expect(state.latestStatus).toBe('Checked sources');
+  });
+
+  it('completes on end and ignores events after a terminal step', () => {
+    const end: StreamEvent = { step: 'end', success: true, output: { answer: 'Done' } };
+    const completed = reduce([{ step: 'assistant_stream', delta: 'Done' }, end]);
+
+    expect(completed.phase).toBe('completed');
+    expect(completed.end).toEqual(end);
+    expect(isStreamComplete(completed)).toBe(true);
+    expect(reduce([{ step: 'assistant_stream', delta: ' again' }], completed)).toBe(completed);
+  });
+
+  it('fails on error', () => {
+    const state = reduce([{ step: 'error', message: 'Quota', blocked: false }]);
+
+    expect(state.phase).toBe('failed');
+    expect(state.error).toEqual({ step: 'error', message: 'Quota', blocked: false });
+    expect(isStreamComplete(state)).toBe(true);
+  });
+
+  it('leaves the initial state untouched', () => {
+    reduce([{ step: 'assistant_stream', delta: 'Hi' }]);
+
+    expect(initialStreamState).toEqual({
+      phase: 'pending',
+      answer: '',
+      thoughtProcess: '',
+      isReflecting: false,
+      reflectionEvents: [],
+      latestStatus: null,
+    });
+  });
+});
+
+describe('buildAssistantMessage', () => {
+  it('returns null until the stream completes', () => {
+    expect(buildAssistantMessage(reduce([{ step: 'assistant_stream', delta: 'Hi' }]), 'Q', '7')).toBeNull();
+  });
+
+  it('builds the answer from the end output', () => {
+    const state = reduce([
+      { step: 'status', originalStep: 'retrieval', message: 'Searching' },
+      {
+        step: 'end',
+        success: true,
+        output: {
+          answer: 'Done',
+          agent_response_id: 12,
+          followup_questions: ['Why?'],
+          references: [{ order: 1, url: 'doc.pdf', number: 1 }],
+        },
+      },
+    ]);
+
+    expect(buildAssistantMessage(state, 'Q', '7')).toMatchObject({
+      role: 'assistant',
+      content: 'Done',
+      query: 'Q',
+      id: 12,
+      followUpQuestions: ['Why?'],
+      references: [{ order: 1, url: 'doc.pdf', number: 1 }],
+      reflectionEvents: ['Searching'],
+      guardrail_triggered: false,
+      blocked: false,
+    });
+  });
+
+  it('builds error messages for failed responses and error steps', () => {
+    const failed = reduce([{ step: 'end', success: false, output: { message: 'Blocked', blocked: true } }]);
+    expect(buildAssistantMessage(failed, 'Q', '7')).toMatchObject({
+      content: 'error:: Blocked',
+      id: '7',
+      blocked: true,
+    });
+
+    const errored = reduce([{ step: 'error', message: 'Quota', blocked: false }]);
+    expect(buildAssistantMessage(errored, 'Q', '7')).toMatchObject({
+      content: 'error:: Quota',
+      id: '7',
+      followUpQuestions: [],
+      references: [],
+    });
+  });
+});
+
+describe('buildInterruptedMessage', () => {
+  it('keeps the partial answer', () => {
+    const state = reduce([{ step: 'assistant_stream', delta: 'Partial' }]);
+
+    expect(buildInterruptedMessage(state, 'Q')).toMatchObject({
+      role: 'assistant',
+      content: 'Partial',
+      query: 'Q',
+      interrupted: true,
+    });
+  });
+
+  it('returns null when nothing was streamed', () => {
+    expect(buildInterruptedMessage(initialStreamState, 'Q')).toBeNull();
+  });
+
+  it('records where the finished response can be found', () => {
+    const state = reduce([{ step: 'assistant_stream', delta: 'Partial' }]);
+    const resume = { threadId: 4, knownResponseIds: [1] };
+
+    expect(buildInterruptedMessage(state, 'Q', resume)?.resume).toEqual(resume);
+  });
+});
+
+function chatlog(responses: { id: number; question: string; response: Record<string, unknown> }[]) {
+  return { success: true, message: '', data: { agent_responses: responses } } as unknown as ChatThreadAgentResponsesV2;
+}
+
+describe('findRecoveredResponse', () => {
+  const target = { threadId: 4, knownResponseIds: [1] };
+
+  it('finds the newest response to the question that the thread did not have', () => {
+    const log = chatlog([
+      { id: 1, question: 'Q', response: { answer: 'Old' } },
+      { id: 2, question: 'Other', response: { answer: 'No' } },
+      { id: 3, question: 'Q ', response: { answer: 'New' } },
+    ]);
+
+    expect(findRecoveredResponse(log, 'Q', target)?.id).toBe(3);
+  });
+
+  it('returns null while the response is not in the history', () => {
+    expect(findRecoveredResponse(chatlog([{ id: 1, question: 'Q', response: {} }]), 'Q', target)).toBeNull();
+    expect(findRecoveredResponse(null, 'Q', target)).toBeNull();
+  });
+});
+
+describe('buildRecoveredMessage', () => {
+  it('completes the answer and keeps the streamed reflections', () => {
+    const [item] = chatlog([
+      { id: 3, question: 'Q', response: { success: true, answer: 'Done', followup_questions: ['Why?'] } },
+    ]).data.agent_responses;
+
+    expect(buildRecoveredMessage(item, { query: 'Q', reflectionEvents: ['Searching'] })).toMatchObject({
+      content: 'Done',
+      id: 3,
+      followUpQuestions: ['Why?'],
+      reflectionEvents: ['Searching'],
+    });
+  });
+
+  it('builds an error message for failed responses', () => {
+    const [item] = chatlog([{ id: 3, question: 'Q', response: { success: false, message: 'Quota' } }]).data
+      .agent_responses;
+
+    expect(buildRecoveredMessage(item, { query: 'Q' }).content).toBe('error:: Quota');
+  });
+});
@@ -0,0 +1,414 @@
+/**
+ * Ejento response stream protocol
+ *
+ * Typed parser and pure reducer for the SSE events emitted by
+ * `/responses/stream`. useChat feeds every raw event through `parseStreamEvent`
+ * and `streamReducer`, then mirrors the resulting state into its refs; adding a
+ * new step only requires a new union member and a reducer case here.
+ *
+ * A dropped stream cannot be reconnected (the endpoint has no resume contract), but the
+ * server usually finishes the response anyway. `findRecoveredResponse` picks it out of
+ * the thread's agent responses so the interrupted answer can be completed.
+ */
+
+import type { AgentChatResponse, ChatThreadAgentResponsesItemsV2, ChatThreadAgentResponsesV2 } from '@/model';
+
+/** Final payload of a successful (or guardrail-blocked) response */
+export interface StreamEndOutput {
+  answer?: string;
+  agent_response_id?: number;
+  followup_questions?: string[];
+  references?: { order: number; url: string; number: number }[];
+  indexes?: string[];
+  sources?: string;
+  thread_id?: number;
+  chat_thread_name?: string;
+  guardrail_triggered?: boolean;
+  blocked?: boolean;
+  /** Failure reason when `success` is false */
+  message?: string;
+}
+
+/** A chunk of the answer text */
+export interface AssistantStreamEvent {
+  step: 'assistant_stream';
+  delta: string;
+}
+
+/** A chunk of the agent's tool/thought output */
+export interface ToolsStreamEvent {
+  step: 'tools_stream';
+  delta: string;
+}
+
+/** A completed (or skipped) reflection, shown in the thought process timeline */
+export interface ReflectionStreamEvent {
+  step: 'reflection_end' | 'reflection_skip';
+  message: string;
+}
+
+/** Terminal event carrying the full response */
+export interface EndStreamEvent {
+  step: 'end';
+  success: boolean;
+  output: StreamEndOutput;
+}
+
+/** Terminal failure event */
+export interface ErrorStreamEvent {
+  step: 'error';
+  message: string;
+  blocked: boolean;
+}
+
+/**
+ * Any other step (retrieval, planning, ...). Unknown steps are mapped here so new
+ * server-side steps show up as status text instead of breaking the stream.
+ */
+export interface StatusStreamEvent {
+  step: 'status';
+  /** The step name as sent by the server */
+  originalStep: string;
+  message: string;
+}
+
+export type StreamEvent =
+  | AssistantStreamEvent
+  | ToolsStreamEvent
+  | ReflectionStreamEvent
+  | EndStreamEvent
+  | ErrorStreamEvent
+  | StatusStreamEvent;
+
+/** An SSE payload as sent, before validation: any field may be missing or mistyped */
+interface RawStreamEvent {
+  step?: unknown;
+  delta?: unknown;
+  message?: unknown;
+  success?: unknown;
+  output?: StreamEndOutput & { error?: { details?: unknown } };
+}
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+function assertNever(value: never): never {
+  throw new Error(`Unhandled stream event: ${JSON.stringify(value)}`);
+}
+
+/**
+ * Parses the `data` of one SSE message into a typed event
+ *
+ * @returns The event, or null if the payload is not valid JSON or has no step
+ */
+export function parseStreamEvent(data: string): StreamEvent | null {
+  let raw: RawStreamEvent | null;
+  try {
+    raw = JSON.parse(data);
+  } catch (error) {
+    console.warn('Ignoring malformed stream event:', data);
+    return null;
+  }
+
+  if (!raw || typeof raw !== 'object' || typeof raw.step !== 'string') {
+    return null;
+  }
+
+  switch (raw.step) {
+    case 'assistant_stream':
+    case 'tools_stream':
+      return { step: raw.step, delta: asString(raw.delta) };
+    case 'reflection_end':
+    case 'reflection_skip':
+      return { step: raw.step, message: asString(raw.message) };
+    case 'end':
+      return { step: 'end', success: raw.success === true, output: raw.output ?? {} };
+    case 'error':
+      return {
+        step: 'error',
+        message: asString(raw.output?.error?.details) || asString(raw.message) || asString(raw.delta),
+        blocked: raw.output?.blocked === true,
+      };
+    default:
+      return { step: 'status', originalStep: raw.step, message: asString(raw.message) };
+  }
+}
+
+export interface StreamState {
+  /** 'pending' until the first event, then 'streaming' until a terminal event */
+  phase: 'pending' | 'streaming' | 'completed' | 'failed';
+  /** Answer text received so far */
+  answer: string;
+  /** Thought process text currently being streamed */
+  thoughtProcess: string;
+  /** Whether thought process deltas are being received */
+  isReflecting: boolean;
+  /** Timeline of completed reflection/status messages */
+  reflectionEvents: string[];
+  /** Latest status message, shown while no answer is streaming */
+  latestStatus: string | null;
+  /** Set when the stream completed with an `end` step */
+  end?: EndStreamEvent;
+  /** Set when the stream failed with an `error` step */
+  error?: ErrorStreamEvent;
+}
+
+export type StreamAction = { type: 'event'; event: StreamEvent };
+
+export const initialStreamState: StreamState = {
+  phase: 'pending',
+  answer: '',
+  thoughtProcess: '',
+  isReflecting: false,
+  reflectionEvents: [],
+  latestStatus: null,
+};
+
+/**
+ * Whether the stream reached a terminal step; a close before that means the connection dropped
+ */
+export function isStreamComplete(state: StreamState): boolean {
+  return state.phase === 'completed' || state.phase === 'failed';
+}
+
+function applyEvent(state: StreamState, event: StreamEvent): StreamState {
+  const next: StreamState = { ...state, phase: 'streaming' };
+
+  switch (event.step) {
+    case 'tools_stream':
+      return {
+        ...next,
+        isReflecting: true,
+        thoughtProcess: state.thoughtProcess + event.delta,
+        latestStatus: null,
+      };
+
+    case 'assistant_stream': {
+      // The first answer delta closes the thought currently being streamed
+      const reflectionEvents = state.isReflecting
+        ? [...state.reflectionEvents, state.thoughtProcess]
+        : state.reflectionEvents;
+      return {
+        ...next,
+        reflectionEvents,
+        isReflecting: false,
+        answer: state.answer + event.delta,
+        latestStatus: null,
+      };
+    }
+
+    case 'reflection_end':
+    case 'reflection_skip':
+    case 'status':
+      return {
+        ...next,
+        latestStatus: event.message,
+        reflectionEvents: event.message
+          ? [...state.reflectionEvents, event.message]
+          : state.reflectionEvents,
+      };
+
+    case 'end':
+      return { ...next, phase: 'completed', end: event };
+
+    case 'error':
+      return { ...next, phase: 'failed', error: event };
+
+    default:
+      return assertNever(event);
+  }
+}
+
+/**
+ * Pure state machine for a single streamed response
+ */
+export function streamReducer(state: StreamState, action: StreamAction): StreamState {
+  switch (action.type) {
+    case 'event':
+      // Nothing after a terminal step is meaningful (the server may keep flushing)
+      if (isStreamComplete(state)) return state;
+      return applyEvent(state, action.event);
+
+    default:
+      return state;
+  }
+}
+
+/** Where to look for the finished response of an interrupted stream */
+export interface StreamResumeTarget {
+  /** Server thread the question was asked in */
+  threadId: number;
+  /** Agent responses the thread already had before the question was asked */
+  knownResponseIds: number[];
+}
+
+/** Assistant chat message built from a stream, as kept in the chat's message list */
+export interface StreamedAssistantMessage {
+  role: 'assistant';
+  /** Answer text, or `error:: <reason>` for failed responses */
+  content: string;
+  query: string;
+  /** Agent response id; the thread id for errors, a local id for interrupted answers */
+  id: string | number | undefined;
+  is_upvote: boolean;
+  is_downvote: boolean;
+  followUpQuestions: string[];
+  references: NonNullable<StreamEndOutput['references']>;
+  indexes?: string[];
+  sources?: string;
+  reflectionEvents?: string[];
+  reflectionContents?: string[];
+  /** Answered in this page view (not loaded from history) */
+  currentChat?: boolean;
+  guardrail_triggered?: boolean;
+  blocked?: boolean;
+  /** The stream dropped before the response completed */
+  interrupted?: boolean;
+  /** Set on interrupted messages whose finished response can still be fetched */
+  resume?: StreamResumeTarget;
+}
+
+/**
+ * Builds the chat message for a stream that reached a terminal step
+ *
+ * @param state Final stream state
+ * @param query The user question the response answers
+ * @param threadId Current thread id, used as the id of error messages
+ * @returns The assistant message, or null if the stream has not completed
+ */
+export function buildAssistantMessage(
+  state: StreamState,
+  query: string,
+  threadId: string
+): StreamedAssistantMessage | null {
+  if (state.error) {
+    return {
+      role: 'assistant',
+      content: `error:: ${state.error.message}`,
+      id: threadId,
+      is_upvote: false,
+      is_downvote: false,
+      followUpQuestions: [],
+      references: [],
+      query,
+      guardrail_triggered: state.error.blocked,
+      blocked: state.error.blocked,
+    };
+  }
+
+  if (!state.end) {
+    return null;
+  }
+
+  const output = state.end.output;
+  if (!state.end.success) {
+    return {
+      role: 'assistant',
+      content: `error:: ${output.message ?? ''}`,
+      id: threadId,
+      is_upvote: false,
+      is_downvote: false,
+      followUpQuestions: [],
+      references: [],
+      query,
+      guardrail_triggered: output.guardrail_triggered || false,
+      blocked: output.blocked || false,
+    };
+  }
+
+  return {
+    role: 'assistant',
+    content: output.answer ?? '',
+    query,
+    id: output.agent_response_id,
+    is_upvote: false,
+    is_downvote: false,
+    followUpQuestions: output.followup_questions ?? [],
+    references: output.references ?? [],
+    indexes: output.indexes,
+    sources: output.sources,
+    reflectionEvents: [...state.reflectionEvents],
+    reflectionContents: [],
+    currentChat: true,
+    guardrail_triggered: output.guardrail_triggered || false,
+    blocked: output.blocked || false,
+  };
+}
+
+/**
+ * Builds the message kept when the stream dropped
+ *
+ * @param resume Where the finished response can be looked up, if the thread is on the server
+ * @returns An `interrupted` message with the partial answer, or null if nothing was streamed
+ */
+export function buildInterruptedMessage(
+  state: StreamState,
+  query: string,
+  resume?: StreamResumeTarget
+): StreamedAssistantMessage | null {
+  if (!state.answer) {
+    return null;
+  }
+
+  return {
+    role: 'assistant',
+    content: state.answer,
+    query,
+    id: `interrupted-${Date.now()}`,
+    is_upvote: false,
+    is_downvote: false,
+    followUpQuestions: [],
+    references: [],
+    reflectionEvents: [...state.reflectionEvents],
+    interrupted: true,
+    ...(resume && { resume }),
+  };
+}
+
+/**
+ * Finds the response to an interrupted question among a thread's agent responses
+ *
+ * @returns The newest response to `query` that the thread did not have before, or null
+ * if the server has not finished (or never received) it
+ */
+export function findRecoveredResponse(
+  chatlog: ChatThreadAgentResponsesV2 | null | undefined,
+  query: string,
+  target: StreamResumeTarget
+): ChatThreadAgentResponsesItemsV2 | null {
+  const known = new Set(target.knownResponseIds);
+  const responses = chatlog?.data?.agent_responses ?? [];
+  for (let index = responses.length - 1; index >= 0; index--) {
+    const item = responses[index];
+    if (!known.has(item.id) && item.question?.trim() === query.trim()) {
+      return item;
+    }
+  }
+  return null;
+}
+
+/**
+ * Builds the completed message for a response found by findRecoveredResponse
+ * The reflection timeline streamed before the drop is kept; the history API has none.
+ */
+export function buildRecoveredMessage(
+  item: ChatThreadAgentResponsesItemsV2,
+  interrupted: Pick<StreamedAssistantMessage, 'query' | 'reflectionEvents'>
+): StreamedAssistantMessage {
+  const response: Partial<AgentChatResponse> = item.response ?? {};
+  const answered = response.success !== false || response.guardrail_triggered;
+  return {
+    role: 'assistant',
+    content: answered ? response.answer ?? '' : `error:: ${response.message ?? ''}`,
+    query: interrupted.query,
+    id: item.id,
+    is_upvote: false,
+    is_downvote: false,
+    followUpQuestions: response.followup_questions ?? [],
+    references: response.references ?? [],
+    indexes: response.indexes,
+    sources: response.sources,
+    reflectionEvents: interrupted.reflectionEvents ?? [],
+    guardrail_triggered: response.guardrail_triggered || false,
+    blocked: response.blocked || false,
+  };
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { decodeCitationRef, getCitationHref, parseCitationPathPrefixes, resolveCitationUrl } from './citations';
+
+const BASE_URL = 'https://ejento.example.com';
+const PREFIXES = ['/documents/'];
+
+function resolve(referenceUrl: string, prefixes: string[] = PREFIXES): string | null {
+  return resolveCitationUrl(referenceUrl, BASE_URL, prefixes)?.toString() ?? null;
+}
+
+describe('getCitationHref / decodeCitationRef', () => {
+  it('round-trips document references through the citation route', () => {
+    const href = getCitationHref('/documents/résumé 1.pdf?v=2');
+    expect(href.startsWith('/api/citations/')).toBe(true);
+    expect(decodeCitationRef(href.slice('/api/citations/'.length))).toBe('/documents/résumé 1.pdf?v=2');
+  });
+
+  it('leaves web references and anchors alone', () => {
+    expect(getCitationHref('https://example.com/page')).toBe('https://example.com/page');
+    expect(getCitationHref('#source-1')).toBe('#source-1');
+  });
+
+  it('rejects segments that are not base64url text', () => {
+    expect(decodeCitationRef('a/b')).toBeNull();
+    expect(decodeCitationRef('')).toBeNull();
+    // 0xff 0xfe is not valid UTF-8
+    expect(decodeCitationRef('__4')).toBeNull();
+  });
+});
+
+describe('parseCitationPathPrefixes', () => {
+  it('normalizes each prefix to /prefix/ and drops empty ones', () => {
+    expect(parseCitationPathPrefixes(' documents, /files/ ,,/')).toEqual(['/documents/', '/files/']);
+    expect(parseCitationPathPrefixes(undefined)).toEqual([]);
+  });
+});
+
+describe('resolveCitationUrl', () => {
+  it('accepts documents under an allowed prefix on the Ejento host', () => {
+    expect(resolve('/documents/report.pdf')).toBe('https://ejento.example.com/documents/report.pdf');
+    expect(resolve('https://ejento.example.com/documents/a/b.md')).toBe('https://ejento.example.com/documents/a/b.md');
+  });
+
+  it('rejects references on other origins', () => {
+    expect(resolve('https://attacker.example/documents/report.pdf')).toBeNull();
+    expect(resolve('//attacker.example/documents/report.pdf')).toBeNull();
+    expect(resolve('http://ejento.example.com/documents/report.pdf')).toBeNull();
+    expect(resolve('https://ejento.example.com:8443/documents/report.pdf')).toBeNull();
+    expect(resolve('javascript:alert(1)')).toBeNull();
+  });
+
+  it('rejects encoded dot segments and separators', () => {
+    expect(resolve('/documents/%2e%2e/api/v2/users/me')).toBeNull();
+    expect(resolve('/documents/%2E%2E/%2E%2E/secrets')).toBeNull();
+    expect(resolve('/documents/a%2fb.pdf')).toBeNull();
+    expect(resolve('/documents/a%5cb.pdf')).toBeNull();
+  });
+
+  it('rejects paths that leave the allowed prefixes', () => {
+    expect(resolve('/files/report.pdf')).toBeNull();
+    expect(resolve('/documents/../api/v2/users/me')).toBeNull();
+    expect(resolve('/documentsX/report.pdf')).toBeNull();
+    expect(resolve('/documents/report.pdf', [])).toBeNull();
+  });
+
+  it('rejects control characters and empty references', () => {
+    expect(resolve('/documents/a\nb.pdf')).toBeNull();
+    expect(resolve('   ')).toBeNull();
+  });
+
+  it('refuses API routes the proxy governs and auth paths, even under an allowed prefix', () => {
+    const apiPrefixes = ['/api/'];
+    expect(resolve('/api/v2/users/me', apiPrefixes)).toBeNull();
+    expect(resolve('/api/v2/chat-threads/12/agent-responses', apiPrefixes)).toBeNull();
+    expect(resolve('/api/v2/agents/3/chat-threads', apiPrefixes)).toBeNull();
+    expect(resolve('/documents/auth/token')).toBeNull();
+    expect(resolve('/api/v2/files/12', apiPrefixes)).toBe('https://ejento.example.com/api/v2/files/12');
+  });
+
+  it('re-checks same-origin redirects like the citation route does', () => {
+    const target = new URL('https://ejento.example.com/documents/report.pdf');
+    const follow = (location: string) => resolve(new URL(location, target).toString());
+
+    expect(follow('/documents/report-v2.pdf')).toBe('https://ejento.example.com/documents/report-v2.pdf');
+    expect(follow('v3.pdf')).toBe('https://ejento.example.com/documents/v3.pdf');
+    expect(follow('/api/v2/users/me')).toBeNull();
+    expect(follow('/documents/%2e%2e/api/v2/users/me')).toBeNull();
+    expect(follow('/private/keys')).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Citation Links
+ *
+ * References in agent responses either point to the web (opened as is) or to documents
+ * stored in Ejento, which need the caller's credentials. Document links go through
+ * /api/citations/[ref], which fetches the document with the server-side credentials, so
+ * no token ever appears in a URL (browser history, referrers, server logs) and citations
+ * also work in ENV_DRIVEN mode, where the browser has no token at all.
+ *
+ * `ref` is the reference URL, base64url-encoded so it fits in one path segment.
+ */
+
+import { getProxyRoutes, matchProxyRoute } from './proxy-policy';
+
+export const CITATION_ROUTE = '/api/citations/';
+
+/**
+ * Whether a reference points to the web rather than to a document stored in Ejento
+ */
+export function isExternalReference(url: string): boolean {
+  return url.includes('https://') || url.includes('www.');
+}
+
+function toBase64Url(value: string): string {
+  let binary = '';
+  new TextEncoder().encode(value).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const bytes = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+  return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+}
+
+/**
+ * Link for a reference: web references (and in-page anchors) are used as is, documents go
+ * through the citation route
+ */
+export function getCitationHref(url: string): string {
+  if (isExternalReference(url) || url.startsWith('#') || url.startsWith(CITATION_ROUTE)) return url;
+  return `${CITATION_ROUTE}${toBase64Url(url)}`;
+}
+
+/**
+ * Reference URL carried by a citation route segment, or null if it is not valid base64url
+ */
+export function decodeCitationRef(ref: string): string | null {
+  if (!/^[A-Za-z0-9_-]{1,4096}$/.test(ref)) return null;
+  try {
+    return fromBase64Url(ref);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Document path prefixes the citation route may fetch, from a comma-separated list such
+ * as EJENTO_CITATION_PATH_PREFIXES; each is normalized to `/prefix/`
+ */
+export function parseCitationPathPrefixes(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((prefix) => prefix.trim().replace(/^\/*/, '/').replace(/\/*$/, '/'))
+    .filter((prefix) => prefix !== '/');
+}
+
+/**
+ * Resolves a document reference against the Ejento base URL
+ *
+ * Only references on the Ejento host, over HTTP(S), under one of the allowed document
+ * path prefixes are accepted. Everything else returns null, since the citation route
+ * fetches with the server-side credentials: with no prefixes configured, no document is
+ * fetched at all. API endpoints the proxy governs and auth paths are refused even under
+ * an allowed prefix.
+ */
+export function resolveCitationUrl(referenceUrl: string, baseUrl: string, allowedPrefixes: string[]): URL | null {
+  if (!referenceUrl.trim() || /[\u0000-\u001f\u007f]/.test(referenceUrl)) return null;
+
+  let base: URL;
+  let target: URL;
+  try {
+    base = new URL(baseUrl);
+    target = new URL(referenceUrl.trim(), `${base.origin}/`);
+  } catch {
+    return null;
+  }
+
+  if (target.origin !== base.origin || (target.protocol !== 'https:' && target.protocol !== 'http:')) {
+    return null;
+  }
+
+  // Encoded separators or dot segments could step out of the prefix upstream
+  if (/%2f|%5c|%2e/i.test(target.pathname)) return null;
+  if (!allowedPrefixes.some((prefix) => target.pathname.startsWith(prefix))) return null;
+
+  // The citation route is not a second way into the API
+  const segments = target.pathname.split('/').filter(Boolean);
+  if (matchProxyRoute(segments, getProxyRoutes(false)) || segments.includes('auth')) {
+    return null;
+  }
+
+  return target;
+}
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The module guards against client bundles; that guard only resolves inside Next.js
+vi.mock('server-only', () => ({}));
+
+import {
+  CREDENTIALS_COOKIE_MAX_AGE_SECONDS,
+  CredentialCookieConfigError,
+  openCredentials,
+  PROFILE_CREDENTIALS_MAX_AGE_SECONDS,
+  sealCredentials,
+  type StoredCredentials,
+} from './credential-cookie';
+
+const SECRET = 'a'.repeat(32);
+const NEW_SECRET = 'b'.repeat(32);
+
+const CREDENTIALS: StoredCredentials = {
+  baseUrl: 'https://ejento.example.com',
+  apiKey: 'api-key',
+  ejentoAccessToken: 'Bearer token',
+  agentId: '7',
+};
+
+/** Replaces one of the five dot-separated parts of a sealed value */
+function replacePart(value: string, index: number, replace: (part: string) => string): string {
+  const parts = value.split('.');
+  parts[index] = replace(parts[index]);
+  return parts.join('.');
+}
+
+/** Flips the first bit of a base64url part */
+function flipBit(part: string): string {
+  const bytes = Buffer.from(part, 'base64url');
+  bytes[0] ^= 1;
+  return bytes.toString('base64url');
+}
+
+beforeEach(() => {
+  vi.stubEnv('CREDENTIALS_COOKIE_SECRET', SECRET);
+  vi.stubEnv('CREDENTIALS_COOKIE_PREVIOUS_SECRETS', '');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.useRealTimers();
+});
+
+describe('sealCredentials / openCredentials', () => {
+  it('round-trips credentials', () => {
+    expect(openCredentials(sealCredentials(CREDENTIALS))).toEqual(CREDENTIALS);
+    expect(openCredentials(sealCredentials(CREDENTIALS, 'profile'), 'profile')).toEqual(CREDENTIALS);
+  });
+
+  it('does not open a value sealed for another purpose', () => {
+    expect(openCredentials(sealCredentials(CREDENTIALS, 'profile'), 'cookie')).toBeNull();
+    expect(openCredentials(sealCredentials(CREDENTIALS, 'cookie'), 'profile')).toBeNull();
+  });
+
+  it('rejects tampered values', () => {
+    const sealed = sealCredentials(CREDENTIALS);
+    expect(openCredentials(replacePart(sealed, 2, flipBit))).toBeNull(); // iv
+    expect(openCredentials(replacePart(sealed, 3, flipBit))).toBeNull(); // ciphertext
+    expect(openCredentials(replacePart(sealed, 4, flipBit))).toBeNull(); // tag
+    expect(openCredentials(replacePart(sealed, 0, () => 'v2'))).toBeNull();
+    expect(openCredentials(`${sealed}.extra`)).toBeNull();
+    expect(openCredentials('not-a-sealed-value')).toBeNull();
+    expect(openCredentials(undefined)).toBeNull();
+  });
+
+  it('rejects truncated authentication tags', () => {
+    const sealed = sealCredentials(CREDENTIALS);
+    const truncate = (part: string) => Buffer.from(part, 'base64url').subarray(0, 12).toString('base64url');
+    expect(openCredentials(replacePart(sealed, 4, truncate))).toBeNull();
+  });
+
+  it('expires values after their purpose allows', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    const cookie = sealCredentials(CREDENTIALS);
+    const profile = sealCredentials(CREDENTIALS, 'profile');
+
+    vi.setSystemTime(Date.now() + CREDENTIALS_COOKIE_MAX_AGE_SECONDS * 1000 - 1000);
+    expect(openCredentials(cookie)).toEqual(CREDENTIALS);
+
+    vi.setSystemTime(Date.now() + 2000);
+    expect(openCredentials(cookie)).toBeNull();
+    expect(openCredentials(profile, 'profile')).toEqual(CREDENTIALS);
+
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z').getTime() + PROFILE_CREDENTIALS_MAX_AGE_SECONDS * 1000 + 1000);
+    expect(openCredentials(profile, 'profile')).toBeNull();
+  });
+
+  it('opens values sealed with a previous secret after rotation', () => {
+    const sealedBefore = sealCredentials(CREDENTIALS);
+
+    vi.stubEnv('CREDENTIALS_COOKIE_SECRET', NEW_SECRET);
+    vi.stubEnv('CREDENTIALS_COOKIE_PREVIOUS_SECRETS', SECRET);
+    expect(openCredentials(sealedBefore)).toEqual(CREDENTIALS);
+
+    // New values are sealed with the new secret
+    const sealedAfter = sealCredentials(CREDENTIALS);
+    expect(sealedAfter.split('.')[1]).not.toBe(sealedBefore.split('.')[1]);
+
+    // Once the old secret is retired, its values no longer open
+    vi.stubEnv('CREDENTIALS_COOKIE_PREVIOUS_SECRETS', '');
+    expect(openCredentials(sealedBefore)).toBeNull();
+    expect(openCredentials(sealedAfter)).toEqual(CREDENTIALS);
+  });
+
+  it('refuses secrets that are too short', () => {
+    vi.stubEnv('CREDENTIALS_COOKIE_SECRET', 'short');
+    expect(() => sealCredentials(CREDENTIALS)).toThrow(CredentialCookieConfigError);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(openCredentials(`v1.id.iv.ciphertext.tag`)).toBeNull();
+  });
+});
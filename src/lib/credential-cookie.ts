@@ -0,0 +1,198 @@
+/**
+ * Credential Cookie Sealing (server-only)
+ *
+ * The `ejento_api_credentials` cookie is encrypted and authenticated with AES-256-GCM
+ * so tokens never sit in plaintext in browser cookie stores or server logs.
+ *
+ * Keys come from CREDENTIALS_COOKIE_SECRET (used to seal) and the comma-separated
+ * CREDENTIALS_COOKIE_PREVIOUS_SECRETS (still accepted when opening), which lets a
+ * secret be rotated without logging everyone out. Each sealed value names the key
+ * it was sealed with by a short fingerprint, never by the secret itself.
+ *
+ * Cookies that are tampered with, sealed with an unknown key, expired, or still in
+ * the legacy plain-JSON format simply fail to open; callers treat them as absent.
+ *
+ * Saved agent profiles keep their credentials sealed the same way, but for the
+ * 'profile' purpose: a profile value never opens as a cookie (or the reverse) and
+ * lives longer, since it is re-sealed every time the profile is used.
+ */
+
+import 'server-only';
+import { createCipheriv, createDecipheriv, createHash, hkdfSync, randomBytes } from 'crypto';
+
+export const CREDENTIALS_COOKIE_NAME = 'ejento_api_credentials';
+
+/** Lifetime of the cookie and of the sealed payload (7 days) */
+export const CREDENTIALS_COOKIE_MAX_AGE_SECONDS = 60 * 60 * 24 * 7;
+
+/** Lifetime of the credentials sealed into a saved profile (90 days since last use) */
+export const PROFILE_CREDENTIALS_MAX_AGE_SECONDS = 60 * 60 * 24 * 90;
+
+/** Where a sealed value is kept: the credentials cookie or a saved profile */
+export type SealPurpose = 'cookie' | 'profile';
+
+export interface StoredCredentials {
+  baseUrl: string;
+  apiKey: string;
+  ejentoAccessToken: string;
+  agentId: string;
+}
+
+interface SealingKey {
+  id: string;
+  key: Buffer;
+}
+
+export class CredentialCookieConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CredentialCookieConfigError';
+  }
+}
+
+const FORMAT_VERSION = 'v1';
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+const MIN_SECRET_LENGTH = 32;
+// Binds ciphertexts to their purpose so a sealed value cannot be replayed in another context
+const PURPOSES: Record<SealPurpose, { associatedData: Buffer; maxAgeSeconds: number }> = {
+  cookie: {
+    associatedData: Buffer.from(`${CREDENTIALS_COOKIE_NAME}.${FORMAT_VERSION}`),
+    maxAgeSeconds: CREDENTIALS_COOKIE_MAX_AGE_SECONDS,
+  },
+  profile: {
+    associatedData: Buffer.from(`ejento_profile_credentials.${FORMAT_VERSION}`),
+    maxAgeSeconds: PROFILE_CREDENTIALS_MAX_AGE_SECONDS,
+  },
+};
+
+let ephemeralSecret: string | null = null;
+
+function deriveKey(secret: string): SealingKey {
+  const key = Buffer.from(hkdfSync('sha256', secret, '', 'ejento-credentials-cookie', 32));
+  const id = createHash('sha256').update(key).digest('hex').slice(0, 8);
+  return { id, key };
+}
+
+/**
+ * Resolves the sealing keys; the first one seals, all of them open
+ */
+function getSealingKeys(): SealingKey[] {
+  const current = process.env.CREDENTIALS_COOKIE_SECRET?.trim();
+  const previous = (process.env.CREDENTIALS_COOKIE_PREVIOUS_SECRETS || '')
+    .split(',')
+    .map((secret) => secret.trim())
+    .filter(Boolean);
+
+  if (!current) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new CredentialCookieConfigError(
+        'CREDENTIALS_COOKIE_SECRET must be set to store credentials securely.'
+      );
+    }
+    // Development convenience: a per-process key, so cookies stop working after a restart
+    if (!ephemeralSecret) {
+      ephemeralSecret = randomBytes(32).toString('hex');
+      console.warn('CREDENTIALS_COOKIE_SECRET is not set; using a temporary key for this process.');
+    }
+    return [deriveKey(ephemeralSecret)];
+  }
+
+  if (current.length < MIN_SECRET_LENGTH) {
+    throw new CredentialCookieConfigError(
+      `CREDENTIALS_COOKIE_SECRET must be at least ${MIN_SECRET_LENGTH} characters long.`
+    );
+  }
+
+  return [current, ...previous].map(deriveKey);
+}
+
+/**
+ * Encrypts credentials into a cookie (or saved profile) value
+ *
+ * @throws CredentialCookieConfigError if no usable secret is configured
+ */
+export function sealCredentials(credentials: StoredCredentials, purpose: SealPurpose = 'cookie'): string {
+  const [{ id, key }] = getSealingKeys();
+  const iv = randomBytes(IV_LENGTH);
+  const payload = JSON.stringify({ ...credentials, iat: Date.now() });
+
+  const cipher = createCipheriv('aes-256-gcm', key, iv, { authTagLength: AUTH_TAG_LENGTH });
+  cipher.setAAD(PURPOSES[purpose].associatedData);
+  const ciphertext = Buffer.concat([cipher.update(payload, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [FORMAT_VERSION, id, iv.toString('base64url'), ciphertext.toString('base64url'), tag.toString('base64url')].join('.');
+}
+
+/**
+ * Decrypts and verifies a cookie (or saved profile) value
+ *
+ * @returns The credentials, or null if the value is legacy, tampered, expired, sealed with an
+ * unknown key or sealed for another purpose
+ */
+export function openCredentials(value: string | undefined, purpose: SealPurpose = 'cookie'): StoredCredentials | null {
+  if (!value) return null;
+
+  const parts = value.split('.');
+  if (parts.length !== 5 || parts[0] !== FORMAT_VERSION) {
+    return null;
+  }
+  const [, keyId, ivPart, ciphertextPart, tagPart] = parts;
+
+  let keys: SealingKey[];
+  try {
+    keys = getSealingKeys();
+  } catch (error) {
+    console.error('Cannot open credentials cookie:', error instanceof Error ? error.message : error);
+    return null;
+  }
+
+  const sealingKey = keys.find((candidate) => candidate.id === keyId);
+  if (!sealingKey) {
+    return null;
+  }
+
+  // GCM accepts truncated tags, which are far easier to forge: only full-length tags open
+  const tag = Buffer.from(tagPart, 'base64url');
+  if (tag.length !== AUTH_TAG_LENGTH) {
+    return null;
+  }
+
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', sealingKey.key, Buffer.from(ivPart, 'base64url'), {
+      authTagLength: AUTH_TAG_LENGTH,
+    });
+    decipher.setAAD(PURPOSES[purpose].associatedData);
+    decipher.setAuthTag(tag);
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(ciphertextPart, 'base64url')),
+      decipher.final(),
+    ]).toString('utf8');
+
+    const { iat, ...credentials } = JSON.parse(plaintext);
+    if (typeof iat !== 'number' || Date.now() - iat > PURPOSES[purpose].maxAgeSeconds * 1000) {
+      return null;
+    }
+    if (!credentials.baseUrl || !credentials.apiKey || !credentials.ejentoAccessToken) {
+      return null;
+    }
+    return credentials as StoredCredentials;
+  } catch {
+    // Authentication failed: the value was modified or sealed with a different key
+    return null;
+  }
+}
+
+/**
+ * Cookie options shared by every place that writes the credentials cookie
+ */
+export function getCredentialsCookieOptions() {
+  return {
+    httpOnly: true, // Prevents JavaScript access
+    secure: process.env.NODE_ENV === 'production', // HTTPS only in production
+    sameSite: 'lax' as const,
+    path: '/',
+    maxAge: CREDENTIALS_COOKIE_MAX_AGE_SECONDS,
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Structured Logging
+ *
+ * Emits one JSON object per line so proxy and client logs can be searched by
+ * correlation id. Credentials are redacted before anything is written: values
+ * under sensitive keys are masked, and tokens embedded in strings (Bearer
+ * headers, `access_token=` query parameters) are scrubbed.
+ */
+
+export type LogLevel = 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+const REDACTED = '[REDACTED]';
+
+const SENSITIVE_KEY = /authorization|api[-_]?key|subscription[-_]?key|token|secret|password|cookie|credential/i;
+
+const MAX_DEPTH = 5;
+
+function redactString(value: string): string {
+  return value
+    .replace(/(Bearer\s+)[^\s"',]+/gi, `$1${REDACTED}`)
+    .replace(/((?:access_token|token|api[-_]?key|code)=)[^&\s"']+/gi, `$1${REDACTED}`);
+}
+
+/**
+ * Returns a copy of a value with credentials removed
+ */
+export function redact(value: unknown, depth: number = 0): unknown {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message) };
+  }
+  if (!value || typeof value !== 'object' || depth >= MAX_DEPTH) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    result[key] = SENSITIVE_KEY.test(key) ? REDACTED : redact(entry, depth + 1);
+  }
+  return result;
+}
+
+/**
+ * Writes a structured log line
+ *
+ * @param level Severity; picks the matching console method
+ * @param event Dotted event name, e.g. `proxy.request`
+ * @param fields Event details (redacted before writing)
+ */
+export function logEvent(level: LogLevel, event: string, fields: LogFields = {}) {
+  const entry = JSON.stringify({
+    timestamp: new Date().toISOString(),
+    level,
+    event,
+    ...(redact(fields) as LogFields),
+  });
+
+  if (level === 'error') {
+    console.error(entry);
+  } else if (level === 'warn') {
+    console.warn(entry);
+  } else {
+    console.log(entry);
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * Agent Profiles
+ *
+ * Named sets of credentials + agent id for manual (ENV_DRIVEN=false) configuration,
+ * so users testing several agents can switch without re-entering credentials.
+ *
+ * The active profile's config is still mirrored to the `app-config` entry that
+ * ConfigContext has always used; the profile list lives next to it under
+ * `app-config-profiles`. Browser state tied to the current agent (active thread,
+ * selected corpus, pending query) is stashed per profile on every switch so each
+ * profile keeps its own history position.
+ *
+ * Profiles never hold the API key or access token in plaintext. Each successful validation
+ * returns them sealed by the server (see /api/config/validate); the profile keeps that
+ * opaque value and sends it back to activate the profile again. Profiles saved before
+ * sealing are migrated on load through /api/config/seal.
+ *
+ * Activating a profile replaces the credentials cookie shared by every tab, so the change
+ * is broadcast to other open tabs, which reload onto the new profile.
+ */
+
+import type { UserConfig } from '@/app/context/ConfigContext';
+
+export interface AgentProfile {
+  id: string;
+  /** Display name, e.g. "HR bot – prod" */
+  name: string;
+  /** Agent config with the API key and access token blanked (see withoutSecrets) */
+  config: UserConfig;
+  /** Credentials sealed by the server for this profile; only the server can open them */
+  sealedCredentials?: string;
+  /** Snapshot of PROFILE_SCOPED_KEYS taken when switching away from this profile */
+  sessionState?: Record<string, string>;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ProfileStore {
+  activeProfileId: string | null;
+  profiles: AgentProfile[];
+}
+
+export const PROFILES_STORAGE_KEY = 'app-config-profiles';
+const LEGACY_CONFIG_KEY = 'app-config';
+const CHANNEL_NAME = 'ejento_profile_changes';
+
+/** localStorage keys that belong to the agent currently in use */
+export const PROFILE_SCOPED_KEYS = ['active_thread_id', 'selectedCorpus', 'thread_id', 'query', 'message_id'];
+
+const EMPTY_STORE: ProfileStore = { activeProfileId: null, profiles: [] };
+
+export type ProfileChange =
+  | { type: 'profiles-updated' }
+  /** Another profile (or new credentials) now backs the credentials cookie */
+  | { type: 'profile-activated'; profileId: string };
+
+export type ProfileChangeListener = (change: ProfileChange) => void;
+
+let channel: BroadcastChannel | null = null;
+
+export function createProfileId(): string {
+  return `profile_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+}
+
+/**
+ * Derives a default profile name from a config (used when migrating the single legacy config)
+ */
+export function getDefaultProfileName(config: Pick<UserConfig, 'agentId' | 'baseUrl'>): string {
+  let host = '';
+  try {
+    host = new URL(config.baseUrl).host;
+  } catch {
+    // Not a valid URL; fall back to the agent id only
+  }
+  return host ? `Agent ${config.agentId} – ${host}` : `Agent ${config.agentId}`;
+}
+
+/**
+ * Blanks the API key and access token of a config before it is kept in localStorage
+ */
+export function withoutSecrets(config: UserConfig): UserConfig {
+  return { ...config, apiKey: '', ejentoAccessToken: '' };
+}
+
+function hasPlaintextSecrets(profile: AgentProfile): boolean {
+  return Boolean(profile.config.apiKey || profile.config.ejentoAccessToken);
+}
+
+/**
+ * Reads the profile list, migrating a pre-profiles `app-config` into a first profile
+ */
+export function loadProfileStore(): ProfileStore {
+  if (typeof window === 'undefined') {
+    return EMPTY_STORE;
+  }
+
+  try {
+    const saved = localStorage.getItem(PROFILES_STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved) as ProfileStore;
+      if (Array.isArray(parsed.profiles)) {
+        return { activeProfileId: parsed.activeProfileId ?? null, profiles: parsed.profiles };
+      }
+    }
+
+    const legacy = localStorage.getItem(LEGACY_CONFIG_KEY);
+    if (legacy) {
+      const config = JSON.parse(legacy) as UserConfig;
+      if (config?.agentId) {
+        const now = Date.now();
+        const profile: AgentProfile = {
+          id: createProfileId(),
+          name: getDefaultProfileName(config),
+          config,
+          createdAt: now,
+          updatedAt: now,
+        };
+        const store = { activeProfileId: profile.id, profiles: [profile] };
+        saveProfileStore(store);
+        return store;
+      }
+    }
+  } catch (error) {
+    console.error('Failed to load agent profiles:', error);
+  }
+
+  return EMPTY_STORE;
+}
+
+export function saveProfileStore(store: ProfileStore) {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(store));
+}
+
+export function clearProfileStore() {
+  if (typeof window === 'undefined') return;
+  localStorage.removeItem(PROFILES_STORAGE_KEY);
+}
+
+/**
+ * Trades the plaintext credentials of profiles saved before sealing for sealed ones
+ * A profile that cannot be sealed (offline, server misconfigured) is left as it is and
+ * retried on the next load.
+ *
+ * @returns The store, saved again if any profile changed
+ */
+export async function sealLegacyProfiles(store: ProfileStore): Promise<ProfileStore> {
+  if (!store.profiles.some(hasPlaintextSecrets)) {
+    return store;
+  }
+
+  const profiles = await Promise.all(
+    store.profiles.map(async (profile) => {
+      if (!hasPlaintextSecrets(profile)) return profile;
+      try {
+        const response = await fetch('/api/config/seal', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ config: profile.config }),
+        });
+        const result = await response.json();
+        if (!result.success || typeof result.sealedCredentials !== 'string') {
+          return profile;
+        }
+        return { ...profile, config: withoutSecrets(profile.config), sealedCredentials: result.sealedCredentials };
+      } catch (error) {
+        console.error('Failed to seal profile credentials:', error);
+        return profile;
+      }
+    })
+  );
+
+  const sealed = { ...store, profiles };
+  saveProfileStore(sealed);
+  return sealed;
+}
+
+function getChannel(): BroadcastChannel | null {
+  if (typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') {
+    return null;
+  }
+  if (!channel) {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+}
+
+/**
+ * Tells other open tabs that the saved profiles or the active profile changed
+ */
+export function publishProfileChange(change: ProfileChange): void {
+  try {
+    getChannel()?.postMessage(change);
+  } catch (error) {
+    console.error('Error publishing profile change:', error);
+  }
+}
+
+/**
+ * Subscribes to profile changes made by other tabs
+ *
+ * @returns A function that removes the listener
+ */
+export function subscribeToProfileChanges(listener: ProfileChangeListener): () => void {
+  const target = getChannel();
+  if (!target) return () => {};
+
+  const handleMessage = (event: MessageEvent<ProfileChange>) => {
+    if (event.data && typeof event.data.type === 'string') {
+      listener(event.data);
+    }
+  };
+
+  target.addEventListener('message', handleMessage);
+  return () => target.removeEventListener('message', handleMessage);
+}
+
+/**
+ * Captures the agent-specific localStorage entries of the profile being left
+ */
+export function captureProfileSessionState(): Record<string, string> {
+  const state: Record<string, string> = {};
+  PROFILE_SCOPED_KEYS.forEach((key) => {
+    const value = localStorage.getItem(key);
+    if (value !== null) {
+      state[key] = value;
+    }
+  });
+  return state;
+}
+
+/**
+ * Replaces the agent-specific localStorage entries with a profile's snapshot
+ */
+export function restoreProfileSessionState(state: Record<string, string> = {}) {
+  PROFILE_SCOPED_KEYS.forEach((key) => {
+    if (state[key] !== undefined) {
+      localStorage.setItem(key, state[key]);
+    } else {
+      localStorage.removeItem(key);
+    }
+  });
+  // This tab's own active thread belongs to the profile being left
+  sessionStorage.removeItem('active_thread_id');
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { checkProxyRequest } from './proxy-policy';
+
+const PUBLIC_AGENT = { publicAgent: true, agentId: '7' };
+const CONFIGURED = { publicAgent: false };
+
+function check(path: string, method: string, options: { publicAgent: boolean; agentId?: string }) {
+  return checkProxyRequest(path.split('/'), method, options);
+}
+
+describe('checkProxyRequest in PUBLIC_AGENT mode', () => {
+  it('allows chatting and feedback with the configured agent', () => {
+    expect(check('response-service/api/v2/agents/7/responses/stream', 'POST', PUBLIC_AGENT).allowed).toBe(true);
+    expect(check('api/v2/agents/7', 'GET', PUBLIC_AGENT).allowed).toBe(true);
+    expect(check('api/v2/agent-responses/99/feedbacks', 'POST', PUBLIC_AGENT).allowed).toBe(true);
+  });
+
+  it('refuses other agents', () => {
+    expect(check('response-service/api/v2/agents/8/responses', 'POST', PUBLIC_AGENT)).toMatchObject({
+      allowed: false,
+      status: 403,
+    });
+  });
+
+  it('refuses server-side threads and the author account', () => {
+    for (const [path, method] of [
+      ['api/v2/agents/7/chat-threads', 'GET'],
+      ['api/v2/agents/7/chat-threads', 'POST'],
+      ['api/v2/chat-threads/12/agent-responses', 'GET'],
+      ['api/v2/chat-threads/12', 'PUT'],
+      ['api/v2/chat-threads/12', 'DELETE'],
+      ['api/v2/users/me', 'GET'],
+    ]) {
+      expect(check(path, method, PUBLIC_AGENT)).toMatchObject({ allowed: false, status: 403 });
+    }
+  });
+
+  it('refuses endpoints outside the allowlist', () => {
+    expect(check('api/v2/agents', 'GET', PUBLIC_AGENT)).toMatchObject({ allowed: false, status: 403 });
+    expect(check('api/v2/agents/7/corpora/3', 'GET', PUBLIC_AGENT)).toMatchObject({ allowed: false, status: 403 });
+    // Ids must be numeric
+    expect(check('api/v2/agent-responses/abc/feedbacks', 'POST', PUBLIC_AGENT)).toMatchObject({
+      allowed: false,
+      status: 403,
+    });
+  });
+
+  it('answers 405 with the allowed methods for a known endpoint', () => {
+    expect(check('api/v2/agents/7', 'DELETE', PUBLIC_AGENT)).toEqual({
+      allowed: false,
+      status: 405,
+      reason: 'Method DELETE is not allowed for this endpoint.',
+      allow: ['GET'],
+    });
+  });
+
+  it('rejects unsafe path segments', () => {
+    for (const segments of [
+      ['api', 'v2', 'agents', '7', '..', '..', 'users', 'me'],
+      ['api', 'v2', 'agents', '.', '7'],
+      ['api', 'v2', 'agents', '%2e%2e', 'users'],
+      ['api', 'v2', 'agents', '7%2fcorpora'],
+      ['api', 'v2', 'agents', '7/corpora'],
+      ['api', 'v2', 'agents', '7\\corpora'],
+      ['api', '', 'agents', '7'],
+    ]) {
+      expect(checkProxyRequest(segments, 'GET', PUBLIC_AGENT)).toMatchObject({ allowed: false, status: 400 });
+    }
+    expect(checkProxyRequest([], 'GET', PUBLIC_AGENT)).toMatchObject({ allowed: false, status: 400 });
+  });
+});
+
+describe('checkProxyRequest with configured credentials', () => {
+  it('allows the thread endpoints the sidebar and history use', () => {
+    expect(check('api/v2/agents/7/chat-threads', 'GET', CONFIGURED).allowed).toBe(true);
+    expect(check('api/v2/chat-threads/12/agent-responses', 'GET', CONFIGURED).allowed).toBe(true);
+    expect(check('api/v2/chat-threads/12', 'PUT', CONFIGURED).allowed).toBe(true);
+    expect(check('api/v2/users/me', 'GET', CONFIGURED).allowed).toBe(true);
+  });
+
+  it('still refuses endpoints outside the allowlist', () => {
+    expect(check('api/v2/users', 'GET', CONFIGURED)).toMatchObject({ allowed: false, status: 403 });
+    expect(check('api/v2/chat-threads/12', 'GET', CONFIGURED)).toMatchObject({ allowed: false, status: 405 });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Proxy Route Policy
+ *
+ * Declarative allowlist for the catch-all API proxy. The proxy attaches the server-side
+ * credentials to every forwarded request, so only the Ejento endpoints this app actually
+ * calls (see ApiService) are reachable through it, each with its own set of methods.
+ *
+ * PUBLIC_AGENT mode gets a narrower policy: anonymous visitors all share the author's
+ * identity, so they may chat and leave feedback but cannot list, read, rename or delete
+ * server-side threads, and may only address the configured agent.
+ */
+
+export type ProxyMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+
+export interface ProxyRoute {
+  /** Path relative to the Ejento base URL; `:name` segments match a numeric id */
+  pattern: string;
+  methods: ProxyMethod[];
+}
+
+export type ProxyPolicyResult =
+  | { allowed: true; route: ProxyRoute }
+  | { allowed: false; status: 400 | 403 | 405; reason: string; allow?: ProxyMethod[] };
+
+const PUBLIC_AGENT_ROUTES: ProxyRoute[] = [
+  { pattern: 'api/v2/agents/:agentId', methods: ['GET'] },
+  { pattern: 'api/v2/agents/:agentId/corpora', methods: ['GET'] },
+  { pattern: 'response-service/api/v2/agents/:agentId/responses', methods: ['POST'] },
+  { pattern: 'response-service/api/v2/agents/:agentId/responses/stream', methods: ['POST'] },
+  { pattern: 'api/v2/agent-responses/:responseId/feedbacks', methods: ['POST'] },
+  { pattern: 'api/v2/agent-responses/:responseId/comments', methods: ['POST'] },
+];
+
+const CONFIGURED_ROUTES: ProxyRoute[] = [
+  ...PUBLIC_AGENT_ROUTES,
+  { pattern: 'api/v2/users/me', methods: ['GET'] },
+  { pattern: 'api/v2/agents/:agentId/chat-threads', methods: ['GET', 'POST'] },
+  { pattern: 'api/v2/chat-threads/:threadId', methods: ['PUT', 'DELETE'] },
+  { pattern: 'api/v2/chat-threads/:threadId/agent-responses', methods: ['GET'] },
+];
+
+/**
+ * Gets the route allowlist for the current deployment mode
+ */
+export function getProxyRoutes(publicAgent: boolean): ProxyRoute[] {
+  return publicAgent ? PUBLIC_AGENT_ROUTES : CONFIGURED_ROUTES;
+}
+
+/**
+ * Whether a path segment tries to escape its position: dot segments, embedded
+ * separators, or anything still percent-encoded after Next.js decoded it once
+ * (e.g. `%252e%252e` for a double-encoded `..`)
+ */
+function isUnsafeSegment(segment: string): boolean {
+  return (
+    segment === '' ||
+    segment === '.' ||
+    segment === '..' ||
+    /[\/\\%]/.test(segment) ||
+    /[\u0000-\u001f\u007f]/.test(segment)
+  );
+}
+
+function matchPattern(pattern: string, segments: string[]): Record<string, string> | null {
+  const parts = pattern.split('/');
+  if (parts.length !== segments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < parts.length; i++) {
+    if (parts[i].startsWith(':')) {
+      if (!/^\d+$/.test(segments[i])) return null;
+      params[parts[i].slice(1)] = segments[i];
+    } else if (parts[i] !== segments[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+/**
+ * First route whose pattern matches the path, regardless of method
+ */
+export function matchProxyRoute(pathSegments: string[], routes: ProxyRoute[]): ProxyRoute | null {
+  return routes.find((route) => matchPattern(route.pattern, pathSegments)) || null;
+}
+
+/**
+ * Checks a proxied request against the route policy
+ *
+ * @param pathSegments The decoded `[...path]` segments
+ * @param method HTTP method of the request
+ * @param options.publicAgent Whether PUBLIC_AGENT mode is enabled
+ * @param options.agentId Agent the deployment is configured for; when set, `:agentId` must match it
+ */
+export function checkProxyRequest(
+  pathSegments: string[],
+  method: string,
+  options: { publicAgent: boolean; agentId?: string }
+): ProxyPolicyResult {
+  if (pathSegments.length === 0 || pathSegments.some(isUnsafeSegment)) {
+    return { allowed: false, status: 400, reason: 'Invalid request path.' };
+  }
+
+  for (const route of getProxyRoutes(options.publicAgent)) {
+    const params = matchPattern(route.pattern, pathSegments);
+    if (!params) continue;
+
+    if (options.agentId && params.agentId && params.agentId !== options.agentId) {
+      return { allowed: false, status: 403, reason: 'This agent is not available through this deployment.' };
+    }
+
+    if (!route.methods.includes(method as ProxyMethod)) {
+      return {
+        allowed: false,
+        status: 405,
+        reason: `Method ${method} is not allowed for this endpoint.`,
+        allow: route.methods,
+      };
+    }
+
+    return { allowed: true, route };
+  }
+
+  return { allowed: false, status: 403, reason: 'This endpoint is not available through the proxy.' };
+}
@@ -0,0 +1,212 @@
+/**
+ * Proxy Rate Limiting
+ *
+ * Token-bucket limiter used by the API proxy in PUBLIC_AGENT mode, where anonymous
+ * visitors call Ejento with the author's credentials. Every request consumes one
+ * token from a bucket per client IP and per browser session, with separate budgets
+ * for streamed responses (expensive) and everything else.
+ *
+ * The default store keeps buckets in server memory, which is per-instance; deployments
+ * running several instances can plug in a shared store via setRateLimitStore().
+ */
+
+export type RateLimitBudget = 'stream' | 'standard';
+
+export interface BucketLimit {
+  /** Maximum burst size */
+  capacity: number;
+  /** Tokens added back per minute */
+  refillPerMinute: number;
+}
+
+export interface TokenBucketState {
+  tokens: number;
+  /** Unix timestamp of the last refill */
+  updatedAt: number;
+}
+
+/**
+ * Storage backend for token buckets
+ */
+export interface RateLimitStore {
+  get(key: string): Promise<TokenBucketState | undefined>;
+  /**
+   * Stores a bucket; it may be dropped after ttlMs since it would be full again by then
+   *
+   * @returns false when a new bucket cannot be stored (store full); the request is refused
+   */
+  set(key: string, state: TokenBucketState, ttlMs: number): Promise<boolean>;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  /** Tokens left in the most constrained bucket */
+  remaining: number;
+  /** Time until a token is available again (0 when allowed) */
+  retryAfterMs: number;
+}
+
+const MAX_MEMORY_ENTRIES = 10_000;
+
+/**
+ * In-memory store, pruned of expired buckets whenever it grows past MAX_MEMORY_ENTRIES
+ *
+ * Live buckets are never evicted to make room: that would let a caller reset other
+ * clients' buckets by flooding new keys. While full, new keys are refused instead.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, TokenBucketState & { expiresAt: number }>();
+
+  async get(key: string): Promise<TokenBucketState | undefined> {
+    const entry = this.buckets.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.buckets.delete(key);
+      return undefined;
+    }
+    return { tokens: entry.tokens, updatedAt: entry.updatedAt };
+  }
+
+  async set(key: string, state: TokenBucketState, ttlMs: number): Promise<boolean> {
+    if (!this.buckets.has(key) && this.buckets.size >= MAX_MEMORY_ENTRIES) {
+      this.prune();
+      if (this.buckets.size >= MAX_MEMORY_ENTRIES) return false;
+    }
+    this.buckets.set(key, { ...state, expiresAt: Date.now() + ttlMs });
+    return true;
+  }
+
+  private prune() {
+    const now = Date.now();
+    for (const [key, entry] of this.buckets) {
+      if (entry.expiresAt <= now) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+let store: RateLimitStore = new MemoryRateLimitStore();
+
+/**
+ * Replaces the bucket store (e.g. with a Redis-backed implementation)
+ */
+export function setRateLimitStore(newStore: RateLimitStore) {
+  store = newStore;
+}
+
+const DEFAULT_BUDGETS: Record<RateLimitBudget, number> = {
+  stream: 10,
+  standard: 120,
+};
+
+function readPerMinute(envValue: string | undefined, fallback: number): number {
+  if (envValue) {
+    const parsed = parseInt(envValue, 10);
+    if (!isNaN(parsed) && parsed > 0) {
+      return parsed;
+    }
+  }
+  return fallback;
+}
+
+/**
+ * Gets the bucket limit for a budget, overridable via
+ * PUBLIC_AGENT_RATE_LIMIT_STREAM_PER_MINUTE / PUBLIC_AGENT_RATE_LIMIT_STANDARD_PER_MINUTE
+ */
+export function getBudgetLimit(budget: RateLimitBudget): BucketLimit {
+  const perMinute = budget === 'stream'
+    ? readPerMinute(process.env.PUBLIC_AGENT_RATE_LIMIT_STREAM_PER_MINUTE, DEFAULT_BUDGETS.stream)
+    : readPerMinute(process.env.PUBLIC_AGENT_RATE_LIMIT_STANDARD_PER_MINUTE, DEFAULT_BUDGETS.standard);
+
+  return { capacity: perMinute, refillPerMinute: perMinute };
+}
+
+/**
+ * Chooses the budget for a proxied path
+ */
+export function getBudgetForPath(path: string): RateLimitBudget {
+  return /\/responses\/stream\/?$/.test(path) ? 'stream' : 'standard';
+}
+
+/**
+ * Number of reverse proxies in front of the app (RATE_LIMIT_TRUSTED_PROXY_HOPS, default 1)
+ */
+function getTrustedProxyHops(): number {
+  const parsed = parseInt(process.env.RATE_LIMIT_TRUSTED_PROXY_HOPS || '', 10);
+  return !isNaN(parsed) && parsed >= 0 ? parsed : 1;
+}
+
+/**
+ * Extracts the client IP as seen by the outermost trusted reverse proxy
+ *
+ * The left of X-Forwarded-For is whatever the client sent, so it cannot be trusted: each
+ * proxy appends the address it received the request from, and the entry added by the
+ * outermost trusted proxy is the Nth from the right (N = trusted hops). With no trusted
+ * proxies, forwarding headers are ignored and all clients share one bucket.
+ */
+export function getClientIp(headers: Headers, trustedHops: number = getTrustedProxyHops()): string {
+  if (trustedHops === 0) return 'unknown';
+
+  const forwardedFor = headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    const hops = forwardedFor.split(',').map((hop) => hop.trim()).filter(Boolean);
+    // Fewer entries than trusted proxies: the leftmost was still set by one of them
+    const clientHop = hops[Math.max(0, hops.length - trustedHops)];
+    if (clientHop) return clientHop;
+  }
+  // Set (overwritten, not appended) by the platform or reverse proxy
+  return headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+function refill(state: TokenBucketState | undefined, limit: BucketLimit, now: number): number {
+  if (!state) return limit.capacity;
+  const elapsedMinutes = Math.max(0, now - state.updatedAt) / 60_000;
+  return Math.min(limit.capacity, state.tokens + elapsedMinutes * limit.refillPerMinute);
+}
+
+/**
+ * Consumes one token from every bucket in `keys`, or none if any bucket is empty
+ *
+ * @param keys Bucket keys (e.g. one per IP and one per session)
+ * @param limit Limit applied to each bucket
+ * @param now Current time, injectable for tests
+ */
+export async function consumeRateLimit(
+  keys: string[],
+  limit: BucketLimit,
+  now: number = Date.now()
+): Promise<RateLimitResult> {
+  const levels = await Promise.all(
+    keys.map(async (key) => ({ key, tokens: refill(await store.get(key), limit, now) }))
+  );
+
+  const msPerToken = 60_000 / limit.refillPerMinute;
+  const ttlMs = limit.capacity * msPerToken;
+  const lowest = Math.min(...levels.map((level) => level.tokens));
+
+  if (lowest < 1) {
+    return {
+      allowed: false,
+      limit: limit.capacity,
+      remaining: 0,
+      retryAfterMs: Math.ceil((1 - lowest) * msPerToken),
+    };
+  }
+
+  const stored = await Promise.all(
+    levels.map((level) => store.set(level.key, { tokens: level.tokens - 1, updatedAt: now }, ttlMs))
+  );
+  if (stored.includes(false)) {
+    // Too many clients are being tracked to add another: refuse rather than not limit
+    return { allowed: false, limit: limit.capacity, remaining: 0, retryAfterMs: Math.ceil(msPerToken) };
+  }
+
+  return {
+    allowed: true,
+    limit: limit.capacity,
+    remaining: Math.floor(lowest - 1),
+    retryAfterMs: 0,
+  };
+}
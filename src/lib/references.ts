@@ -0,0 +1,121 @@
+/**
+ * Sources of an Assistant Message
+ *
+ * Turns the `references`, `indexes` and `sources` of an agent response into the entries
+ * of the Sources panel. References only carry a number, display order and URL, so the
+ * title is derived from the URL and the snippet from the `sources` text, where the
+ * retrieved passages are listed under their `[n]` markers.
+ */
+
+import { getCitationHref, isExternalReference } from './citations';
+
+export interface MessageReference {
+  number: number | string;
+  order: number | string;
+  url: string;
+}
+
+export interface SourceEntry {
+  number: number;
+  order: number;
+  url: string;
+  /** Link the entry and its citation markers in the answer point to */
+  href: string;
+  title: string;
+  isExternal: boolean;
+  /** Corpus/index the reference came from, when the response lists one per reference */
+  index: string | null;
+  snippet: string | null;
+}
+
+const SNIPPET_MAX_CHARS = 280;
+
+/**
+ * Readable title for a reference URL: the file name for documents, host and page for the web
+ */
+export function getReferenceTitle(url: string): string {
+  const withoutQuery = url.split(/[?#]/)[0];
+  const segments = withoutQuery.split('/').filter(Boolean);
+  let last = segments[segments.length - 1] || url;
+  try {
+    last = decodeURIComponent(last);
+  } catch {
+    // Keep the raw segment when it is not valid percent-encoding
+  }
+
+  if (!isExternalReference(url)) return last;
+
+  try {
+    const { hostname, pathname } = new URL(url.includes('://') ? url : `https://${url}`);
+    const host = hostname.replace(/^www\./, '');
+    return pathname === '/' || !pathname ? host : `${host} · ${last}`;
+  } catch {
+    return last;
+  }
+}
+
+/**
+ * Page a reference URL points to (`#page=3`, `?page=3`), or null
+ */
+export function getReferencePage(url: string): number | null {
+  const match = url.match(/[?#&]page=(\d+)/i);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Passages of the `sources` text by reference number; empty when it has no `[n]` markers
+ */
+export function parseSourceSnippets(sources: string | null | undefined): Map<number, string> {
+  const snippets = new Map<number, string>();
+  if (!sources) return snippets;
+
+  const pattern = /\[(\d+)\]:?\s*([\s\S]*?)(?=\[\d+\]:?\s|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(sources)) !== null) {
+    const number = parseInt(match[1], 10);
+    const text = match[2].replace(/\s+/g, ' ').trim();
+    if (!text || snippets.has(number)) continue;
+    snippets.set(
+      number,
+      text.length > SNIPPET_MAX_CHARS ? `${text.slice(0, SNIPPET_MAX_CHARS).trimEnd()}…` : text
+    );
+  }
+  return snippets;
+}
+
+/**
+ * Sources panel entries in display order, one per distinct reference number
+ */
+export function buildSourceEntries(message: {
+  references?: MessageReference[] | null;
+  indexes?: string[] | null;
+  sources?: string | null;
+}): SourceEntry[] {
+  const references = (message.references || []).filter((reference) => reference?.url);
+  const indexes = message.indexes || [];
+  // Indexes can only be attributed when the response lists one per reference
+  const indexesPerReference = indexes.length === references.length;
+  const snippets = parseSourceSnippets(message.sources);
+  const seen = new Set<number>();
+
+  return references
+    .map((reference, position) => {
+      const number = parseInt(String(reference.number), 10);
+      return {
+        number,
+        order: parseInt(String(reference.order), 10) || number,
+        url: reference.url,
+        href: getCitationHref(reference.url),
+        title: getReferenceTitle(reference.url),
+        isExternal: isExternalReference(reference.url),
+        index: indexesPerReference ? indexes[position] || null : null,
+        snippet: snippets.get(number) ?? null,
+      };
+    })
+    .filter((entry) => {
+      if (isNaN(entry.number) || seen.has(entry.number)) return false;
+      seen.add(entry.number);
+      return true;
+    })
+    .sort((a, b) => a.order - b.order);
+}
@@ -0,0 +1,113 @@
+/**
+ * Retry Utilities
+ *
+ * Retries transient Ejento failures (APIM throttling, 5xx, dropped connections)
+ * with exponential backoff and full jitter, honoring Retry-After when present.
+ */
+
+import {
+  EjentoApiError,
+  EjentoNetworkError,
+  EjentoRateLimitError,
+  EjentoUpstreamError,
+} from './api-errors';
+
+export interface RetryPolicy {
+  /** Total number of attempts, including the first one */
+  maxAttempts: number;
+  /** Delay before the first retry; doubled on every subsequent attempt */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay (Retry-After is capped too) */
+  maxDelayMs: number;
+  /**
+   * Whether non-idempotent requests (POST) may be retried after 5xx/network errors.
+   * Throttled (429) POSTs are always retried since APIM rejects them before they reach Ejento.
+   */
+  retryNonIdempotent: boolean;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: DEFAULT_MAX_ATTEMPTS,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  retryNonIdempotent: false,
+};
+
+/**
+ * Gets the retry policy, allowing NEXT_PUBLIC_API_RETRY_MAX_ATTEMPTS to override the attempt count
+ */
+export function getRetryPolicy(overrides: Partial<RetryPolicy> = {}): RetryPolicy {
+  let maxAttempts = DEFAULT_MAX_ATTEMPTS;
+
+  const envAttempts = process.env.NEXT_PUBLIC_API_RETRY_MAX_ATTEMPTS;
+  if (envAttempts) {
+    const parsed = parseInt(envAttempts, 10);
+    if (!isNaN(parsed) && parsed > 0) {
+      maxAttempts = parsed;
+    }
+  }
+
+  return { ...DEFAULT_RETRY_POLICY, maxAttempts, ...overrides };
+}
+
+/**
+ * Whether an error is worth retrying: throttling, upstream 5xx (except 501) or no response at all
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof EjentoRateLimitError || error instanceof EjentoNetworkError) {
+    return true;
+  }
+  if (error instanceof EjentoUpstreamError) {
+    return error.status !== 501;
+  }
+  return false;
+}
+
+/**
+ * Computes the delay before the given retry (1-based), preferring the server's Retry-After
+ */
+export function getRetryDelay(attempt: number, policy: RetryPolicy, error?: unknown): number {
+  if (error instanceof EjentoRateLimitError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, policy.maxDelayMs);
+  }
+
+  const exponential = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+  // Full jitter spreads retries from many tabs/visitors hitting the same throttle
+  return Math.round(Math.random() * exponential);
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs an operation, retrying retryable EjentoApiErrors according to the policy
+ *
+ * @param operation The request to run
+ * @param policy Retry policy to apply
+ * @param idempotent Whether the request is safe to repeat; non-idempotent requests
+ *   are only retried on 429 unless the policy opts in
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy,
+  idempotent: boolean = true
+): Promise<T> {
+  const canRepeat = idempotent || policy.retryNonIdempotent;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const retryable = canRepeat ? isRetryableError(error) : error instanceof EjentoRateLimitError;
+      if (attempt >= policy.maxAttempts || !retryable) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(attempt, policy, error);
+      const path = error instanceof EjentoApiError ? error.path : '';
+      console.warn(`Retrying ${path} in ${delay}ms (attempt ${attempt + 1}/${policy.maxAttempts})`);
+      await sleep(delay);
+    }
+  }
+}
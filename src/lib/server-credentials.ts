@@ -0,0 +1,79 @@
+/**
+ * Server-side Ejento Credentials (server-only)
+ *
+ * Resolves the credentials the server attaches to Ejento requests. They are never sent
+ * from the client:
+ * - ENV_DRIVEN=true: read from environment variables
+ * - ENV_DRIVEN=false: read from the sealed httpOnly cookie set after validation
+ *
+ * Used by the API proxy and by server components that check thread access.
+ */
+
+import 'server-only';
+import { cookies } from 'next/headers';
+import { CREDENTIALS_COOKIE_NAME, openCredentials } from './credential-cookie';
+import { getAccessToken } from './access-token';
+
+export interface ServerSideCredentials {
+  baseUrl: string;
+  authorization: string;
+  apiKey: string;
+  agentId?: string;
+}
+
+export function isPublicAgentEnabled(): boolean {
+  return (
+    process.env.NEXT_PUBLIC_AGENT === 'true' ||
+    process.env.NEXT_PUBLIC_AGENT === '1' ||
+    process.env.PUBLIC_AGENT === 'true' ||
+    process.env.PUBLIC_AGENT === '1'
+  );
+}
+
+/**
+ * @param options.dropInvalidCookie Deletes a cookie that fails to open; only allowed where
+ *   cookies can be written (route handlers and server actions, not server components)
+ */
+export async function getServerSideCredentials(
+  options: { dropInvalidCookie?: boolean } = {}
+): Promise<ServerSideCredentials | null> {
+  const envDriven = process.env.ENV_DRIVEN === 'true' || process.env.ENV_DRIVEN === '1';
+
+  if (envDriven) {
+    const baseUrl = process.env.EJENTO_BASE_URL;
+    const apiKey = process.env.EJENTO_API_KEY;
+    // Renewed server-side when EJENTO_REFRESH_TOKEN is configured
+    const ejentoAccessToken = await getAccessToken();
+
+    if (baseUrl && apiKey && ejentoAccessToken) {
+      return {
+        baseUrl: baseUrl.trim(),
+        authorization: ejentoAccessToken.trim(),
+        apiKey: apiKey.trim(),
+        agentId: process.env.EJENTO_AGENT_ID?.trim() || undefined,
+      };
+    }
+  } else {
+    const cookieStore = await cookies();
+    const credentialsCookie = cookieStore.get(CREDENTIALS_COOKIE_NAME);
+
+    if (credentialsCookie?.value) {
+      const credentials = openCredentials(credentialsCookie.value);
+      if (credentials) {
+        return {
+          baseUrl: credentials.baseUrl,
+          authorization: credentials.ejentoAccessToken,
+          apiKey: credentials.apiKey,
+          agentId: credentials.agentId || undefined,
+        };
+      }
+      // Tampered, expired, legacy plain-JSON or sealed with a retired key: drop it so the
+      // client re-validates its config and gets a fresh cookie
+      if (options.dropInvalidCookie) {
+        cookieStore.delete(CREDENTIALS_COOKIE_NAME);
+      }
+    }
+  }
+
+  return null;
+}
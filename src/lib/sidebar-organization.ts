@@ -0,0 +1,198 @@
+/**
+ * Sidebar Organization (pinned threads and folders)
+ *
+ * The Ejento thread API has no folder concept, so pins and folders are kept in the
+ * browser: in IndexedDB (settings store) in PUBLIC_AGENT mode, and in localStorage
+ * keyed by agent id otherwise, so each agent profile has its own layout.
+ *
+ * A thread is either pinned, in one folder, or neither. Thread ids that no longer
+ * exist are simply ignored when rendering.
+ */
+
+import { getSetting, setSetting } from '@/lib/storage/indexeddb';
+
+export interface SidebarFolder {
+  id: string;
+  name: string;
+  /** Thread ids in display order */
+  threadIds: string[];
+  collapsed: boolean;
+  createdAt: number; // Unix timestamp
+}
+
+export interface SidebarOrganization {
+  /** Pinned thread ids in display order */
+  pinned: string[];
+  folders: SidebarFolder[];
+}
+
+const STORAGE_KEY_PREFIX = 'sidebar_organization';
+/** IndexedDB settings key (PUBLIC_AGENT mode) */
+export const SIDEBAR_ORGANIZATION_SETTING_KEY = 'sidebar_organization';
+
+export const EMPTY_SIDEBAR_ORGANIZATION: SidebarOrganization = { pinned: [], folders: [] };
+
+function getLocalStorageKey(agentId: string | undefined): string {
+  return `${STORAGE_KEY_PREFIX}_${agentId || 'default'}`;
+}
+
+/**
+ * Fills in missing fields so layouts saved by older versions still load
+ */
+function normalizeOrganization(value: Partial<SidebarOrganization> | null): SidebarOrganization {
+  if (!value || typeof value !== 'object') return EMPTY_SIDEBAR_ORGANIZATION;
+
+  return {
+    pinned: Array.isArray(value.pinned) ? value.pinned.map(String) : [],
+    folders: Array.isArray(value.folders)
+      ? value.folders
+          .filter((folder) => folder && typeof folder.id === 'string')
+          .map((folder) => ({
+            id: folder.id,
+            name: folder.name || 'Untitled folder',
+            threadIds: Array.isArray(folder.threadIds) ? folder.threadIds.map(String) : [],
+            collapsed: folder.collapsed === true,
+            createdAt: folder.createdAt || Date.now(),
+          }))
+      : [],
+  };
+}
+
+export async function loadSidebarOrganization(
+  isPublicAgent: boolean,
+  agentId?: string
+): Promise<SidebarOrganization> {
+  try {
+    if (isPublicAgent) {
+      return normalizeOrganization(await getSetting<SidebarOrganization>(SIDEBAR_ORGANIZATION_SETTING_KEY));
+    }
+    const saved = localStorage.getItem(getLocalStorageKey(agentId));
+    return normalizeOrganization(saved ? JSON.parse(saved) : null);
+  } catch (error) {
+    console.error('Error loading sidebar organization:', error);
+    return EMPTY_SIDEBAR_ORGANIZATION;
+  }
+}
+
+export async function saveSidebarOrganization(
+  organization: SidebarOrganization,
+  isPublicAgent: boolean,
+  agentId?: string
+): Promise<void> {
+  if (isPublicAgent) {
+    await setSetting(SIDEBAR_ORGANIZATION_SETTING_KEY, organization);
+    return;
+  }
+  localStorage.setItem(getLocalStorageKey(agentId), JSON.stringify(organization));
+}
+
+/**
+ * Takes a thread out of the pinned list and every folder
+ */
+function detachThread(organization: SidebarOrganization, threadId: string): SidebarOrganization {
+  return {
+    pinned: organization.pinned.filter((id) => id !== threadId),
+    folders: organization.folders.map((folder) => ({
+      ...folder,
+      threadIds: folder.threadIds.filter((id) => id !== threadId),
+    })),
+  };
+}
+
+export function isThreadPinned(organization: SidebarOrganization, threadId: string): boolean {
+  return organization.pinned.includes(threadId);
+}
+
+export function getThreadFolderId(organization: SidebarOrganization, threadId: string): string | null {
+  return organization.folders.find((folder) => folder.threadIds.includes(threadId))?.id ?? null;
+}
+
+export function togglePinnedThread(organization: SidebarOrganization, threadId: string): SidebarOrganization {
+  if (isThreadPinned(organization, threadId)) {
+    return { ...organization, pinned: organization.pinned.filter((id) => id !== threadId) };
+  }
+  const detached = detachThread(organization, threadId);
+  return { ...detached, pinned: [...detached.pinned, threadId] };
+}
+
+export function pinThread(organization: SidebarOrganization, threadId: string): SidebarOrganization {
+  return isThreadPinned(organization, threadId) ? organization : togglePinnedThread(organization, threadId);
+}
+
+/**
+ * Moves a thread into a folder, or back to the date-grouped list when `folderId` is null
+ */
+export function moveThreadToFolder(
+  organization: SidebarOrganization,
+  threadId: string,
+  folderId: string | null
+): SidebarOrganization {
+  const detached = detachThread(organization, threadId);
+  if (!folderId) return detached;
+
+  return {
+    ...detached,
+    folders: detached.folders.map((folder) =>
+      folder.id === folderId ? { ...folder, threadIds: [...folder.threadIds, threadId] } : folder
+    ),
+  };
+}
+
+export function createFolder(
+  organization: SidebarOrganization,
+  name: string
+): { organization: SidebarOrganization; folder: SidebarFolder } {
+  const folder: SidebarFolder = {
+    id: `folder_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    name: name.trim() || 'Untitled folder',
+    threadIds: [],
+    collapsed: false,
+    createdAt: Date.now(),
+  };
+  return { organization: { ...organization, folders: [...organization.folders, folder] }, folder };
+}
+
+export function renameFolder(organization: SidebarOrganization, folderId: string, name: string): SidebarOrganization {
+  return {
+    ...organization,
+    folders: organization.folders.map((folder) =>
+      folder.id === folderId ? { ...folder, name: name.trim() || folder.name } : folder
+    ),
+  };
+}
+
+/**
+ * Deletes a folder; its threads go back to the date-grouped list
+ */
+export function deleteFolder(organization: SidebarOrganization, folderId: string): SidebarOrganization {
+  return { ...organization, folders: organization.folders.filter((folder) => folder.id !== folderId) };
+}
+
+export function toggleFolderCollapsed(organization: SidebarOrganization, folderId: string): SidebarOrganization {
+  return {
+    ...organization,
+    folders: organization.folders.map((folder) =>
+      folder.id === folderId ? { ...folder, collapsed: !folder.collapsed } : folder
+    ),
+  };
+}
+
+/**
+ * Carries pins and folder membership over when a thread gets a new id
+ * (a local thread receiving its server id)
+ */
+export function replaceThreadId(
+  organization: SidebarOrganization,
+  oldThreadId: string,
+  newThreadId: string
+): SidebarOrganization {
+  if (!isThreadPinned(organization, oldThreadId) && !getThreadFolderId(organization, oldThreadId)) {
+    return organization;
+  }
+
+  const replace = (ids: string[]) => ids.map((id) => (id === oldThreadId ? newThreadId : id));
+  return {
+    pinned: replace(organization.pinned),
+    folders: organization.folders.map((folder) => ({ ...folder, threadIds: replace(folder.threadIds) })),
+  };
+}
@@ -0,0 +1,238 @@
+/**
+ * Importing Local Chats into a Signed-In Account
+ *
+ * Chats from a PUBLIC_AGENT session live only in this browser's IndexedDB. When the
+ * same browser is later used with configured credentials, they can be copied into the
+ * account's server-side history.
+ *
+ * The Ejento API has no endpoint for uploading past answers, so each local thread is
+ * recreated with `createChatThread` and its questions are asked again, in order, into
+ * the new thread (answers may therefore differ from the local ones). Progress is saved
+ * on the local thread around every question, so an interrupted import resumes where it
+ * stopped instead of duplicating questions: a question sent but never confirmed is only
+ * asked again if the server thread has no answer to it.
+ *
+ * Only chats held with the account's agent are offered. Chats saved before the agent was
+ * recorded on the thread are not, since they may come from a different agent.
+ */
+
+import type { ApiService } from '@/api';
+import {
+  createOrUpdateSessionMetadata,
+  getAllThreads,
+  getMessagesByThreadId,
+  localDatabaseExists,
+  updateThread,
+} from './indexeddb';
+import { restoreDeviceKey } from './encryption-keys';
+import type { StoredMessage, StoredThread, ThreadAccountSync } from './types';
+
+export interface SyncAccount {
+  agentId: string;
+  email: string;
+}
+
+export interface LocalThreadToSync {
+  thread: StoredThread;
+  messages: StoredMessage[];
+}
+
+export interface AccountSyncProgress {
+  /** Index of the thread being imported */
+  current: number;
+  total: number;
+  title: string;
+}
+
+export interface AccountSyncResult {
+  synced: number;
+  failed: number;
+}
+
+/**
+ * Key of an account in `StoredThread.metadata.accountSync`
+ * The same local chat can be imported into several agents or accounts.
+ */
+export function getAccountSyncKey(account: SyncAccount): string {
+  return `${account.agentId}:${account.email.toLowerCase()}`;
+}
+
+function getThreadSync(thread: StoredThread, accountKey: string): ThreadAccountSync | undefined {
+  return thread.metadata?.accountSync?.[accountKey];
+}
+
+/**
+ * Local threads with at least one question that are not fully imported into the account
+ */
+export async function getLocalThreadsToSync(account: SyncAccount): Promise<LocalThreadToSync[]> {
+  if (!(await localDatabaseExists())) return [];
+  // Device-encrypted chats are readable here; passphrase-encrypted ones are skipped
+  await restoreDeviceKey();
+
+  const accountKey = getAccountSyncKey(account);
+  const threads = (await getAllThreads()).filter(
+    (thread) => thread.metadata?.agentId === account.agentId && !getThreadSync(thread, accountKey)?.syncedAt
+  );
+
+  const result: LocalThreadToSync[] = [];
+  for (const thread of threads) {
+    const messages = await getMessagesByThreadId(thread.threadId);
+    if (messages.some((message) => message.role === 'user')) {
+      result.push({ thread, messages });
+    }
+  }
+  // Oldest first, so the account's history keeps the original order
+  return result.sort((a, b) => a.thread.createdAt - b.thread.createdAt);
+}
+
+/**
+ * Id of the thread returned by createChatThread
+ * Accepts the thread bare, in an array, or wrapped in `data` like other v2 responses.
+ */
+function getCreatedThreadId(response: any): number | null {
+  const thread = response?.data ?? (Array.isArray(response) ? response[0] : response);
+  const id = Array.isArray(thread) ? thread[0]?.id : thread?.id;
+  return typeof id === 'number' && id > 0 ? id : null;
+}
+
+/**
+ * Question/answer pairs before `index`, in the `history` format of the response API
+ */
+function buildHistory(messages: StoredMessage[], index: number): { user: string; bot: string }[] {
+  const history: { user: string; bot: string }[] = [];
+  let question: string | null = null;
+
+  messages.slice(0, index).forEach((message) => {
+    if (message.role === 'user') {
+      question = message.content;
+    } else if (question) {
+      history.push({ user: question, bot: message.content });
+      question = null;
+    }
+  });
+  return history;
+}
+
+/**
+ * Whether the server thread already answered the question at `index`
+ * Counts successful answers to the same question text, in case a chat asked it more than once.
+ */
+async function isAnsweredOnServer(
+  apiService: ApiService,
+  serverThreadId: number,
+  messages: StoredMessage[],
+  index: number
+): Promise<boolean> {
+  const question = messages[index].content.trim();
+  const timesAsked = messages
+    .slice(0, index + 1)
+    .filter((message) => message.role === 'user' && message.content.trim() === question).length;
+  const chatlog = await apiService.getChatlogs(serverThreadId);
+  const timesAnswered = (chatlog?.data?.agent_responses ?? []).filter(
+    (item) => item.question?.trim() === question && item.response?.success !== false
+  ).length;
+  return timesAnswered >= timesAsked;
+}
+
+async function saveThreadSync(thread: StoredThread, accountKey: string, sync: ThreadAccountSync): Promise<void> {
+  const metadata = thread.metadata || {};
+  thread.metadata = { ...metadata, accountSync: { ...metadata.accountSync, [accountKey]: sync } };
+  await updateThread(thread.threadId, { metadata: thread.metadata });
+}
+
+/**
+ * Imports one local thread into the account, resuming a previous partial import
+ */
+export async function syncThreadToAccount(
+  apiService: ApiService,
+  { thread, messages }: LocalThreadToSync,
+  account: SyncAccount
+): Promise<ThreadAccountSync> {
+  const accountKey = getAccountSyncKey(account);
+  let sync = getThreadSync(thread, accountKey);
+
+  if (!sync) {
+    const response = await apiService.createChatThread(parseInt(account.agentId), account.email);
+    const serverThreadId = getCreatedThreadId(response);
+    if (!serverThreadId) {
+      throw new Error('The server did not return the new chat thread.');
+    }
+    sync = { serverThreadId, replayedMessages: 0, syncedAt: null };
+    await saveThreadSync(thread, accountKey, sync);
+  }
+
+  let replayed = 0;
+  for (let index = 0; index < messages.length; index++) {
+    const message = messages[index];
+    if (message.role !== 'user') continue;
+
+    replayed++;
+    if (replayed <= sync.replayedMessages) continue;
+
+    // Sent last time without a confirmed answer: the server may still have processed it
+    if (sync.pendingMessage === replayed && (await isAnsweredOnServer(apiService, sync.serverThreadId, messages, index))) {
+      sync = { ...sync, replayedMessages: replayed, pendingMessage: null };
+      await saveThreadSync(thread, accountKey, sync);
+      continue;
+    }
+
+    sync = { ...sync, pendingMessage: replayed };
+    await saveThreadSync(thread, accountKey, sync);
+
+    const history = buildHistory(messages, index);
+    const response = await apiService.sendChat({
+      chat_thread_id: sync.serverThreadId,
+      ...(history.length > 0 && { history }),
+      user_query: message.content,
+      query_source: 'app-ejento',
+      is_file_attached: false,
+      caching_enabled: true,
+      overrides: {
+        log_intermediate_response: true,
+        retrieve_data_points: true,
+      },
+    });
+    if (!response?.success) {
+      throw new Error(response?.message || 'The agent did not answer a replayed question.');
+    }
+
+    sync = { ...sync, replayedMessages: replayed, pendingMessage: null };
+    await saveThreadSync(thread, accountKey, sync);
+  }
+
+  // The first answer may have renamed the thread; keep the local title
+  await apiService.updateChatThreadTitle(sync.serverThreadId, thread.title, account.email);
+
+  sync = { ...sync, syncedAt: Date.now() };
+  await saveThreadSync(thread, accountKey, sync);
+  return sync;
+}
+
+/**
+ * Imports every local thread that is not yet in the account
+ * A failing thread is skipped (and retried next time); the others still import.
+ */
+export async function syncLocalThreadsToAccount(
+  apiService: ApiService,
+  account: SyncAccount,
+  onProgress?: (progress: AccountSyncProgress) => void
+): Promise<AccountSyncResult> {
+  const threads = await getLocalThreadsToSync(account);
+  const result: AccountSyncResult = { synced: 0, failed: 0 };
+
+  for (let index = 0; index < threads.length; index++) {
+    onProgress?.({ current: index + 1, total: threads.length, title: threads[index].thread.title });
+    try {
+      await syncThreadToAccount(apiService, threads[index], account);
+      result.synced++;
+    } catch (error) {
+      console.error(`Error importing local thread ${threads[index].thread.threadId}:`, error);
+      result.failed++;
+    }
+  }
+
+  if (result.synced > 0) {
+    await createOrUpdateSessionMetadata({ lastSyncedAt: Date.now() });
+  }
+  return result;
+}
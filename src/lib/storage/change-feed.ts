@@ -0,0 +1,86 @@
+/**
+ * Cross-Tab Change Feed for PUBLIC_AGENT Mode
+ *
+ * IndexedDB is shared by every tab of the same origin, but it does not tell other tabs
+ * when data changes. The storage layer publishes a small change event on a
+ * BroadcastChannel after every successful write, and open tabs subscribe to reload
+ * what they show. Events only describe what changed; listeners read the new data
+ * from IndexedDB themselves.
+ *
+ * A tab never receives its own events (BroadcastChannel does not echo to the sender),
+ * so local state updates stay where they are today.
+ */
+
+const CHANNEL_NAME = 'ejento_public_agent_changes';
+
+export type StorageChange =
+  | { type: 'thread-created'; threadId: string }
+  | { type: 'thread-updated'; threadId: string }
+  | { type: 'thread-deleted'; threadId: string }
+  | { type: 'thread-migrated'; oldThreadId: string; newThreadId: string }
+  | { type: 'message-created'; threadId: string; messageId: string }
+  | { type: 'message-updated'; threadId: string; messageId: string }
+  | { type: 'message-deleted'; threadId: string; messageId: string }
+  | { type: 'threads-imported'; threadIds: string[] }
+  | { type: 'setting-updated'; key: string };
+
+export type StorageChangeListener = (change: StorageChange) => void;
+
+let channel: BroadcastChannel | null = null;
+
+function getChannel(): BroadcastChannel | null {
+  if (typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') {
+    return null;
+  }
+  if (!channel) {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+}
+
+/**
+ * Tells other open tabs that stored data changed
+ * Never throws: a missed notification must not fail the write that caused it.
+ */
+export function publishStorageChange(change: StorageChange): void {
+  try {
+    getChannel()?.postMessage(change);
+  } catch (error) {
+    console.error('Error publishing storage change:', error);
+  }
+}
+
+/**
+ * Subscribes to changes made by other tabs
+ *
+ * @returns A function that removes the listener
+ */
+export function subscribeToStorageChanges(listener: StorageChangeListener): () => void {
+  const target = getChannel();
+  if (!target) return () => {};
+
+  const handleMessage = (event: MessageEvent<StorageChange>) => {
+    if (event.data && typeof event.data.type === 'string') {
+      listener(event.data);
+    }
+  };
+
+  target.addEventListener('message', handleMessage);
+  return () => target.removeEventListener('message', handleMessage);
+}
+
+/**
+ * Thread ids a change affects, used to decide whether an open chat must reload
+ */
+export function getChangedThreadIds(change: StorageChange): string[] {
+  switch (change.type) {
+    case 'thread-migrated':
+      return [change.oldThreadId, change.newThreadId];
+    case 'threads-imported':
+      return change.threadIds;
+    case 'setting-updated':
+      return [];
+    default:
+      return [change.threadId];
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Encryption Keys for Local Messages (PUBLIC_AGENT mode)
+ *
+ * Loads or creates the key for the configured NEXT_PUBLIC_AGENT_LOCAL_ENCRYPTION mode
+ * (see ./encryption) and makes it the key of the current tab. Key material lives in the
+ * settings store: the non-extractable device key itself, or the passphrase salt and a
+ * verifier used to tell a wrong passphrase from a right one. The device key sits next to
+ * the chats it encrypts, so only passphrase mode keeps them confidential at rest.
+ */
+
+import {
+  createSalt,
+  decryptJson,
+  deriveKeyFromPassphrase,
+  encryptJson,
+  generateDeviceKey,
+  getLocalEncryptionMode,
+  setActiveEncryptionKey,
+} from './encryption';
+import { addSetting, deleteThread, encryptPlaintextChats, getAllThreadIds, getSetting, setSetting } from './indexeddb';
+import type { EncryptedPayload } from './types';
+
+const DEVICE_KEY_SETTING = 'encryption_device_key';
+const PASSPHRASE_SETTING = 'encryption_passphrase';
+const VERIFIER_TEXT = 'ejento-local-chats';
+
+interface PassphraseSetting {
+  salt: string;
+  verifier: EncryptedPayload;
+}
+
+/**
+ * Loads (or creates) the device key; used in `device` mode, needs no user input
+ * Tabs opened together may each create a key: only the first one stored is used by all.
+ */
+export async function unlockWithDeviceKey(): Promise<void> {
+  if (!(await restoreDeviceKey())) {
+    setActiveEncryptionKey(await addSetting(DEVICE_KEY_SETTING, await generateDeviceKey()));
+  }
+  await encryptPlaintextChats();
+}
+
+/**
+ * Loads the device key if this browser has one, without creating it
+ * Lets other modes (e.g. importing local chats into an account) read device-encrypted chats.
+ */
+export async function restoreDeviceKey(): Promise<boolean> {
+  const key = await getSetting<CryptoKey>(DEVICE_KEY_SETTING);
+  if (!key) return false;
+  setActiveEncryptionKey(key);
+  return true;
+}
+
+/**
+ * Whether a passphrase was already chosen in this browser
+ */
+export async function hasPassphrase(): Promise<boolean> {
+  return (await getSetting<PassphraseSetting>(PASSPHRASE_SETTING)) !== null;
+}
+
+/**
+ * Derives the key from a passphrase; the first passphrase entered becomes the passphrase
+ * If another tab chose a passphrase at the same time, the one stored first wins and this
+ * passphrase is checked against it.
+ *
+ * @returns false if the passphrase does not match the one chosen before
+ */
+export async function unlockWithPassphrase(passphrase: string): Promise<boolean> {
+  let setting = await getSetting<PassphraseSetting>(PASSPHRASE_SETTING);
+
+  if (!setting) {
+    const salt = createSalt();
+    const key = await deriveKeyFromPassphrase(passphrase, salt);
+    setting = await addSetting<PassphraseSetting>(PASSPHRASE_SETTING, {
+      salt,
+      verifier: await encryptJson(VERIFIER_TEXT, key),
+    });
+    if (setting.salt === salt) {
+      setActiveEncryptionKey(key);
+      await encryptPlaintextChats();
+      return true;
+    }
+  }
+
+  const key = await deriveKeyFromPassphrase(passphrase, setting.salt);
+  try {
+    if ((await decryptJson<string>(setting.verifier, key)) !== VERIFIER_TEXT) return false;
+  } catch {
+    return false;
+  }
+  setActiveEncryptionKey(key);
+  await encryptPlaintextChats();
+  return true;
+}
+
+/**
+ * Deletes every local chat and the passphrase, for visitors who forgot it
+ */
+export async function resetEncryptedChats(): Promise<void> {
+  // Titles are encrypted too, so only the ids can be read without the passphrase
+  for (const threadId of await getAllThreadIds()) {
+    await deleteThread(threadId);
+  }
+  await setSetting(PASSPHRASE_SETTING, null);
+  setActiveEncryptionKey(null);
+}
+
+/**
+ * Unlocks without user input when possible
+ *
+ * @returns false when a passphrase is needed
+ */
+export async function unlockAutomatically(): Promise<boolean> {
+  const mode = getLocalEncryptionMode();
+  if (mode === 'off') return true;
+  if (mode === 'device') {
+    await unlockWithDeviceKey();
+    return true;
+  }
+  return false;
+}
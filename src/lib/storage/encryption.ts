@@ -0,0 +1,169 @@
+/**
+ * At-Rest Encryption of Local Messages (PUBLIC_AGENT mode)
+ *
+ * When enabled with NEXT_PUBLIC_AGENT_LOCAL_ENCRYPTION, the content and metadata of every
+ * stored message and the title of every thread are encrypted with AES-GCM before they
+ * reach IndexedDB; ids, roles and timestamps stay readable so the indexes keep working.
+ * The storage layer encrypts and decrypts transparently, so callers always see plaintext.
+ *
+ * Modes:
+ * - `passphrase`: the key is derived from a passphrase (PBKDF2) and only kept in memory,
+ *   so chats stay unreadable until the passphrase is entered again in a new tab. This is
+ *   the only mode that protects chats at rest.
+ * - `device`: a random key is created once per browser and kept as a non-extractable
+ *   CryptoKey in the same IndexedDB database as the chats. Anyone who can read the
+ *   browser profile (or run script on this origin) can use the key as easily as the app
+ *   does, so this mode gives no confidentiality; it only keeps chats out of plain-text
+ *   dumps of the database.
+ *
+ * This module only does the cryptography and holds the key of the current tab; keys are
+ * created and persisted in ./encryption-keys.
+ */
+
+import type { EncryptedPayload } from './types';
+
+export type LocalEncryptionMode = 'off' | 'device' | 'passphrase';
+
+const PBKDF2_ITERATIONS = 310000;
+const IV_BYTES = 12;
+
+/**
+ * Thrown when encrypted messages are read or written before the key is available
+ */
+export class LocalStorageLockedError extends Error {
+  constructor(message = 'Local chats are locked') {
+    super(message);
+    this.name = 'LocalStorageLockedError';
+  }
+}
+
+export function getLocalEncryptionMode(): LocalEncryptionMode {
+  const mode = process.env.NEXT_PUBLIC_AGENT_LOCAL_ENCRYPTION;
+  return mode === 'device' || mode === 'passphrase' ? mode : 'off';
+}
+
+let activeKey: CryptoKey | null = null;
+
+export function setActiveEncryptionKey(key: CryptoKey | null): void {
+  activeKey = key;
+}
+
+/**
+ * Whether messages must be encrypted, but the key has not been loaded or derived yet
+ */
+export function isEncryptionLocked(): boolean {
+  return getLocalEncryptionMode() !== 'off' && !activeKey;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+export function createSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+export function generateDeviceKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+}
+
+export async function deriveKeyFromPassphrase(passphrase: string, salt: string): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+    'deriveKey',
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function encryptJson(value: unknown, key: CryptoKey): Promise<EncryptedPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(value))
+  );
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+/**
+ * @throws If the key is wrong or the payload was tampered with (AES-GCM authenticates it)
+ */
+export async function decryptJson<T>(payload: EncryptedPayload, key: CryptoKey): Promise<T> {
+  const data = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(payload.iv) },
+    key,
+    fromBase64(payload.data)
+  );
+  return JSON.parse(new TextDecoder().decode(data));
+}
+
+/**
+ * Prepares a message for storage: content and metadata move into `encrypted`
+ * Returns the message unchanged when encryption is off.
+ */
+export async function encryptStoredMessage<M extends { content: string; metadata?: Record<string, any> }>(
+  message: M
+): Promise<M> {
+  if (getLocalEncryptionMode() === 'off') return message;
+  if (!activeKey) throw new LocalStorageLockedError();
+
+  const encrypted = await encryptJson({ content: message.content, metadata: message.metadata || {} }, activeKey);
+  return { ...message, content: '', metadata: {}, encrypted };
+}
+
+/**
+ * Restores content and metadata of a stored message; plaintext messages (stored before
+ * encryption was enabled) are returned unchanged
+ */
+export async function decryptStoredMessage<
+  M extends { content: string; metadata?: Record<string, any>; encrypted?: EncryptedPayload }
+>(message: M): Promise<M> {
+  if (!message.encrypted) return message;
+  if (!activeKey) throw new LocalStorageLockedError();
+
+  const { encrypted, ...rest } = message;
+  const { content, metadata } = await decryptJson<{ content: string; metadata: Record<string, any> }>(
+    encrypted,
+    activeKey
+  );
+  return { ...rest, content, metadata } as M;
+}
+
+/**
+ * Prepares a thread for storage: the title moves into `encryptedTitle`
+ * Returns the thread unchanged when encryption is off.
+ */
+export async function encryptStoredThread<T extends { title: string; encryptedTitle?: EncryptedPayload }>(
+  thread: T
+): Promise<T> {
+  if (getLocalEncryptionMode() === 'off') return thread;
+  if (!activeKey) throw new LocalStorageLockedError();
+
+  return { ...thread, title: '', encryptedTitle: await encryptJson(thread.title, activeKey) };
+}
+
+/**
+ * Restores the title of a stored thread; plaintext threads are returned unchanged
+ */
+export async function decryptStoredThread<T extends { title: string; encryptedTitle?: EncryptedPayload }>(
+  thread: T
+): Promise<T> {
+  if (!thread.encryptedTitle) return thread;
+  if (!activeKey) throw new LocalStorageLockedError();
+
+  const { encryptedTitle, ...rest } = thread;
+  return { ...rest, title: await decryptJson<string>(encryptedTitle, activeKey) } as T;
+}
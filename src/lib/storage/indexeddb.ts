@@ -8,17 +8,30 @@
 import {
   SessionMetadata,
   StoredMessage,
+  StoredSetting,
   StoredThread,
 } from './types';
+import { LATEST_VERSION, runMigrations, STORES } from './migrations';
+import { publishStorageChange } from './change-feed';
+import { decryptStoredMessage, decryptStoredThread, encryptStoredMessage, encryptStoredThread } from './encryption';
 
 const DB_NAME = 'ejento_public_agent_db';
-const DB_VERSION = 1;
+// Bumped by adding a migration in ./migrations
+const DB_VERSION = LATEST_VERSION;
 
-const STORES = {
-  SESSIONS: 'sessions',
-  THREADS: 'threads',
-  MESSAGES: 'messages',
-} as const;
+/**
+ * Thrown when a write fails because the browser's storage quota for the site is used up
+ */
+export class StorageQuotaExceededError extends Error {
+  constructor(message = 'Browser storage is full') {
+    super(message);
+    this.name = 'StorageQuotaExceededError';
+  }
+}
+
+function isQuotaError(error: DOMException | null | undefined): boolean {
+  return error?.name === 'QuotaExceededError';
+}
 
 /**
  * Opens the IndexedDB database, creating it if it doesn't exist
@@ -37,37 +50,23 @@ function openDatabase(): Promise<IDBDatabase> {
     };
 
     request.onsuccess = () => {
-      resolve(request.result);
+      const db = request.result;
+      // Let a newer version opened in another tab run its migrations
+      db.onversionchange = () => db.close();
+      resolve(db);
     };
 
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
+      const db = request.result;
+      const transaction = request.transaction;
+      if (!transaction) return;
 
-      // Create sessions store
-      if (!db.objectStoreNames.contains(STORES.SESSIONS)) {
-        const sessionsStore = db.createObjectStore(STORES.SESSIONS, {
-          keyPath: 'sessionId',
-        });
-        sessionsStore.createIndex('createdAt', 'createdAt', { unique: false });
-      }
-
-      // Create threads store
-      if (!db.objectStoreNames.contains(STORES.THREADS)) {
-        const threadsStore = db.createObjectStore(STORES.THREADS, {
-          keyPath: 'threadId',
-        });
-        threadsStore.createIndex('createdAt', 'createdAt', { unique: false });
-        threadsStore.createIndex('updatedAt', 'updatedAt', { unique: false });
-      }
+      // Apply each schema/data migration the stored database has not seen yet
+      runMigrations(db, transaction, event.oldVersion);
+    };
 
-      // Create messages store
-      if (!db.objectStoreNames.contains(STORES.MESSAGES)) {
-        const messagesStore = db.createObjectStore(STORES.MESSAGES, {
-          keyPath: 'messageId',
-        });
-        messagesStore.createIndex('threadId', 'threadId', { unique: false });
-        messagesStore.createIndex('createdAt', 'createdAt', { unique: false });
-      }
+    request.onblocked = () => {
+      console.warn('IndexedDB upgrade is waiting for other open tabs to close the database');
     };
   });
 }
@@ -179,11 +178,12 @@ export async function createThread(
       messageIds: [],
       metadata: metadata || {},
     };
+    const stored = await encryptStoredThread(thread);
 
     return new Promise((resolve, reject) => {
       const transaction = db.transaction([STORES.THREADS], 'readwrite');
       const store = transaction.objectStore(STORES.THREADS);
-      const request = store.put(thread);
+      const request = store.put(stored);
 
       request.onsuccess = () => {
         // Update thread count in session metadata
@@ -194,6 +194,7 @@ export async function createThread(
             });
           }
         });
+        publishStorageChange({ type: 'thread-created', threadId });
         resolve(thread);
       };
 
@@ -211,7 +212,7 @@ export async function getThread(threadId: string): Promise<StoredThread | null>
   try {
     const db = await openDatabase();
     
-    return new Promise((resolve, reject) => {
+    const thread = await new Promise<StoredThread | null>((resolve, reject) => {
       const transaction = db.transaction([STORES.THREADS], 'readonly');
       const store = transaction.objectStore(STORES.THREADS);
       const request = store.get(threadId);
@@ -224,6 +225,7 @@ export async function getThread(threadId: string): Promise<StoredThread | null>
         reject(new Error(`Failed to get thread: ${request.error?.message}`));
       };
     });
+    return thread ? await decryptStoredThread(thread) : null;
   } catch (error) {
     console.error('Error getting thread:', error);
     return null;
@@ -245,15 +247,17 @@ export async function updateThread(
       ...updates,
       updatedAt: Date.now(),
     };
+    const stored = await encryptStoredThread(updated);
 
     const db = await openDatabase();
     
     return new Promise((resolve, reject) => {
       const transaction = db.transaction([STORES.THREADS], 'readwrite');
       const store = transaction.objectStore(STORES.THREADS);
-      const request = store.put(updated);
+      const request = store.put(stored);
 
       request.onsuccess = () => {
+        publishStorageChange({ type: 'thread-updated', threadId });
         resolve(updated);
       };
 
@@ -272,7 +276,7 @@ export async function deleteThread(threadId: string): Promise<void> {
     const db = await openDatabase();
     
     // First, delete all messages in this thread
-    const messages = await getMessagesByThreadId(threadId);
+    const messages = await readStoredMessagesByThreadId(threadId);
     for (const message of messages) {
       await deleteMessage(message.messageId);
     }
@@ -300,6 +304,7 @@ export async function deleteThread(threadId: string): Promise<void> {
             });
           }
         });
+        publishStorageChange({ type: 'thread-deleted', threadId });
         resolve();
       };
 
@@ -334,8 +339,8 @@ export async function migrateThread(
       throw new Error(`Thread ${oldThreadId} not found`);
     }
 
-    // Get all messages for the old thread
-    const messages = await getMessagesByThreadId(oldThreadId);
+    // Get all messages for the old thread (as stored: only their threadId changes)
+    const messages = await readStoredMessagesByThreadId(oldThreadId);
 
     // Create new thread with server threadId
     const threadTitle = title || oldThread.title;
@@ -388,6 +393,7 @@ export async function migrateThread(
             threadCount: session.threadCount - 1,
           });
         }
+        publishStorageChange({ type: 'thread-migrated', oldThreadId, newThreadId });
         resolve(newThread);
       };
 
@@ -405,7 +411,7 @@ export async function getAllThreads(): Promise<StoredThread[]> {
   try {
     const db = await openDatabase();
     
-    return new Promise((resolve, reject) => {
+    const threads = await new Promise<StoredThread[]>((resolve, reject) => {
       const transaction = db.transaction([STORES.THREADS], 'readonly');
       const store = transaction.objectStore(STORES.THREADS);
       const index = store.index('updatedAt');
@@ -422,12 +428,132 @@ export async function getAllThreads(): Promise<StoredThread[]> {
         reject(new Error(`Failed to get all threads: ${request.error?.message}`));
       };
     });
+    return await Promise.all(threads.map((thread) => decryptStoredThread(thread)));
   } catch (error) {
     console.error('Error getting all threads:', error);
     return [];
   }
 }
 
+export interface ImportConversationsResult {
+  threadsAdded: number;
+  threadsMerged: number;
+  messagesAdded: number;
+  messagesSkipped: number;
+}
+
+/**
+ * Merges threads and messages (e.g. from an exported transcript) into the database
+ * Threads and messages are matched by id: existing messages are never overwritten or
+ * duplicated, and existing threads keep their title and gain any new message ids.
+ * Ids repeated within the import count once: the first message with an id is kept, and
+ * repeated threads are combined. Everything is written in one transaction, so a failed
+ * import changes nothing.
+ */
+export async function importConversations(
+  threads: StoredThread[],
+  messages: StoredMessage[]
+): Promise<ImportConversationsResult> {
+  try {
+    const result: ImportConversationsResult = {
+      threadsAdded: 0,
+      threadsMerged: 0,
+      messagesAdded: 0,
+      messagesSkipped: 0,
+    };
+
+    // add() would fail the whole transaction on the second copy of an id
+    const uniqueMessages = new Map<string, StoredMessage>();
+    messages.forEach((message) => {
+      if (uniqueMessages.has(message.messageId)) {
+        result.messagesSkipped++;
+      } else {
+        uniqueMessages.set(message.messageId, message);
+      }
+    });
+    const uniqueThreads = new Map<string, StoredThread>();
+    threads.forEach((thread) => {
+      const first = uniqueThreads.get(thread.threadId);
+      uniqueThreads.set(
+        thread.threadId,
+        first
+          ? { ...first, messageIds: [...first.messageIds, ...thread.messageIds.filter((id) => !first.messageIds.includes(id))] }
+          : thread
+      );
+    });
+
+    // Encrypt up front: the transaction below cannot wait for WebCrypto
+    const storedMessages = await Promise.all([...uniqueMessages.values()].map((message) => encryptStoredMessage(message)));
+    const storedThreads = await Promise.all([...uniqueThreads.values()].map((thread) => encryptStoredThread(thread)));
+    const db = await openDatabase();
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([STORES.THREADS, STORES.MESSAGES], 'readwrite');
+      const threadsStore = transaction.objectStore(STORES.THREADS);
+      const messagesStore = transaction.objectStore(STORES.MESSAGES);
+
+      for (const message of storedMessages) {
+        const request = messagesStore.getKey(message.messageId);
+        request.onsuccess = () => {
+          if (request.result !== undefined) {
+            result.messagesSkipped++;
+            return;
+          }
+          messagesStore.add(message);
+          result.messagesAdded++;
+        };
+      }
+
+      for (const thread of storedThreads) {
+        const request = threadsStore.get(thread.threadId);
+        request.onsuccess = () => {
+          const existing: StoredThread | undefined = request.result;
+          if (!existing) {
+            threadsStore.add(thread);
+            result.threadsAdded++;
+            return;
+          }
+
+          const messageIds = [
+            ...existing.messageIds,
+            ...thread.messageIds.filter((messageId) => !existing.messageIds.includes(messageId)),
+          ];
+          threadsStore.put({
+            ...existing,
+            messageIds,
+            updatedAt: Math.max(existing.updatedAt, thread.updatedAt),
+            metadata: { ...thread.metadata, ...existing.metadata },
+          });
+          result.threadsMerged++;
+        };
+      }
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => {
+        reject(new Error(`Failed to import conversations: ${transaction.error?.message}`));
+      };
+      transaction.onabort = () => {
+        reject(new Error(`Import was aborted: ${transaction.error?.message}`));
+      };
+    });
+
+    if (result.threadsAdded > 0) {
+      const session = await getSessionMetadata();
+      if (session) {
+        await createOrUpdateSessionMetadata({
+          threadCount: session.threadCount + result.threadsAdded,
+        });
+      }
+    }
+
+    publishStorageChange({ type: 'threads-imported', threadIds: threads.map((thread) => thread.threadId) });
+    return result;
+  } catch (error) {
+    console.error('Error importing conversations:', error);
+    throw error;
+  }
+}
+
 /**
  * Message Operations
  */
@@ -450,25 +576,36 @@ export async function createMessage(
       createdAt: now,
       metadata: metadata || {},
     };
+    const stored = await encryptStoredMessage(message);
 
     return new Promise((resolve, reject) => {
       const transaction = db.transaction([STORES.MESSAGES], 'readwrite');
       const store = transaction.objectStore(STORES.MESSAGES);
-      const request = store.put(message);
+      store.put(stored);
 
-      request.onsuccess = async () => {
-        // Add message ID to thread's messageIds array
-        const thread = await getThread(threadId);
-        if (thread) {
-          await updateThread(threadId, {
-            messageIds: [...thread.messageIds, messageId],
-          });
+      // Wait for the commit: a full quota is often only reported when the transaction commits
+      transaction.oncomplete = async () => {
+        try {
+          // Add message ID to thread's messageIds array
+          const thread = await getThread(threadId);
+          if (thread) {
+            await updateThread(threadId, {
+              messageIds: [...thread.messageIds, messageId],
+            });
+          }
+          publishStorageChange({ type: 'message-created', threadId, messageId });
+          resolve(message);
+        } catch (error) {
+          reject(error);
         }
-        resolve(message);
       };
 
-      request.onerror = () => {
-        reject(new Error(`Failed to create message: ${request.error?.message}`));
+      transaction.onabort = () => {
+        reject(
+          isQuotaError(transaction.error)
+            ? new StorageQuotaExceededError()
+            : new Error(`Failed to create message: ${transaction.error?.message}`)
+        );
       };
     });
   } catch (error) {
@@ -477,23 +614,56 @@ export async function createMessage(
   }
 }
 
-export async function getMessage(messageId: string): Promise<StoredMessage | null> {
-  try {
-    const db = await openDatabase();
-    
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction([STORES.MESSAGES], 'readonly');
-      const store = transaction.objectStore(STORES.MESSAGES);
-      const request = store.get(messageId);
+/**
+ * Reads a message as stored (content still encrypted when local encryption is on)
+ */
+async function readStoredMessage(messageId: string): Promise<StoredMessage | null> {
+  const db = await openDatabase();
 
-      request.onsuccess = () => {
-        resolve(request.result || null);
-      };
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORES.MESSAGES], 'readonly');
+    const store = transaction.objectStore(STORES.MESSAGES);
+    const request = store.get(messageId);
 
-      request.onerror = () => {
-        reject(new Error(`Failed to get message: ${request.error?.message}`));
-      };
-    });
+    request.onsuccess = () => {
+      resolve(request.result || null);
+    };
+
+    request.onerror = () => {
+      reject(new Error(`Failed to get message: ${request.error?.message}`));
+    };
+  });
+}
+
+/**
+ * Reads a thread's messages as stored, oldest first
+ */
+async function readStoredMessagesByThreadId(threadId: string): Promise<StoredMessage[]> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORES.MESSAGES], 'readonly');
+    const store = transaction.objectStore(STORES.MESSAGES);
+    const index = store.index('threadId');
+    const request = index.getAll(threadId);
+
+    request.onsuccess = () => {
+      const messages: StoredMessage[] = request.result || [];
+      // Sort by createdAt ascending (oldest first)
+      messages.sort((a, b) => a.createdAt - b.createdAt);
+      resolve(messages);
+    };
+
+    request.onerror = () => {
+      reject(new Error(`Failed to get messages: ${request.error?.message}`));
+    };
+  });
+}
+
+export async function getMessage(messageId: string): Promise<StoredMessage | null> {
+  try {
+    const message = await readStoredMessage(messageId);
+    return message ? await decryptStoredMessage(message) : null;
   } catch (error) {
     console.error('Error getting message:', error);
     return null;
@@ -501,28 +671,38 @@ export async function getMessage(messageId: string): Promise<StoredMessage | nul
 }
 
 export async function getMessagesByThreadId(threadId: string): Promise<StoredMessage[]> {
+  try {
+    const messages = await readStoredMessagesByThreadId(threadId);
+    return await Promise.all(messages.map((message) => decryptStoredMessage(message)));
+  } catch (error) {
+    console.error('Error getting messages by thread ID:', error);
+    return [];
+  }
+}
+
+/**
+ * Gets every stored message across all threads (e.g. for building a search index)
+ */
+export async function getAllMessages(): Promise<StoredMessage[]> {
   try {
     const db = await openDatabase();
-    
-    return new Promise((resolve, reject) => {
+
+    const messages = await new Promise<StoredMessage[]>((resolve, reject) => {
       const transaction = db.transaction([STORES.MESSAGES], 'readonly');
       const store = transaction.objectStore(STORES.MESSAGES);
-      const index = store.index('threadId');
-      const request = index.getAll(threadId);
+      const request = store.getAll();
 
       request.onsuccess = () => {
-        const messages = request.result || [];
-        // Sort by createdAt ascending (oldest first)
-        messages.sort((a, b) => a.createdAt - b.createdAt);
-        resolve(messages);
+        resolve(request.result || []);
       };
 
       request.onerror = () => {
-        reject(new Error(`Failed to get messages: ${request.error?.message}`));
+        reject(new Error(`Failed to get all messages: ${request.error?.message}`));
       };
     });
+    return await Promise.all(messages.map((message) => decryptStoredMessage(message)));
   } catch (error) {
-    console.error('Error getting messages by thread ID:', error);
+    console.error('Error getting all messages:', error);
     return [];
   }
 }
@@ -541,15 +721,17 @@ export async function updateMessage(
       ...existing,
       ...updates,
     };
+    const stored = await encryptStoredMessage(updated);
 
     const db = await openDatabase();
     
     return new Promise((resolve, reject) => {
       const transaction = db.transaction([STORES.MESSAGES], 'readwrite');
       const store = transaction.objectStore(STORES.MESSAGES);
-      const request = store.put(updated);
+      const request = store.put(stored);
 
       request.onsuccess = () => {
+        publishStorageChange({ type: 'message-updated', threadId: existing.threadId, messageId });
         resolve(updated);
       };
 
@@ -567,8 +749,8 @@ export async function deleteMessage(messageId: string): Promise<void> {
   try {
     const db = await openDatabase();
     
-    // Get message to find thread ID
-    const message = await getMessage(messageId);
+    // Get message to find thread ID (no need to decrypt it)
+    const message = await readStoredMessage(messageId);
     if (!message) {
       return; // Message doesn't exist, nothing to delete
     }
@@ -585,6 +767,7 @@ export async function deleteMessage(messageId: string): Promise<void> {
       transaction.oncomplete = async () => {
         // Wait for transaction to complete before updating thread
         // This ensures the message deletion is committed to IndexedDB
+        publishStorageChange({ type: 'message-deleted', threadId: message.threadId, messageId });
         try {
           // Remove message ID from thread's messageIds array
           const thread = await getThread(message.threadId);
@@ -611,6 +794,244 @@ export async function deleteMessage(messageId: string): Promise<void> {
   }
 }
 
+/**
+ * Encrypts messages and thread titles stored in plaintext (written before local
+ * encryption was enabled)
+ * Call once the encryption key is available. Records written between the read and the
+ * write (by this or another tab) are left as they are: overwriting them would bring back
+ * their old content, and a write made with the key active is already encrypted.
+ *
+ * @returns Number of messages and threads encrypted
+ */
+export async function encryptPlaintextChats(): Promise<number> {
+  try {
+    const db = await openDatabase();
+
+    const { messages, threads } = await new Promise<{ messages: StoredMessage[]; threads: StoredThread[] }>(
+      (resolve, reject) => {
+        const transaction = db.transaction([STORES.MESSAGES, STORES.THREADS], 'readonly');
+        const messagesRequest = transaction.objectStore(STORES.MESSAGES).getAll();
+        const threadsRequest = transaction.objectStore(STORES.THREADS).getAll();
+        transaction.oncomplete = () =>
+          resolve({
+            messages: (messagesRequest.result || []).filter((message: StoredMessage) => !message.encrypted),
+            threads: (threadsRequest.result || []).filter((thread: StoredThread) => !thread.encryptedTitle),
+          });
+        transaction.onerror = () => reject(new Error(`Failed to read chats: ${transaction.error?.message}`));
+      }
+    );
+    if (messages.length === 0 && threads.length === 0) return 0;
+
+    // Encrypt before opening the write transaction: it cannot wait for WebCrypto
+    const encryptedMessages = await Promise.all(messages.map((message) => encryptStoredMessage(message)));
+    const encryptedThreads = await Promise.all(threads.map((thread) => encryptStoredThread(thread)));
+
+    return await new Promise<number>((resolve, reject) => {
+      const transaction = db.transaction([STORES.MESSAGES, STORES.THREADS], 'readwrite');
+      let encryptedCount = 0;
+      // Re-reads each record in this transaction and replaces it only if it is still the copy that was encrypted
+      const replaceIfUnchanged = <T>(store: IDBObjectStore, key: string, read: T, encrypted: T) => {
+        const request = store.get(key);
+        request.onsuccess = () => {
+          if (request.result && JSON.stringify(request.result) === JSON.stringify(read)) {
+            store.put(encrypted);
+            encryptedCount++;
+          }
+        };
+      };
+      const messagesStore = transaction.objectStore(STORES.MESSAGES);
+      const threadsStore = transaction.objectStore(STORES.THREADS);
+      messages.forEach((message, index) =>
+        replaceIfUnchanged(messagesStore, message.messageId, message, encryptedMessages[index])
+      );
+      threads.forEach((thread, index) =>
+        replaceIfUnchanged(threadsStore, thread.threadId, thread, encryptedThreads[index])
+      );
+      transaction.oncomplete = () => resolve(encryptedCount);
+      transaction.onerror = () => {
+        reject(new Error(`Failed to encrypt chats: ${transaction.error?.message}`));
+      };
+    });
+  } catch (error) {
+    console.error('Error encrypting stored chats:', error);
+    throw error;
+  }
+}
+
+/**
+ * Ids of every stored thread, readable without the encryption key
+ */
+export async function getAllThreadIds(): Promise<string[]> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORES.THREADS], 'readonly');
+    const request = transaction.objectStore(STORES.THREADS).getAllKeys();
+    request.onsuccess = () => resolve((request.result || []).map(String));
+    request.onerror = () => reject(new Error(`Failed to get thread ids: ${request.error?.message}`));
+  });
+}
+
+/**
+ * Settings Operations
+ * Small per-browser preferences (e.g. sidebar pins and folders), stored by key
+ */
+export async function getSetting<T>(key: string): Promise<T | null> {
+  try {
+    const db = await openDatabase();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORES.SETTINGS], 'readonly');
+      const store = transaction.objectStore(STORES.SETTINGS);
+      const request = store.get(key);
+
+      request.onsuccess = () => {
+        const setting: StoredSetting<T> | undefined = request.result;
+        resolve(setting ? setting.value : null);
+      };
+
+      request.onerror = () => {
+        reject(new Error(`Failed to get setting: ${request.error?.message}`));
+      };
+    });
+  } catch (error) {
+    console.error('Error getting setting:', error);
+    return null;
+  }
+}
+
+export async function setSetting<T>(key: string, value: T): Promise<void> {
+  try {
+    const db = await openDatabase();
+    const setting: StoredSetting<T> = { key, value, updatedAt: Date.now() };
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STORES.SETTINGS], 'readwrite');
+      const store = transaction.objectStore(STORES.SETTINGS);
+      const request = store.put(setting);
+
+      request.onsuccess = () => {
+        publishStorageChange({ type: 'setting-updated', key });
+        resolve();
+      };
+
+      request.onerror = () => {
+        reject(new Error(`Failed to save setting: ${request.error?.message}`));
+      };
+    });
+  } catch (error) {
+    console.error('Error saving setting:', error);
+    throw error;
+  }
+}
+
+/**
+ * Stores a setting unless one is already stored, in one transaction
+ * For values that must be created exactly once even when several tabs start together
+ * (e.g. encryption keys): the first write wins and every caller gets the stored value.
+ *
+ * @returns The stored value: `value` if it was added, otherwise the existing one
+ */
+export async function addSetting<T>(key: string, value: T): Promise<T> {
+  try {
+    const db = await openDatabase();
+    const setting: StoredSetting<T> = { key, value, updatedAt: Date.now() };
+
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction([STORES.SETTINGS], 'readwrite');
+      const store = transaction.objectStore(STORES.SETTINGS);
+      let stored = value;
+      let added = false;
+
+      const request = store.add(setting);
+      request.onsuccess = () => {
+        added = true;
+      };
+      request.onerror = (event) => {
+        if (request.error?.name !== 'ConstraintError') return;
+        // Already stored: keep the transaction alive and use the existing value
+        event.preventDefault();
+        event.stopPropagation();
+        const existing = store.get(key);
+        existing.onsuccess = () => {
+          const current: StoredSetting<T> | undefined = existing.result;
+          if (current && current.value !== null) {
+            stored = current.value;
+          } else {
+            // Cleared settings are kept with a null value (see setSetting callers)
+            store.put(setting);
+            added = true;
+          }
+        };
+      };
+
+      transaction.oncomplete = () => {
+        if (added) publishStorageChange({ type: 'setting-updated', key });
+        resolve(stored);
+      };
+      transaction.onerror = () => {
+        reject(new Error(`Failed to add setting: ${transaction.error?.message}`));
+      };
+    });
+  } catch (error) {
+    console.error('Error adding setting:', error);
+    throw error;
+  }
+}
+
+/**
+ * Records that a thread was opened, for least-recently-used eviction (see ./retention)
+ * Unlike updateThread this keeps `updatedAt`, so opening a chat does not reorder the history.
+ */
+export async function touchThread(threadId: string): Promise<void> {
+  try {
+    const db = await openDatabase();
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([STORES.THREADS], 'readwrite');
+      const store = transaction.objectStore(STORES.THREADS);
+      const request = store.get(threadId);
+
+      request.onsuccess = () => {
+        const thread: StoredThread | undefined = request.result;
+        if (thread) {
+          store.put({ ...thread, metadata: { ...thread.metadata, lastOpenedAt: Date.now() } });
+        }
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => {
+        reject(new Error(`Failed to record thread access: ${transaction.error?.message}`));
+      };
+    });
+  } catch (error) {
+    // Only affects eviction order, never worth failing the caller
+    console.error('Error recording thread access:', error);
+  }
+}
+
+/**
+ * Whether this browser has a local database from an earlier PUBLIC_AGENT session
+ * Lets other modes look for local chats without creating an empty database. Browsers
+ * that cannot list databases report true; opening it then creates an empty one.
+ */
+export async function localDatabaseExists(): Promise<boolean> {
+  if (typeof window === 'undefined' || !window.indexedDB) {
+    return false;
+  }
+  if (typeof indexedDB.databases !== 'function') {
+    return true;
+  }
+
+  try {
+    const databases = await indexedDB.databases();
+    return databases.some((database) => database.name === DB_NAME);
+  } catch (error) {
+    console.error('Error listing databases:', error);
+    return false;
+  }
+}
+
 /**
  * Utility: Check if PUBLIC_AGENT mode is enabled
  * 
@@ -0,0 +1,157 @@
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it } from 'vitest';
+import { LATEST_VERSION, MIGRATIONS, normalizeMessageMetadata, runMigrations, STORES } from './migrations';
+
+const DB_NAME = 'migrations-test';
+
+const openDatabases: IDBDatabase[] = [];
+
+function openAt(version: number, seed?: (db: IDBDatabase, transaction: IDBTransaction) => void) {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, version);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      // Let the next, newer open upgrade the database, as openDatabase does
+      request.result.onversionchange = () => request.result.close();
+      openDatabases.push(request.result);
+      resolve(request.result);
+    };
+    request.onupgradeneeded = (event) => {
+      const transaction = request.transaction!;
+      if (seed) {
+        seed(request.result, transaction);
+      } else {
+        runMigrations(request.result, transaction, event.oldVersion);
+      }
+    };
+  });
+}
+
+function readAll<T>(db: IDBDatabase, storeName: string): Promise<T[]> {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction([storeName], 'readonly').objectStore(storeName).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** A database as the first release left it: version 1 stores holding old-style metadata */
+function openBaselineV1() {
+  return openAt(1, (db, transaction) => {
+    MIGRATIONS[0].upgrade(db, transaction);
+    const messages = transaction.objectStore(STORES.MESSAGES);
+    messages.put({
+      messageId: 'm1',
+      threadId: 't1',
+      role: 'assistant',
+      content: 'Hello',
+      createdAt: 1,
+      metadata: {
+        isUpvote: true,
+        followup_questions: 'What next?',
+        reflection_events: [{ type: 'plan' }],
+        guardrailTriggered: true,
+      },
+    });
+    messages.put({
+      messageId: 'm2',
+      threadId: 't1',
+      role: 'user',
+      content: 'Hi',
+      createdAt: 0,
+      metadata: { is_upvote: false, is_downvote: false },
+    });
+    transaction.objectStore(STORES.THREADS).put({
+      threadId: 't1',
+      title: 'Greeting',
+      createdAt: 0,
+      updatedAt: 1,
+      messageIds: ['m2', 'm1'],
+    });
+  });
+}
+
+afterEach(async () => {
+  openDatabases.splice(0).forEach((db) => db.close());
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+});
+
+describe('MIGRATIONS', () => {
+  it('has consecutive versions starting at 1', () => {
+    expect(MIGRATIONS.map((migration) => migration.version)).toEqual(
+      MIGRATIONS.map((_, index) => index + 1)
+    );
+    expect(LATEST_VERSION).toBe(MIGRATIONS.length);
+  });
+});
+
+describe('runMigrations', () => {
+  it('creates every store and index in a new database', async () => {
+    const db = await openAt(LATEST_VERSION);
+
+    expect([...db.objectStoreNames].sort()).toEqual(Object.values(STORES).sort());
+    const transaction = db.transaction([STORES.THREADS, STORES.MESSAGES], 'readonly');
+    expect([...transaction.objectStore(STORES.THREADS).indexNames].sort()).toEqual(['createdAt', 'updatedAt']);
+    expect([...transaction.objectStore(STORES.MESSAGES).indexNames].sort()).toEqual(['createdAt', 'threadId']);
+  });
+
+  it('upgrades a version 1 database to the latest version and normalizes its messages', async () => {
+    await openBaselineV1();
+
+    const db = await openAt(LATEST_VERSION);
+    expect(db.version).toBe(LATEST_VERSION);
+    expect(db.objectStoreNames.contains(STORES.SETTINGS)).toBe(true);
+
+    const messages = await readAll<Record<string, any>>(db, STORES.MESSAGES);
+    expect(messages.find((message) => message.messageId === 'm1')?.metadata).toEqual({
+      is_upvote: true,
+      is_downvote: false,
+      followUpQuestions: ['What next?'],
+      reflectionEvents: [{ type: 'plan' }],
+      guardrail_triggered: true,
+    });
+    expect(messages.find((message) => message.messageId === 'm2')?.metadata).toEqual({
+      is_upvote: false,
+      is_downvote: false,
+    });
+
+    const threads = await readAll<Record<string, any>>(db, STORES.THREADS);
+    expect(threads).toEqual([expect.objectContaining({ threadId: 't1', title: 'Greeting', messageIds: ['m2', 'm1'] })]);
+  });
+
+  it('only runs migrations newer than the stored version', async () => {
+    await openBaselineV1();
+    await openAt(2);
+
+    const db = await openAt(LATEST_VERSION);
+    expect(db.objectStoreNames.contains(STORES.SETTINGS)).toBe(true);
+    expect(await readAll(db, STORES.MESSAGES)).toHaveLength(2);
+  });
+});
+
+describe('normalizeMessageMetadata', () => {
+  it('returns null when the metadata is already normalized', () => {
+    expect(normalizeMessageMetadata({ is_upvote: false, is_downvote: true, references: [] })).toBeNull();
+    expect(normalizeMessageMetadata(undefined)).toBeNull();
+  });
+
+  it('prefers snake_case flags over their camelCase aliases', () => {
+    expect(normalizeMessageMetadata({ is_upvote: false, isUpvote: true })).toEqual({
+      is_upvote: false,
+      is_downvote: false,
+    });
+  });
+
+  it('drops empty list fields and coerces flags to booleans', () => {
+    expect(normalizeMessageMetadata({ references: null, blocked: 'yes', reflection_contents: 'text' })).toEqual({
+      is_upvote: false,
+      is_downvote: false,
+      reflectionContents: ['text'],
+      blocked: false,
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * IndexedDB Schema Migrations for PUBLIC_AGENT Mode
+ *
+ * Every change to the local database (new stores, indexes or stored data shapes) is
+ * added here as a new migration with the next version number. Never edit a migration
+ * that has shipped: browsers that already ran it will not run it again.
+ *
+ * When the database is opened, every migration newer than the stored version runs in
+ * order inside the same versionchange transaction, so an upgrade either completes or
+ * leaves the previous version untouched.
+ */
+
+import { StoredMessage } from './types';
+
+export const STORES = {
+  SESSIONS: 'sessions',
+  THREADS: 'threads',
+  MESSAGES: 'messages',
+  SETTINGS: 'settings',
+} as const;
+
+export interface Migration {
+  /** Database version this migration upgrades to */
+  version: number;
+  description: string;
+  upgrade: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+/**
+ * Creates a store only if it is missing, so the initial migration is safe to run on
+ * databases created before migrations were versioned
+ */
+function ensureStore(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  name: string,
+  options: IDBObjectStoreParameters
+): IDBObjectStore {
+  return db.objectStoreNames.contains(name)
+    ? transaction.objectStore(name)
+    : db.createObjectStore(name, options);
+}
+
+function ensureIndex(store: IDBObjectStore, name: string, keyPath: string): void {
+  if (!store.indexNames.contains(name)) {
+    store.createIndex(name, keyPath, { unique: false });
+  }
+}
+
+function toArray(value: unknown): any[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Brings message metadata written by earlier releases to the current StoredMessage shape:
+ * camelCase vote flags become snake_case, `followup_questions` becomes `followUpQuestions`,
+ * list fields are always arrays and flags are always booleans.
+ *
+ * @returns The normalized metadata, or null if nothing needed to change
+ */
+export function normalizeMessageMetadata(
+  metadata: Record<string, any> | undefined
+): StoredMessage['metadata'] | null {
+  if (!metadata || typeof metadata !== 'object') return null;
+
+  const {
+    isUpvote,
+    isDownvote,
+    followup_questions,
+    reflection_events,
+    reflection_contents,
+    guardrailTriggered,
+    ...rest
+  } = metadata;
+
+  const normalized: NonNullable<StoredMessage['metadata']> = {
+    ...rest,
+    is_upvote: (rest.is_upvote ?? isUpvote) === true,
+    is_downvote: (rest.is_downvote ?? isDownvote) === true,
+  };
+
+  const listFields = {
+    followUpQuestions: rest.followUpQuestions ?? followup_questions,
+    references: rest.references,
+    reflectionEvents: rest.reflectionEvents ?? reflection_events,
+    reflectionContents: rest.reflectionContents ?? reflection_contents,
+  };
+  for (const [key, value] of Object.entries(listFields)) {
+    const list = toArray(value);
+    if (list) {
+      normalized[key] = list;
+    } else {
+      delete normalized[key];
+    }
+  }
+
+  const guardrail = rest.guardrail_triggered ?? guardrailTriggered;
+  if (guardrail !== undefined) normalized.guardrail_triggered = guardrail === true;
+  if (rest.blocked !== undefined) normalized.blocked = rest.blocked === true;
+
+  return JSON.stringify(normalized) === JSON.stringify(metadata) ? null : normalized;
+}
+
+/**
+ * Ordered migration registry; versions must be consecutive, starting at 1
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create sessions, threads and messages stores',
+    upgrade: (db, transaction) => {
+      const sessionsStore = ensureStore(db, transaction, STORES.SESSIONS, { keyPath: 'sessionId' });
+      ensureIndex(sessionsStore, 'createdAt', 'createdAt');
+
+      const threadsStore = ensureStore(db, transaction, STORES.THREADS, { keyPath: 'threadId' });
+      ensureIndex(threadsStore, 'createdAt', 'createdAt');
+      ensureIndex(threadsStore, 'updatedAt', 'updatedAt');
+
+      const messagesStore = ensureStore(db, transaction, STORES.MESSAGES, { keyPath: 'messageId' });
+      ensureIndex(messagesStore, 'threadId', 'threadId');
+      ensureIndex(messagesStore, 'createdAt', 'createdAt');
+    },
+  },
+  {
+    version: 2,
+    description: 'Normalize stored message metadata',
+    upgrade: (_db, transaction) => {
+      const request = transaction.objectStore(STORES.MESSAGES).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+
+        const message = cursor.value as StoredMessage;
+        const metadata = normalizeMessageMetadata(message.metadata);
+        if (metadata) {
+          cursor.update({ ...message, metadata });
+        }
+        cursor.continue();
+      };
+    },
+  },
+  {
+    version: 3,
+    description: 'Create settings store for sidebar pins and folders',
+    upgrade: (db, transaction) => {
+      ensureStore(db, transaction, STORES.SETTINGS, { keyPath: 'key' });
+    },
+  },
+];
+
+/** Current database version: the version of the newest migration */
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Runs every migration newer than `oldVersion`, in order
+ * Must be called from `onupgradeneeded` with the versionchange transaction.
+ */
+export function runMigrations(db: IDBDatabase, transaction: IDBTransaction, oldVersion: number): void {
+  MIGRATIONS.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(`IndexedDB migrations must be consecutive: expected version ${index + 1}, found ${migration.version}`);
+    }
+    if (migration.version > oldVersion) {
+      migration.upgrade(db, transaction);
+    }
+  });
+}
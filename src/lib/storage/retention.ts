@@ -0,0 +1,180 @@
+/**
+ * Storage Retention for PUBLIC_AGENT Mode
+ *
+ * Local chats are never pruned by the browser, and answers with large references and
+ * reflection steps add up, so long-lived devices (e.g. public kiosks) eventually run out
+ * of space. The retention policy removes the least recently used threads once there are
+ * too many, they are too old, or together they take too much space. The policy is set
+ * per deployment with NEXT_PUBLIC_AGENT_RETENTION_* variables; every limit is off unless
+ * configured, so chats are never removed behind the back of existing users.
+ *
+ * "Used" means the later of the last message and the last time the thread was opened.
+ */
+
+import { deleteThread, getAllMessages, getAllThreads } from './indexeddb';
+import type { StoredMessage, StoredThread } from './types';
+
+export interface RetentionPolicy {
+  /** Most threads kept; null for no limit */
+  maxThreads: number | null;
+  /** Threads unused for longer than this are removed; null for no limit */
+  maxAgeDays: number | null;
+  /** Most bytes the stored chats may take; null for no limit */
+  maxBytes: number | null;
+}
+
+export interface RetentionResult {
+  threadsDeleted: number;
+  bytesFreed: number;
+}
+
+export interface ThreadStorageInfo {
+  thread: StoredThread;
+  bytes: number;
+  messageCount: number;
+  lastUsedAt: number;
+}
+
+export interface StorageUsage {
+  /** Estimated size of the stored chats */
+  chatBytes: number;
+  threadCount: number;
+  messageCount: number;
+  /** Everything the site stores, as reported by navigator.storage.estimate() */
+  siteUsage: number | null;
+  siteQuota: number | null;
+  policy: RetentionPolicy;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Reads a limit from the environment: unset, invalid or 0 means no limit
+ */
+function parseLimit(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') return null;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) || parsed <= 0 ? null : parsed;
+}
+
+/**
+ * Gets the retention policy from NEXT_PUBLIC_AGENT_RETENTION_MAX_THREADS,
+ * NEXT_PUBLIC_AGENT_RETENTION_MAX_AGE_DAYS and NEXT_PUBLIC_AGENT_RETENTION_MAX_MB
+ */
+export function getRetentionPolicy(): RetentionPolicy {
+  const maxMb = parseLimit(process.env.NEXT_PUBLIC_AGENT_RETENTION_MAX_MB);
+  const maxThreads = parseLimit(process.env.NEXT_PUBLIC_AGENT_RETENTION_MAX_THREADS);
+
+  return {
+    maxThreads: maxThreads === null ? null : Math.floor(maxThreads),
+    maxAgeDays: parseLimit(process.env.NEXT_PUBLIC_AGENT_RETENTION_MAX_AGE_DAYS),
+    maxBytes: maxMb === null ? null : Math.round(maxMb * 1024 * 1024),
+  };
+}
+
+/**
+ * Approximate stored size of a record (IndexedDB keeps strings as UTF-16 on most engines,
+ * so this underestimates; it is only used to compare threads and apply the byte limit)
+ */
+function estimateBytes(value: unknown): number {
+  return new TextEncoder().encode(JSON.stringify(value)).length;
+}
+
+function getLastUsedAt(thread: StoredThread): number {
+  return Math.max(thread.updatedAt, thread.metadata?.lastOpenedAt || 0);
+}
+
+/**
+ * Size and last use of every thread, least recently used first
+ */
+export async function getThreadStorageInfo(): Promise<ThreadStorageInfo[]> {
+  const [threads, messages] = await Promise.all([getAllThreads(), getAllMessages()]);
+
+  const messagesByThread = new Map<string, StoredMessage[]>();
+  messages.forEach((message) => {
+    const list = messagesByThread.get(message.threadId) || [];
+    list.push(message);
+    messagesByThread.set(message.threadId, list);
+  });
+
+  return threads
+    .map((thread) => {
+      const threadMessages = messagesByThread.get(thread.threadId) || [];
+      return {
+        thread,
+        bytes: estimateBytes(thread) + threadMessages.reduce((total, message) => total + estimateBytes(message), 0),
+        messageCount: threadMessages.length,
+        lastUsedAt: getLastUsedAt(thread),
+      };
+    })
+    .sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+}
+
+export async function getStorageUsage(): Promise<StorageUsage> {
+  const info = await getThreadStorageInfo();
+
+  let siteUsage: number | null = null;
+  let siteQuota: number | null = null;
+  if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+    try {
+      const estimate = await navigator.storage.estimate();
+      siteUsage = estimate.usage ?? null;
+      siteQuota = estimate.quota ?? null;
+    } catch (error) {
+      console.error('Error estimating storage usage:', error);
+    }
+  }
+
+  return {
+    chatBytes: info.reduce((total, item) => total + item.bytes, 0),
+    threadCount: info.length,
+    messageCount: info.reduce((total, item) => total + item.messageCount, 0),
+    siteUsage,
+    siteQuota,
+    policy: getRetentionPolicy(),
+  };
+}
+
+/**
+ * Deletes the least recently used threads until the policy is met
+ *
+ * @param options.keepThreadIds Threads never deleted (e.g. the one currently open)
+ * @param options.freeRatio Additionally frees at least this share (0-1) of the stored
+ *   chats, used when a write failed because the browser quota is full (the real
+ *   shortfall is unknown)
+ */
+export async function applyRetentionPolicy(
+  policy: RetentionPolicy = getRetentionPolicy(),
+  options: { keepThreadIds?: string[]; freeRatio?: number } = {}
+): Promise<RetentionResult> {
+  const keep = new Set(options.keepThreadIds || []);
+  const info = await getThreadStorageInfo();
+  const result: RetentionResult = { threadsDeleted: 0, bytesFreed: 0 };
+
+  let threadCount = info.length;
+  let totalBytes = info.reduce((total, item) => total + item.bytes, 0);
+  const byteLimit = Math.min(
+    policy.maxBytes ?? Infinity,
+    options.freeRatio ? totalBytes * (1 - options.freeRatio) : Infinity
+  );
+  const oldestAllowed = policy.maxAgeDays === null ? -Infinity : Date.now() - policy.maxAgeDays * DAY_MS;
+
+  for (const item of info) {
+    const tooMany = policy.maxThreads !== null && threadCount > policy.maxThreads;
+    const tooOld = item.lastUsedAt < oldestAllowed;
+    const tooBig = totalBytes > byteLimit;
+    if (!tooMany && !tooOld && !tooBig) {
+      // Sorted by last use: every remaining thread is newer and within the limits
+      break;
+    }
+    if (keep.has(item.thread.threadId)) continue;
+
+    await deleteThread(item.thread.threadId);
+    threadCount--;
+    totalBytes -= item.bytes;
+    result.threadsDeleted++;
+    result.bytesFreed += item.bytes;
+  }
+
+  return result;
+}
@@ -0,0 +1,179 @@
+/**
+ * Transcript Export/Import for PUBLIC_AGENT Mode
+ *
+ * Visitors' conversations only live in this browser's IndexedDB. Transcripts let them
+ * keep a copy: a versioned JSON bundle that can be imported back (into this or another
+ * browser), or a Markdown file for reading and sharing.
+ *
+ * Bundles are validated with zod before anything is written, and imports merge by
+ * thread/message id, so importing the same file twice does not duplicate anything.
+ */
+
+import { z } from 'zod';
+import {
+  getAllThreads,
+  getMessagesByThreadId,
+  importConversations,
+  ImportConversationsResult,
+} from './indexeddb';
+import { isEncryptionLocked, LocalStorageLockedError } from './encryption';
+import { normalizeMessageMetadata } from './migrations';
+import { StoredMessage, StoredThread } from './types';
+
+export const TRANSCRIPT_FORMAT = 'ejento-public-agent-transcript';
+export const TRANSCRIPT_VERSION = 1;
+
+const storedMessageSchema = z.object({
+  messageId: z.string().min(1),
+  threadId: z.string().min(1),
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+  createdAt: z.number().int().nonnegative(),
+  metadata: z.record(z.any()).optional(),
+});
+
+const storedThreadSchema = z.object({
+  threadId: z.string().min(1),
+  title: z.string(),
+  createdAt: z.number().int().nonnegative(),
+  updatedAt: z.number().int().nonnegative(),
+  messageIds: z.array(z.string()),
+  metadata: z.record(z.any()).optional(),
+});
+
+const transcriptBundleSchema = z
+  .object({
+    format: z.literal(TRANSCRIPT_FORMAT),
+    version: z.literal(TRANSCRIPT_VERSION),
+    exportedAt: z.string(),
+    agentName: z.string().optional(),
+    threads: z.array(storedThreadSchema),
+    messages: z.array(storedMessageSchema),
+  })
+  .superRefine((bundle, ctx) => {
+    const threadIds = new Set(bundle.threads.map((thread) => thread.threadId));
+    bundle.messages.forEach((message, index) => {
+      if (!threadIds.has(message.threadId)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['messages', index, 'threadId'],
+          message: `Message belongs to thread ${message.threadId}, which is not in the file`,
+        });
+      }
+    });
+  });
+
+export type TranscriptBundle = z.infer<typeof transcriptBundleSchema>;
+
+export type ParseTranscriptResult =
+  | { success: true; bundle: TranscriptBundle }
+  | { success: false; error: string };
+
+/**
+ * Collects threads and their messages from IndexedDB into a bundle
+ *
+ * @param threadIds - Threads to export; all threads when omitted
+ * @param agentName - Optional agent name recorded in the bundle and Markdown heading
+ * @throws LocalStorageLockedError if the chats are encrypted and not unlocked yet, since
+ * they would otherwise read as an empty history
+ */
+export async function createTranscriptBundle(
+  threadIds?: string[],
+  agentName?: string
+): Promise<TranscriptBundle> {
+  if (isEncryptionLocked()) {
+    throw new LocalStorageLockedError();
+  }
+
+  const allThreads = await getAllThreads();
+  const threads = threadIds
+    ? allThreads.filter((thread) => threadIds.includes(thread.threadId))
+    : allThreads;
+
+  const messages: StoredMessage[] = [];
+  for (const thread of threads) {
+    messages.push(...(await getMessagesByThreadId(thread.threadId)));
+  }
+
+  return {
+    format: TRANSCRIPT_FORMAT,
+    version: TRANSCRIPT_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...(agentName ? { agentName } : {}),
+    threads,
+    messages,
+  };
+}
+
+/**
+ * Renders a bundle as Markdown, one section per thread in chronological order
+ */
+export function transcriptToMarkdown(bundle: TranscriptBundle): string {
+  const lines: string[] = [`# ${bundle.agentName || 'Chat'} transcript`, '', `Exported ${bundle.exportedAt}`];
+
+  const threads = [...bundle.threads].sort((a, b) => a.createdAt - b.createdAt);
+  for (const thread of threads) {
+    lines.push('', `## ${thread.title || 'Untitled chat'}`, '', `_Started ${new Date(thread.createdAt).toISOString()}_`);
+
+    const messages = bundle.messages
+      .filter((message) => message.threadId === thread.threadId)
+      .sort((a, b) => a.createdAt - b.createdAt);
+
+    for (const message of messages) {
+      lines.push('', `**${message.role === 'user' ? 'You' : 'Assistant'}:**`, '', message.content.trim());
+
+      const followUps: unknown = message.metadata?.followUpQuestions;
+      if (Array.isArray(followUps) && followUps.length > 0) {
+        lines.push('', '_Suggested follow-ups:_', ...followUps.map((question) => `- ${question}`));
+      }
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Parses and validates the contents of a transcript JSON file
+ */
+export function parseTranscriptBundle(text: string): ParseTranscriptResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { success: false, error: 'The file is not valid JSON.' };
+  }
+
+  const result = transcriptBundleSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.length > 0 ? ` (${issue.path.join('.')})` : '';
+    return { success: false, error: `The file is not a valid transcript: ${issue.message}${path}` };
+  }
+
+  return { success: true, bundle: result.data };
+}
+
+/**
+ * Merges a validated bundle into IndexedDB
+ * Message metadata from older exports is brought to the current shape first.
+ */
+export async function importTranscriptBundle(bundle: TranscriptBundle): Promise<ImportConversationsResult> {
+  const messages = bundle.messages.map((message) => ({
+    ...message,
+    metadata: normalizeMessageMetadata(message.metadata) ?? message.metadata,
+  }));
+  return importConversations(bundle.threads as StoredThread[], messages as StoredMessage[]);
+}
+
+/**
+ * Suggested file name for an export, e.g. `chat-transcript-2024-05-01.json`
+ */
+export function getTranscriptFileName(extension: 'json' | 'md', thread?: StoredThread): string {
+  const date = new Date().toISOString().slice(0, 10);
+  const slug = thread?.title
+    ?.toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40);
+  return `${slug || 'chat-transcript'}-${date}.${extension}`;
+}
@@ -31,6 +31,13 @@ export interface StoredMessage {
     blocked?: boolean;
     [key: string]: any; // Allow additional metadata
   };
+  // Set when local encryption is enabled: holds content and metadata (see encryption.ts)
+  encrypted?: EncryptedPayload;
+}
+
+export interface EncryptedPayload {
+  iv: string; // Base64
+  data: string; // Base64 AES-GCM ciphertext
 }
 
 export interface StoredThread {
@@ -39,18 +46,40 @@ export interface StoredThread {
   createdAt: number; // Unix timestamp
   updatedAt: number; // Unix timestamp
   messageIds: string[]; // Array of message IDs in order
+  // Set when local encryption is enabled: holds the title (see encryption.ts)
+  encryptedTitle?: EncryptedPayload;
   metadata?: {
     // Server thread ID (if created on server)
     serverThreadId?: number | null;
     // Local thread ID (negative number before server creation)
     localThreadId?: number | null;
+    // Last time the thread was opened (Unix timestamp), for retention
+    lastOpenedAt?: number;
+    // Agent the chat was held with; it can only be imported into that agent (see account-sync.ts)
+    agentId?: string;
+    // Copies of this thread in signed-in accounts, by account key (see account-sync.ts)
+    accountSync?: Record<string, ThreadAccountSync>;
     [key: string]: any;
   };
 }
 
+export interface ThreadAccountSync {
+  serverThreadId: number; // Thread created in the account
+  replayedMessages: number; // User messages already replayed into it
+  pendingMessage?: number | null; // Number of the user message sent but not yet confirmed
+  syncedAt: number | null; // Unix timestamp, null until every message is replayed
+}
+
+export interface StoredSetting<T = unknown> {
+  key: string;
+  value: T;
+  updatedAt: number; // Unix timestamp
+}
+
 export interface DatabaseSchema {
   sessions: SessionMetadata;
   threads: StoredThread;
   messages: StoredMessage;
+  settings: StoredSetting;
 }
 
@@ -0,0 +1,96 @@
+/**
+ * Chat Thread Routes (server-only)
+ *
+ * Threads are opened at /chat/[threadId]. Before the page renders, the thread id is
+ * checked against Ejento with the server-side credentials, so a link to a thread the
+ * signed-in account cannot read shows a 404 instead of an empty chat. The check reads the
+ * thread's chat log, which the page then hands to the chat so it is not fetched twice.
+ *
+ * Negative ids are threads that only exist in the browser (not sent yet, or PUBLIC_AGENT
+ * chats kept in IndexedDB); the server cannot see them, so the client checks those.
+ *
+ * Links from before these routes carried the thread id AES-encrypted in `?id=`; they are
+ * decrypted here once and redirected to the thread route.
+ */
+
+import 'server-only';
+import CryptoJS from 'crypto-js';
+import { API_CONFIG, createCorrelationId } from './api-config';
+import { logEvent } from './logger';
+import { getServerSideCredentials, isPublicAgentEnabled } from './server-credentials';
+import type { ChatThreadAgentResponsesV2 } from '@/model';
+
+export type ThreadAccess = 'allowed' | 'not-found' | 'unknown';
+
+export interface ThreadAccessResult {
+  access: ThreadAccess;
+  /** The thread's chat log, when access is 'allowed' and it could be read */
+  chatlog?: ChatThreadAgentResponsesV2;
+}
+
+const THREAD_ID_PATTERN = /^-?\d{1,20}$/;
+const ACCESS_CHECK_TIMEOUT_MS = 5000;
+
+export function isValidThreadId(threadId: string): boolean {
+  return THREAD_ID_PATTERN.test(threadId);
+}
+
+/**
+ * Whether the current credentials can read a thread, with its chat log when they can
+ *
+ * The log is requested exactly as ApiService.getChatlogs requests it, so the chat can
+ * render it instead of fetching it again. 'unknown' when access cannot be decided here
+ * (no credentials yet, PUBLIC_AGENT mode, Ejento unreachable): the page renders and the
+ * client handles it as before.
+ */
+export async function checkThreadAccess(threadId: string): Promise<ThreadAccessResult> {
+  if (!isValidThreadId(threadId)) return { access: 'not-found' };
+  if (threadId.startsWith('-') || isPublicAgentEnabled()) return { access: 'unknown' };
+
+  const credentials = await getServerSideCredentials();
+  if (!credentials) return { access: 'unknown' };
+
+  const url = `${credentials.baseUrl}/api/v2/chat-threads/${threadId}/agent-responses?include_steps=true`;
+  const correlationId = createCorrelationId();
+  try {
+    const response = await fetch(url, {
+      headers: {
+        'Authorization': credentials.authorization,
+        'Ocp-Apim-Subscription-Key': credentials.apiKey,
+        [API_CONFIG.CORRELATION_ID_HEADER]: correlationId,
+      },
+      cache: 'no-store',
+      signal: AbortSignal.timeout(ACCESS_CHECK_TIMEOUT_MS),
+    });
+
+    if (response.ok) {
+      // An unreadable body still proves access; the chat then fetches the log itself
+      const chatlog = await response.json().catch(() => undefined);
+      return { access: 'allowed', chatlog };
+    }
+    if (response.status === 403 || response.status === 404) {
+      logEvent('warn', 'chat.thread_access_denied', { correlationId, status: response.status });
+      return { access: 'not-found' };
+    }
+    return { access: 'unknown' };
+  } catch (error) {
+    logEvent('warn', 'chat.thread_access_check_failed', { correlationId, error });
+    return { access: 'unknown' };
+  }
+}
+
+/**
+ * Thread id of a link in the old `/chat?id=<encrypted>` format, or null if it cannot be read
+ */
+export function decryptLegacyThreadId(encryptedId: string): string | null {
+  const secretKey = process.env.NEXT_PUBLIC_SECRET_KEY;
+  if (!secretKey) return null;
+
+  try {
+    const decrypted = CryptoJS.AES.decrypt(encryptedId.replace(/_/g, '/'), secretKey).toString(CryptoJS.enc.Utf8);
+    const threadId = String(JSON.parse(decrypted));
+    return isValidThreadId(threadId) ? threadId : null;
+  } catch {
+    return null;
+  }
+}
@@ -2,7 +2,8 @@
  * Token Refresh Utilities
  * 
  * Handles automatic token refresh for PUBLIC_AGENT mode.
- * Refreshes the author's Ejento access token every 2 days.
+ * Asks the server to refresh the author's Ejento access token every 2 days; the
+ * server keeps the renewed token and only reports its expiry back.
  */
 
 import { createOrUpdateSessionMetadata } from './storage/indexeddb';
@@ -29,10 +30,30 @@ export function getTokenRefreshInterval(): number {
 }
 
 /**
- * Refreshes the Ejento access token via API
- * Returns the new access token or null if refresh failed
+ * Expiry information for the author's access token
+ * The token itself never leaves the server.
  */
-export async function refreshEjentoToken(): Promise<string | null> {
+export interface TokenStatus {
+  /** Unix timestamp (ms) when the token expires, null if unknown */
+  expiresAt: number | null;
+  /** Whether the server can renew the token on its own */
+  refreshable: boolean;
+  lastRefreshedAt: number | null;
+}
+
+function toTokenStatus(data: any): TokenStatus {
+  return {
+    expiresAt: typeof data.expiresAt === 'number' ? data.expiresAt : null,
+    refreshable: Boolean(data.refreshable),
+    lastRefreshedAt: typeof data.lastRefreshedAt === 'number' ? data.lastRefreshedAt : null,
+  };
+}
+
+/**
+ * Asks the server to refresh the Ejento access token if it is close to expiry
+ * Returns the resulting token status or null if refresh failed
+ */
+export async function refreshEjentoToken(): Promise<TokenStatus | null> {
   try {
     const response = await fetch('/api/config/refresh-token', {
       method: 'POST',
@@ -48,13 +69,13 @@ export async function refreshEjentoToken(): Promise<string | null> {
 
     const data = await response.json();
     
-    if (data.success && data.accessToken) {
+    if (data.success) {
       // Update session metadata with refresh timestamp
       await createOrUpdateSessionMetadata({
         lastTokenRefresh: Date.now(),
       });
 
-      return data.accessToken;
+      return toTokenStatus(data);
     }
 
     throw new Error(data.message || 'Token refresh failed');
@@ -64,6 +85,23 @@ export async function refreshEjentoToken(): Promise<string | null> {
   }
 }
 
+/**
+ * Gets the current token status without triggering a refresh
+ */
+export async function getTokenStatus(): Promise<TokenStatus | null> {
+  try {
+    const response = await fetch('/api/config/refresh-token');
+    if (!response.ok) {
+      return null;
+    }
+    const data = await response.json();
+    return data.success ? toTokenStatus(data) : null;
+  } catch (error) {
+    console.error('Error getting token status:', error);
+    return null;
+  }
+}
+
 /**
  * Checks if token refresh is needed based on last refresh timestamp
  */
@@ -2,7 +2,6 @@ import axios from "axios"
 import { clsx, type ClassValue } from "clsx"
 import { customAlphabet } from 'nanoid'
 import { twMerge } from "tailwind-merge"
-import CryptoJS from "crypto-js";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
@@ -62,6 +61,21 @@ export function generateUUID(): string {
   });
 }
 
+/**
+ * Triggers a browser download for generated content
+ */
+export function downloadFile(fileName: string, content: string | Blob, mimeType: string) {
+  const blob = typeof content === 'string' ? new Blob([content], { type: mimeType }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
 
 
 interface ApplicationError extends Error {
@@ -249,54 +263,39 @@ export function getMessageIdFromAnnotations(message: any) {
   return annotation.messageIdFromServer;
 }
 
-export const handleSetQueryParams = (id: string, title: string) => {
-  const params = new URLSearchParams(window.location.search); // Get current query params
-
-  // Set the new query parameters
-  params.set('id', encryptData(id));
-  params.set('title', encryptData(title));
-
-  // Update the URL without reloading the page
-  window.history.replaceState({}, '', `${window.location.pathname}?${params.toString()}`);
+/**
+ * Thread shown at /chat/[threadId], or null at /chat
+ */
+export const getThreadIdFromPath = (pathname: string | null): string | null => {
+  const match = pathname?.match(/^\/chat\/(-?\d+)\/?$/);
+  return match ? match[1] : null;
 };
-const secretKey = process.env.NEXT_PUBLIC_SECRET_KEY
-
-export const encryptData = (text: any) => {
-  const data = CryptoJS.AES.encrypt(
-    JSON.stringify(text),
-    secretKey!
-  ).toString().replace(/\//g, '_');
 
-  return data;
+/**
+ * Shows a thread at its route without reloading the page; the chat follows the path.
+ * Without a thread, goes back to /chat.
+ */
+export const showChatThread = (threadId?: string | null) => {
+  window.history.replaceState({}, '', threadId ? `/chat/${threadId}` : '/chat');
 };
 
+/**
+ * Active thread of this tab
+ *
+ * Kept in sessionStorage so tabs don't overwrite each other's thread. localStorage
+ * holds the last thread opened in any tab, which new tabs start from.
+ */
+const ACTIVE_THREAD_KEY = 'active_thread_id';
 
-export const decryptData = (text: any) => {
-  if (!text) {
-    return null;
-  }
+export const getActiveThreadId = (): string | null =>
+  sessionStorage.getItem(ACTIVE_THREAD_KEY) ?? localStorage.getItem(ACTIVE_THREAD_KEY);
 
-  try {
-    // Decrypt the text and handle the key internally
-    const bytes = CryptoJS.AES.decrypt(text.replace(/_/g, '/'), secretKey!);
-    const decryptedText = bytes.toString(CryptoJS.enc.Utf8);
-
-    // Check if the decrypted text is empty or undefined
-    if (!decryptedText) {
-      throw new Error('Decryption resulted in an empty string.');
-    }
-
-    // Attempt to parse the decrypted text as JSON
-    const data = JSON.parse(decryptedText);
-    return data;
-  } catch (error:any) {
-    console.error('Error decrypting or parsing data:', error.message);
-    return null; // Return null to avoid breaking the app
-  }
+export const setActiveThreadId = (threadId: string) => {
+  sessionStorage.setItem(ACTIVE_THREAD_KEY, threadId);
+  localStorage.setItem(ACTIVE_THREAD_KEY, threadId);
 };
 
-export const refreshIfEmpty = (value: any) => {
-  if (value === null || value === undefined || value === '') {
-    window.location.reload();
-  }
+export const clearActiveThreadId = () => {
+  sessionStorage.removeItem(ACTIVE_THREAD_KEY);
+  localStorage.removeItem(ACTIVE_THREAD_KEY);
 };
@@ -26,6 +26,15 @@ export interface AllChatsResponseV2 {
   }
 }
 
+/**
+ * One page of chat threads, as returned by ApiService.getChatThreadsPage
+ */
+export interface ChatThreadsPage {
+  threads: ChatThreadResponse[];
+  page: number;
+  hasMore: boolean;
+}
+
 export type chatThreadResponse = {
   id: number;
   response: AgentChatResponse;
@@ -112,6 +121,11 @@ export interface AgentChatResponse {
   thread_name: string;
   agent_response_id: number;
   id: number;
+  success?: boolean;
+  /** Failure reason when `success` is false */
+  message?: string;
+  guardrail_triggered?: boolean;
+  blocked?: boolean;
 }
 
 export type AgentChatFeedbackRequestBody = {
@@ -138,5 +152,7 @@ export interface ChatEventHandlers {
   onmessage?: (event: { data: string }) => void;
   onclose?: () => void;
   onerror?: (error: Error) => void;
+  /** Whether the terminal step has been received; a close before that is treated as a drop */
+  isComplete?: () => boolean;
   signal?: AbortSignal;
 }